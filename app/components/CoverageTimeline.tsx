@@ -0,0 +1,91 @@
+import { diffDaysDateOnly } from "~/utils/date";
+
+export interface CoverageTimelineSegment {
+  paymentId: string;
+  start: string;
+  end: string;
+  stacked: boolean;
+}
+
+export interface CoverageTimelineGap {
+  start: string;
+  end: string;
+  days: number;
+}
+
+interface CoverageTimelineProps {
+  segments: CoverageTimelineSegment[];
+  gaps: CoverageTimelineGap[];
+  today: string;
+}
+
+export default function CoverageTimeline({
+  segments,
+  gaps,
+  today,
+}: CoverageTimelineProps) {
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const rangeStart = segments[0].start < today ? segments[0].start : today;
+  const lastEnd = segments[segments.length - 1].end;
+  const rangeEnd = lastEnd > today ? lastEnd : today;
+  const totalDays = Math.max(1, diffDaysDateOnly(rangeEnd, rangeStart));
+
+  const position = (start: string, end: string) => ({
+    left: `${(diffDaysDateOnly(start, rangeStart) / totalDays) * 100}%`,
+    width: `${(Math.max(0, diffDaysDateOnly(end, start)) / totalDays) * 100}%`,
+  });
+
+  return (
+    <div>
+      <div className="relative h-8 rounded bg-gray-100 overflow-hidden">
+        {segments.map((segment) => (
+          <div
+            key={segment.paymentId}
+            className={`absolute inset-y-0 border-r-2 border-white ${segment.stacked ? "bg-blue-500" : "bg-green-500"
+              }`}
+            style={position(segment.start, segment.end)}
+            title={`${segment.start} → ${segment.end}`}
+          />
+        ))}
+        {gaps.map((gap) => (
+          <div
+            key={gap.start}
+            className="absolute inset-y-0 bg-red-300"
+            style={position(gap.start, gap.end)}
+            title={`Gián đoạn ${gap.days} ngày: ${gap.start} → ${gap.end}`}
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-gray-900"
+          style={{ left: `${(diffDaysDateOnly(today, rangeStart) / totalDays) * 100}%` }}
+          title={`Hôm nay: ${today}`}
+        />
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>{rangeStart}</span>
+        <span>{rangeEnd}</span>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-green-500" />
+          Thanh toán
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-blue-500" />
+          Nối tiếp (trả trước)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-red-300" />
+          Gián đoạn
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-0.5 bg-gray-900" />
+          Hôm nay
+        </span>
+      </div>
+    </div>
+  );
+}
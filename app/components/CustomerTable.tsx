@@ -1,4 +1,6 @@
 import { Link } from "@remix-run/react";
+import type { SubscriptionStatus } from "~/models/subscriptionStatus";
+import { formatMoney, type Currency } from "~/utils/currency";
 
 export interface CustomerWithStatus {
   customer: {
@@ -11,13 +13,13 @@ export interface CustomerWithStatus {
     _id: string;
     paidDate: string;
     endDate: string;
-    currency: "VND" | "USD";
+    currency: Currency;
     amount: number;
     months: number;
     note?: string;
   } | null;
   status: {
-    status: "active" | "due" | "grace" | "expired" | "none";
+    status: SubscriptionStatus;
     className: string;
     label: string;
   };
@@ -60,6 +62,7 @@ function StatusBadge({
     due: "bg-yellow-100 text-yellow-800 border border-yellow-600",
     grace: "bg-orange-100 text-orange-800 border border-orange-600",
     expired: "bg-red-100 text-red-800 border border-red-600",
+    paused: "bg-sky-100 text-sky-800 border border-sky-600",
     none: "bg-gray-100 text-gray-800 border border-gray-400",
   };
 
@@ -89,6 +92,7 @@ function getRowClass(status: CustomerWithStatus["status"]["status"]): string {
     due: "bg-yellow-50",
     grace: "bg-orange-50",
     expired: "bg-red-50",
+    paused: "bg-sky-50",
     none: "bg-white",
   };
   return classes[status];
@@ -202,9 +206,7 @@ export default function CustomerTable({
               <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
                 {latestPayment ? (
                   <>
-                    {latestPayment.currency === "VND"
-                      ? `${Math.round(latestPayment.amount).toLocaleString("vi-VN")} ₫`
-                      : `$${latestPayment.amount.toFixed(2)}`}
+                    {formatMoney(latestPayment.amount, latestPayment.currency)}
                   </>
                 ) : (
                   <span className="text-gray-400">{t.noPayment}</span>
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import {
+  calculateRecommendedMonths,
+  getAmountPresets,
+  getExpectedAmount,
+  getPlanPricing,
+  type PlanPrices,
+} from "~/models/subscriptionStatus";
+import {
+  CURRENCIES,
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  getAmountPrecisionMessage,
+  getAmountStep,
+  roundMoney,
+  type Currency,
+} from "~/utils/currency";
+
+export interface PaymentPlanOption {
+  _id: string;
+  name: string;
+  prices: PlanPrices;
+  billingPeriodMonths: number;
+}
+
+interface PaymentAmountFieldsProps {
+  plans: PaymentPlanOption[];
+  defaultPlanId?: string;
+  defaultCurrency?: Currency;
+  defaultAmount?: number;
+  defaultMonths?: number;
+  balances?: Partial<Record<Currency, number>>;
+  errors?: {
+    planId?: string;
+    amount?: string;
+    months?: string;
+  };
+  fieldClassName?: string;
+}
+
+function formatPresetLabel(amount: number, currency: Currency): string {
+  if (currency === "VND" && amount % 1000 === 0) {
+    return `${amount / 1000}k`;
+  }
+  return formatMoney(amount, currency);
+}
+
+export function PaymentAmountFields({
+  plans,
+  defaultPlanId,
+  defaultCurrency = DEFAULT_CURRENCY,
+  defaultAmount,
+  defaultMonths,
+  balances = {},
+  errors,
+  fieldClassName,
+}: PaymentAmountFieldsProps) {
+  const [planId, setPlanId] = useState(() =>
+    plans.some((p) => p._id === defaultPlanId)
+      ? (defaultPlanId as string)
+      : plans[0]?._id || ""
+  );
+  const [currency, setCurrency] = useState<Currency>(defaultCurrency);
+
+  const plan = plans.find((p) => p._id === planId) || null;
+  const pricing = getPlanPricing(plan, currency);
+  const presets = getAmountPresets(pricing);
+  const { symbol, minorDigits } = CURRENCIES[currency];
+
+  const [amount, setAmount] = useState(() => {
+    if (defaultAmount && Number.isFinite(defaultAmount) && defaultAmount > 0) {
+      return defaultAmount;
+    }
+    return pricing?.price || 0;
+  });
+  const [monthsManuallyEdited, setMonthsManuallyEdited] = useState(false);
+
+  const balance = balances[currency] || 0;
+  const recommendedMonths = calculateRecommendedMonths(amount + balance, pricing);
+  const [months, setMonths] = useState(defaultMonths || recommendedMonths);
+
+  const expectedAmount = getExpectedAmount(months, pricing);
+  const balanceAfter =
+    expectedAmount === null
+      ? null
+      : roundMoney(amount + balance - expectedAmount, currency);
+
+  const updateRecommendation = (
+    nextAmount: number,
+    nextPlanId: string,
+    nextCurrency: Currency
+  ) => {
+    if (monthsManuallyEdited) return;
+    const nextPlan = plans.find((p) => p._id === nextPlanId) || null;
+    setMonths(
+      calculateRecommendedMonths(
+        nextAmount + (balances[nextCurrency] || 0),
+        getPlanPricing(nextPlan, nextCurrency)
+      )
+    );
+  };
+
+  return (
+    <>
+      <div className={fieldClassName}>
+        <label
+          htmlFor="planId"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Gói <span className="text-red-500">*</span>
+        </label>
+        <select
+          name="planId"
+          id="planId"
+          value={planId}
+          onChange={(e) => {
+            setPlanId(e.target.value);
+            updateRecommendation(amount, e.target.value, currency);
+          }}
+          className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${errors?.planId ? "border-red-300" : ""
+            }`}
+          required
+        >
+          {plans.length === 0 && <option value="">Chưa có gói nào</option>}
+          {plans.map((p) => (
+            <option key={p._id} value={p._id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        {errors?.planId && (
+          <p className="mt-1 text-sm text-red-600">{errors.planId}</p>
+        )}
+      </div>
+
+      <div className={fieldClassName}>
+        <label
+          htmlFor="currency"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Tiền tệ <span className="text-red-500">*</span>
+        </label>
+        <select
+          name="currency"
+          id="currency"
+          value={currency}
+          onChange={(e) => {
+            const next = e.target.value as Currency;
+            setCurrency(next);
+            updateRecommendation(amount, planId, next);
+          }}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          required
+        >
+          {CURRENCY_CODES.map((code) => (
+            <option key={code} value={code}>
+              {code} ({CURRENCIES[code].symbol})
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          {pricing
+            ? `Giá gói: ${formatMoney(pricing.price, currency)}/${pricing.billingPeriodMonths} tháng`
+            : "Gói này chưa có giá cho tiền tệ đã chọn"}
+        </p>
+      </div>
+
+      <div className={fieldClassName}>
+        <label
+          htmlFor="amount"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Số tiền <span className="text-red-500">*</span>
+        </label>
+        <div className="mt-1 grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {presets.length > 0 && (
+            <select
+              id="amountPreset"
+              value={presets.includes(amount) ? String(amount) : "custom"}
+              onChange={(e) => {
+                const next = e.target.value;
+                if (next === "custom") return;
+                const nextAmount = parseFloat(next) || 0;
+                setAmount(nextAmount);
+                updateRecommendation(nextAmount, planId, currency);
+              }}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {presets.map((preset) => (
+                <option key={preset} value={String(preset)}>
+                  {formatPresetLabel(preset, currency)}
+                </option>
+              ))}
+              <option value="custom">Tùy chỉnh</option>
+            </select>
+          )}
+
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <span className="text-gray-500 sm:text-sm">
+                {symbol}
+              </span>
+            </div>
+            <input
+              type="number"
+              name="amount"
+              id="amount"
+              min={getAmountStep(currency)}
+              step={getAmountStep(currency)}
+              value={amount || ""}
+              onChange={(e) => {
+                const val = parseFloat(e.target.value) || 0;
+                setAmount(val);
+                updateRecommendation(val, planId, currency);
+              }}
+              className={`block w-full pl-7 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${errors?.amount ? "border-red-300" : ""
+                }`}
+              placeholder={pricing ? String(pricing.price) : ""}
+              required
+            />
+          </div>
+        </div>
+        {minorDigits === 0 && (
+          <p className="mt-1 text-xs text-gray-500">
+            {getAmountPrecisionMessage(currency)}
+          </p>
+        )}
+        {balance !== 0 && (
+          <p className={`mt-1 text-xs ${balance > 0 ? "text-green-700" : "text-red-700"}`}>
+            {balance > 0
+              ? `Tín dụng hiện có ${formatMoney(balance, currency)} sẽ được cộng vào thanh toán này`
+              : `Công nợ hiện có ${formatMoney(-balance, currency)} sẽ được trừ vào thanh toán này`}
+          </p>
+        )}
+        {errors?.amount && (
+          <p className="mt-1 text-sm text-red-600">{errors.amount}</p>
+        )}
+      </div>
+
+      <div className={fieldClassName}>
+        <label
+          htmlFor="months"
+          className="block text-sm font-medium text-gray-700"
+        >
+          Số tháng <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="number"
+          name="months"
+          id="months"
+          min="1"
+          step="1"
+          value={months}
+          onChange={(e) => {
+            const val = parseInt(e.target.value, 10) || 1;
+            setMonths(val);
+            setMonthsManuallyEdited(true);
+          }}
+          className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${errors?.months ? "border-red-300" : ""
+            }`}
+          required
+        />
+        <p className="mt-1 text-sm text-gray-600">
+          Gợi ý: <strong>{recommendedMonths}</strong> tháng (theo số tiền)
+        </p>
+        {balanceAfter !== null && balanceAfter !== 0 && (
+          <p className={`mt-1 text-xs ${balanceAfter > 0 ? "text-green-700" : "text-red-700"}`}>
+            {balanceAfter > 0
+              ? `Thừa ${formatMoney(balanceAfter, currency)}, ghi vào tín dụng`
+              : `Thiếu ${formatMoney(-balanceAfter, currency)}, ghi vào công nợ`}
+          </p>
+        )}
+        {errors?.months && (
+          <p className="mt-1 text-sm text-red-600">{errors.months}</p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -20,6 +20,7 @@ const STRINGS = {
       due: "Sắp đến hạn",
       grace: "Quá hạn (cao su)",
       expired: "Hết hạn",
+      paused: "Tạm dừng",
     },
     customerTable: {
       emptyTitle: "Chưa có thành viên nào",
@@ -46,6 +47,38 @@ const STRINGS = {
       note: "Ghi chú",
       noPaymentHistory: "Chưa có lịch sử thanh toán.",
     },
+    receipt: {
+      title: "Biên lai thanh toán",
+      receiptNumber: "Số biên lai",
+      issuedDate: "Ngày lập",
+      member: "Thành viên",
+      paidDate: "Ngày thanh toán",
+      plan: "Gói",
+      months: "Số tháng",
+      period: "Thời hạn",
+      amount: "Số tiền",
+      refunded: "Đã hoàn",
+      note: "Ghi chú",
+      thanks: "Cảm ơn bạn đã sử dụng dịch vụ.",
+      print: "In biên lai",
+      downloadPdf: "Tải PDF",
+      formatMonths: (months: number) => `${months} tháng`,
+    },
+    renewalReminder: {
+      subject: {
+        due: "Gói thành viên Kana Box sắp hết hạn",
+        grace: "Gói thành viên Kana Box đã hết hạn",
+      },
+      greeting: (name: string) => `Chào ${name},`,
+      due: (endDate: string, daysLeft: number) =>
+        daysLeft === 0
+          ? `Gói thành viên của bạn hết hạn hôm nay (${endDate}).`
+          : `Gói thành viên của bạn sẽ hết hạn vào ngày ${endDate} (còn ${daysLeft} ngày).`,
+      grace: (endDate: string, graceEndDate: string) =>
+        `Gói thành viên của bạn đã hết hạn vào ngày ${endDate}. Vui lòng gia hạn trước ngày ${graceEndDate} để không bị gián đoạn.`,
+      renew: "Liên hệ quản trị viên để gia hạn. Nếu bạn đã thanh toán, vui lòng bỏ qua email này.",
+      signature: "Kana Box V2",
+    },
   },
   en: {
     languageLabel: "Language",
@@ -62,6 +95,7 @@ const STRINGS = {
       due: "Due",
       grace: "Grace",
       expired: "Expired",
+      paused: "Paused",
     },
     customerTable: {
       emptyTitle: "No members yet",
@@ -89,6 +123,39 @@ const STRINGS = {
       note: "Note",
       noPaymentHistory: "No payment history.",
     },
+    receipt: {
+      title: "Payment receipt",
+      receiptNumber: "Receipt no.",
+      issuedDate: "Issued",
+      member: "Member",
+      paidDate: "Paid date",
+      plan: "Plan",
+      months: "Months",
+      period: "Period",
+      amount: "Amount",
+      refunded: "Refunded",
+      note: "Note",
+      thanks: "Thank you for your payment.",
+      print: "Print receipt",
+      downloadPdf: "Download PDF",
+      formatMonths: (months: number) =>
+        `${months} ${months === 1 ? "month" : "months"}`,
+    },
+    renewalReminder: {
+      subject: {
+        due: "Your Kana Box membership is about to expire",
+        grace: "Your Kana Box membership has expired",
+      },
+      greeting: (name: string) => `Hi ${name},`,
+      due: (endDate: string, daysLeft: number) =>
+        daysLeft === 0
+          ? `Your membership expires today (${endDate}).`
+          : `Your membership expires on ${endDate} (${daysLeft} ${daysLeft === 1 ? "day" : "days"} left).`,
+      grace: (endDate: string, graceEndDate: string) =>
+        `Your membership expired on ${endDate}. Please renew before ${graceEndDate} to avoid interruption.`,
+      renew: "Contact an admin to renew. If you have already paid, please ignore this email.",
+      signature: "Kana Box V2",
+    },
   },
 } as const;
 
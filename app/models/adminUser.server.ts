@@ -0,0 +1,168 @@
+import { ObjectId } from "mongodb";
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { getDb } from "~/utils/db.server";
+import type { AdminRole } from "~/models/permissions";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+export interface AdminUser {
+  _id: ObjectId;
+  username: string;
+  passwordHash: string;
+  role: AdminRole;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AdminUserInput {
+  username: string;
+  password: string;
+  role: AdminRole;
+}
+
+// Admins created before roles existed have no role field; they were all owners.
+function withDefaultRole(user: AdminUser): AdminUser {
+  return user.role ? user : { ...user, role: "owner" };
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// Stored as "scrypt$<salt hex>$<hash hex>"; scripts/create-admin.mjs writes the same format.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, "hex"),
+    expected.length
+  );
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export async function createAdminUser(input: AdminUserInput): Promise<AdminUser> {
+  const db = await getDb();
+  const collection = db.collection<AdminUser>("admin_users");
+
+  const now = new Date();
+  const user: Omit<AdminUser, "_id"> = {
+    username: normalizeUsername(input.username),
+    passwordHash: await hashPassword(input.password),
+    role: input.role,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const result = await collection.insertOne(user as AdminUser);
+
+  return {
+    _id: result.insertedId,
+    ...user,
+  } as AdminUser;
+}
+
+export async function getAdminUserById(id: string): Promise<AdminUser | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<AdminUser>("admin_users");
+
+  const user = await collection.findOne({ _id: new ObjectId(id) });
+  return user && withDefaultRole(user);
+}
+
+export async function verifyAdminLogin(
+  username: string,
+  password: string
+): Promise<AdminUser | null> {
+  const db = await getDb();
+  const collection = db.collection<AdminUser>("admin_users");
+
+  const user = await collection.findOne({ username: normalizeUsername(username) });
+  if (!user) {
+    return null;
+  }
+
+  const isValid = await verifyPassword(password, user.passwordHash);
+  if (!isValid) {
+    return null;
+  }
+
+  await collection.updateOne(
+    { _id: user._id },
+    { $set: { lastLoginAt: new Date() } }
+  );
+
+  return withDefaultRole(user);
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const db = await getDb();
+  const collection = db.collection<AdminUser>("admin_users");
+
+  const users = await collection
+    .find({})
+    .sort({ username: 1 })
+    .toArray();
+  return users.map(withDefaultRole);
+}
+
+export async function countAdminUsersWithRole(role: AdminRole): Promise<number> {
+  const db = await getDb();
+  const collection = db.collection<AdminUser>("admin_users");
+  return collection.countDocuments(
+    role === "owner"
+      ? { $or: [{ role }, { role: { $exists: false } }] }
+      : { role }
+  );
+}
+
+export async function updateAdminUserRole(
+  id: string,
+  role: AdminRole
+): Promise<AdminUser | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<AdminUser>("admin_users");
+
+  const result = await collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        role,
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: "after" }
+  );
+
+  return result && withDefaultRole(result);
+}
@@ -0,0 +1,141 @@
+import { serializeCustomerRecord, type Customer } from "~/models/customer.server";
+import type { Payment } from "~/models/payment.server";
+import { getPlanById } from "~/models/plan.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import {
+  computeCustomerStatus,
+  type StatusThresholds,
+} from "~/models/subscriptionStatus";
+import { DEFAULT_CURRENCY, isCurrency, type Currency } from "~/utils/currency";
+import {
+  validateAmount,
+  validateDateOnly,
+  validateDisplayName,
+  validateEmail,
+  validateMonths,
+} from "~/utils/validation";
+import type { FieldErrors } from "~/utils/api.server";
+
+export function serializeCustomer(
+  customer: Customer,
+  payments: Payment[],
+  thresholds: StatusThresholds
+) {
+  const status = computeCustomerStatus(
+    getCurrentCoverage(buildCoverageTimeline(payments)),
+    thresholds,
+    customer
+  );
+
+  return {
+    ...serializeCustomerRecord(customer),
+    status: status.status,
+    statusLabel: status.label,
+    endDate: status.effectiveEndDate,
+  };
+}
+
+function readString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value === "string") {
+    return value.trim();
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  return "";
+}
+
+function has(body: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(body, key);
+}
+
+export interface CustomerBody {
+  displayName: string;
+  note?: string;
+  email?: string;
+}
+
+export function parseCustomerBody(
+  body: Record<string, unknown>,
+  current?: Customer
+): { input: CustomerBody; errors: FieldErrors } {
+  const displayName =
+    current && !has(body, "displayName") ? current.displayName : readString(body, "displayName");
+  const note = current && !has(body, "note") ? current.note : readString(body, "note");
+  const email = current && !has(body, "email") ? current.email : readString(body, "email");
+
+  const errors: FieldErrors = {};
+  const displayNameError = validateDisplayName(displayName);
+  if (displayNameError) {
+    errors.displayName = displayNameError;
+  }
+  const emailError = validateEmail(email || "");
+  if (emailError) {
+    errors.email = emailError;
+  }
+
+  return { input: { displayName, note: note || undefined, email: email || undefined }, errors };
+}
+
+export interface PaymentBody {
+  paidDate: string;
+  periodStart?: string;
+  currency: Currency;
+  amount: number;
+  months: number;
+  planId: string;
+  note?: string;
+}
+
+export async function parsePaymentBody(
+  body: Record<string, unknown>,
+  current?: Payment
+): Promise<{ input: PaymentBody; errors: FieldErrors }> {
+  const pick = (key: string, fallback: string | undefined) =>
+    current && !has(body, key) ? fallback || "" : readString(body, key);
+
+  const currencyStr = pick("currency", current?.currency) || DEFAULT_CURRENCY;
+  const amountStr = pick("amount", current && String(current.amount));
+  const monthsStr = pick("months", current && String(current.months));
+  const paidDate = pick("paidDate", current?.paidDate);
+  const periodStart = pick("periodStart", current?.periodStart);
+  const planId = pick("planId", current?.planId?.toString());
+  const note = pick("note", current?.note);
+
+  const errors: FieldErrors = {};
+  const currency: Currency = isCurrency(currencyStr) ? currencyStr : DEFAULT_CURRENCY;
+  if (!isCurrency(currencyStr)) {
+    errors.currency = "Tiền tệ không hợp lệ";
+  }
+
+  const plan = await getPlanById(planId);
+  if (!plan || (!plan.active && plan._id.toString() !== current?.planId?.toString())) {
+    errors.planId = "Vui lòng chọn gói hợp lệ";
+  }
+
+  const checks: Array<[keyof PaymentBody, string | undefined]> = [
+    ["amount", validateAmount(amountStr, currency)],
+    ["months", validateMonths(monthsStr)],
+    ["paidDate", validateDateOnly(paidDate)],
+    ["periodStart", validateDateOnly(periodStart, { required: false })],
+  ];
+  for (const [field, error] of checks) {
+    if (error) {
+      errors[field] = error;
+    }
+  }
+
+  return {
+    input: {
+      paidDate,
+      periodStart: periodStart || undefined,
+      currency,
+      amount: parseFloat(amountStr),
+      months: parseInt(monthsStr, 10),
+      planId,
+      note: note || undefined,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,92 @@
+import { ObjectId } from "mongodb";
+import { createHash, randomBytes } from "node:crypto";
+import { getDb } from "~/utils/db.server";
+import type { AdminUser } from "~/models/adminUser.server";
+import type { ApiTokenScope } from "~/models/apiTokenScopes";
+
+const TOKEN_PREFIX = "kb_";
+
+export interface ApiToken {
+  _id: ObjectId;
+  name: string;
+  scope: ApiTokenScope;
+  tokenHash: string;
+  tokenHint: string;
+  userId: ObjectId;
+  username: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// Tokens are 32 random bytes, so a plain SHA-256 is enough to keep the stored value
+// useless without the secret while still allowing a direct index lookup.
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export async function createApiToken(
+  input: { name: string; scope: ApiTokenScope },
+  owner: AdminUser
+): Promise<{ token: ApiToken; secret: string }> {
+  const db = await getDb();
+  const collection = db.collection<ApiToken>("api_tokens");
+
+  const secret = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const token: Omit<ApiToken, "_id"> = {
+    name: input.name.trim(),
+    scope: input.scope,
+    tokenHash: hashToken(secret),
+    tokenHint: secret.slice(-4),
+    userId: owner._id,
+    username: owner.username,
+    createdAt: new Date(),
+  };
+
+  const result = await collection.insertOne(token as ApiToken);
+
+  return {
+    token: { _id: result.insertedId, ...token } as ApiToken,
+    secret,
+  };
+}
+
+export async function listApiTokens(): Promise<ApiToken[]> {
+  const db = await getDb();
+  const collection = db.collection<ApiToken>("api_tokens");
+
+  return collection
+    .find({})
+    .sort({ revokedAt: 1, createdAt: -1 })
+    .toArray();
+}
+
+export async function revokeApiToken(id: string): Promise<ApiToken | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<ApiToken>("api_tokens");
+
+  return collection.findOneAndUpdate(
+    { _id: new ObjectId(id), revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } },
+    { returnDocument: "after" }
+  );
+}
+
+export async function authenticateApiToken(secret: string): Promise<ApiToken | null> {
+  if (!secret.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<ApiToken>("api_tokens");
+
+  return collection.findOneAndUpdate(
+    { tokenHash: hashToken(secret), revokedAt: { $exists: false } },
+    { $set: { lastUsedAt: new Date() } },
+    { returnDocument: "after" }
+  );
+}
@@ -0,0 +1,12 @@
+export type ApiTokenScope = "read" | "write";
+
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ["read", "write"];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Chỉ đọc",
+  write: "Đọc và ghi",
+};
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
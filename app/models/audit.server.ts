@@ -0,0 +1,204 @@
+import { ObjectId, type ClientSession } from "mongodb";
+import { getDb } from "~/utils/db.server";
+import type { AdminUser } from "~/models/adminUser.server";
+
+export type AuditAction =
+  | "customer.create"
+  | "customer.update"
+  | "customer.hide"
+  | "customer.unhide"
+  | "customer.cancelRenewal"
+  | "customer.resumeRenewal"
+  | "customer.pause"
+  | "customer.resume"
+  | "customer.delete"
+  | "customer.restore"
+  | "customer.purge"
+  | "payment.create"
+  | "payment.update"
+  | "payment.delete"
+  | "payment.restore"
+  | "payment.purge"
+  | "refund.create"
+  | "refund.delete"
+  | "balance.adjust";
+
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  "customer.create",
+  "customer.update",
+  "customer.hide",
+  "customer.unhide",
+  "customer.cancelRenewal",
+  "customer.resumeRenewal",
+  "customer.pause",
+  "customer.resume",
+  "customer.delete",
+  "customer.restore",
+  "customer.purge",
+  "payment.create",
+  "payment.update",
+  "payment.delete",
+  "payment.restore",
+  "payment.purge",
+  "refund.create",
+  "refund.delete",
+  "balance.adjust",
+];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "customer.create": "Tạo thành viên",
+  "customer.update": "Sửa thành viên",
+  "customer.hide": "Ẩn công khai",
+  "customer.unhide": "Hiện công khai",
+  "customer.cancelRenewal": "Hủy gia hạn",
+  "customer.resumeRenewal": "Bật lại gia hạn",
+  "customer.pause": "Tạm dừng",
+  "customer.resume": "Tiếp tục",
+  "customer.delete": "Chuyển thành viên vào thùng rác",
+  "customer.restore": "Khôi phục thành viên",
+  "customer.purge": "Xóa vĩnh viễn thành viên",
+  "payment.create": "Thêm thanh toán",
+  "payment.update": "Sửa thanh toán",
+  "payment.delete": "Chuyển thanh toán vào thùng rác",
+  "payment.restore": "Khôi phục thanh toán",
+  "payment.purge": "Xóa vĩnh viễn thanh toán",
+  "refund.create": "Hoàn tiền",
+  "refund.delete": "Xóa hoàn tiền",
+  "balance.adjust": "Điều chỉnh số dư",
+};
+
+export type AuditEntityType = "customer" | "payment" | "refund" | "balance";
+
+export interface AuditActor {
+  userId: ObjectId;
+  username: string;
+}
+
+export interface AuditEvent {
+  _id: ObjectId;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: ObjectId;
+  customerId: ObjectId;
+  actor: AuditActor | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface WriteOptions {
+  actor?: AuditActor;
+  session?: ClientSession;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: ObjectId;
+  customerId: ObjectId;
+  before: object | null;
+  after: object | null;
+}
+
+export interface AuditEventFilter {
+  customerId?: string;
+  actorUsername?: string;
+  action?: AuditAction;
+  limit?: number;
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === "string" && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+export function actorFromAdmin(user: AdminUser): AuditActor {
+  return {
+    userId: user._id,
+    username: user.username,
+  };
+}
+
+export async function recordAuditEvent(
+  input: AuditEventInput,
+  options: WriteOptions = {}
+): Promise<void> {
+  const db = await getDb();
+  const collection = db.collection<AuditEvent>("audit_events");
+
+  const event: Omit<AuditEvent, "_id"> = {
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    customerId: input.customerId,
+    actor: options.actor || null,
+    before: (input.before as Record<string, unknown> | null) || null,
+    after: (input.after as Record<string, unknown> | null) || null,
+    createdAt: new Date(),
+  };
+
+  await collection.insertOne(event as AuditEvent, { session: options.session });
+}
+
+export async function listAuditEvents(
+  filter: AuditEventFilter = {}
+): Promise<AuditEvent[]> {
+  const db = await getDb();
+  const collection = db.collection<AuditEvent>("audit_events");
+
+  const query: Record<string, unknown> = {};
+
+  if (filter.customerId && ObjectId.isValid(filter.customerId)) {
+    query.customerId = new ObjectId(filter.customerId);
+  }
+
+  if (filter.actorUsername) {
+    query["actor.username"] = filter.actorUsername;
+  }
+
+  if (filter.action) {
+    query.action = filter.action;
+  }
+
+  return collection
+    .find(query)
+    .sort({ createdAt: -1 })
+    .limit(filter.limit || 200)
+    .toArray();
+}
+
+const IGNORED_DIFF_FIELDS = new Set(["_id", "customerId", "createdAt", "updatedAt"]);
+
+function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "∅";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export function summarizeAuditChanges(event: AuditEvent): string[] {
+  const before = event.before || {};
+  const after = event.after || {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: string[] = [];
+
+  for (const key of keys) {
+    if (IGNORED_DIFF_FIELDS.has(key)) {
+      continue;
+    }
+
+    const previous = formatAuditValue(before[key]);
+    const next = formatAuditValue(after[key]);
+
+    if (previous !== next) {
+      changes.push(`${key}: ${previous} → ${next}`);
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,220 @@
+import { ObjectId } from "mongodb";
+import { getDb } from "~/utils/db.server";
+import { recordAuditEvent, type WriteOptions } from "~/models/audit.server";
+import type { Payment } from "~/models/payment.server";
+import type { Refund } from "~/models/refund.server";
+import { getExpectedAmount } from "~/models/subscriptionStatus";
+import { roundMoney, type Currency } from "~/utils/currency";
+
+export type BalanceEntryKind = "payment" | "adjustment";
+
+export interface BalanceEntry {
+  _id: ObjectId;
+  customerId: ObjectId;
+  kind: BalanceEntryKind;
+  paymentId?: ObjectId;
+  currency: Currency;
+  amount: number;
+  entryDate: string;
+  note?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface BalanceAdjustmentInput {
+  customerId: string;
+  currency: Currency;
+  amount: number;
+  entryDate: string;
+  note?: string;
+}
+
+export type CurrencyBalances = Partial<Record<Currency, number>>;
+
+const ACTIVE_PAYMENT_STAGES = [
+  {
+    $lookup: {
+      from: "payments",
+      localField: "paymentId",
+      foreignField: "_id",
+      as: "payment",
+    },
+  },
+  { $match: { "payment.deletedAt": { $exists: false } } },
+  { $project: { payment: 0 } },
+];
+
+// Refunds come off the amount paid. One that also shortens coverage gives back unused time,
+// so the expected amount shrinks in the same proportion; one that does not (e.g. returning
+// an overpayment) only reduces the credit.
+export function getPaymentBalanceDelta(payment: Payment, refunds: Refund[] = []): number {
+  const expected = getExpectedAmount(
+    payment.months,
+    payment.planPrice
+      ? { price: payment.planPrice, billingPeriodMonths: payment.planPeriodMonths || 1 }
+      : null
+  );
+  if (expected === null) {
+    return 0;
+  }
+
+  const refunded = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+  const refundedWithCoverage = refunds
+    .filter((refund) => refund.shortensCoverage)
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  const expectedShare = payment.amount > 0 ? 1 - refundedWithCoverage / payment.amount : 1;
+
+  return roundMoney(
+    payment.amount - refunded - expected * Math.max(0, expectedShare),
+    payment.currency
+  );
+}
+
+export async function syncPaymentBalanceEntry(
+  payment: Payment,
+  options: WriteOptions = {}
+): Promise<void> {
+  const db = await getDb();
+  const collection = db.collection<BalanceEntry>("balance_entries");
+
+  const refunds = await db
+    .collection<Refund>("refunds")
+    .find({ paymentId: payment._id }, { session: options.session })
+    .toArray();
+  const amount = getPaymentBalanceDelta(payment, refunds);
+  if (amount === 0) {
+    await collection.deleteOne(
+      { paymentId: payment._id },
+      { session: options.session }
+    );
+    return;
+  }
+
+  const now = new Date();
+  await collection.updateOne(
+    { paymentId: payment._id },
+    {
+      $set: {
+        customerId: payment.customerId,
+        kind: "payment",
+        currency: payment.currency,
+        amount,
+        entryDate: payment.paidDate,
+        updatedAt: now,
+      },
+      $setOnInsert: { createdAt: now },
+    },
+    { upsert: true, session: options.session }
+  );
+}
+
+export async function createBalanceAdjustment(
+  input: BalanceAdjustmentInput,
+  options: WriteOptions = {}
+): Promise<BalanceEntry> {
+  const db = await getDb();
+  const collection = db.collection<BalanceEntry>("balance_entries");
+
+  const entry: Omit<BalanceEntry, "_id"> = {
+    customerId: new ObjectId(input.customerId),
+    kind: "adjustment",
+    currency: input.currency,
+    amount: roundMoney(input.amount, input.currency),
+    entryDate: input.entryDate,
+    note: input.note?.trim() || undefined,
+    createdAt: new Date(),
+  };
+
+  const result = await collection.insertOne(entry as BalanceEntry, {
+    session: options.session,
+  });
+  const created = { _id: result.insertedId, ...entry } as BalanceEntry;
+
+  await recordAuditEvent(
+    {
+      action: "balance.adjust",
+      entityType: "balance",
+      entityId: created._id,
+      customerId: created.customerId,
+      before: null,
+      after: created,
+    },
+    options
+  );
+
+  return created;
+}
+
+export async function listBalanceEntriesForCustomer(
+  customerId: string
+): Promise<BalanceEntry[]> {
+  if (!ObjectId.isValid(customerId)) {
+    return [];
+  }
+
+  const db = await getDb();
+  const collection = db.collection<BalanceEntry>("balance_entries");
+
+  return collection
+    .aggregate<BalanceEntry>([
+      { $match: { customerId: new ObjectId(customerId) } },
+      ...ACTIVE_PAYMENT_STAGES,
+      { $sort: { entryDate: -1, createdAt: -1 } },
+    ])
+    .toArray();
+}
+
+export function sumBalances(entries: BalanceEntry[]): CurrencyBalances {
+  const balances: CurrencyBalances = {};
+  for (const entry of entries) {
+    balances[entry.currency] = roundMoney(
+      (balances[entry.currency] || 0) + entry.amount,
+      entry.currency
+    );
+  }
+  return balances;
+}
+
+export async function listOutstandingBalances(): Promise<
+  Map<string, CurrencyBalances>
+> {
+  const db = await getDb();
+  const collection = db.collection<BalanceEntry>("balance_entries");
+
+  const results = await collection
+    .aggregate<{
+      _id: { customerId: ObjectId; currency: Currency };
+      amount: number;
+    }>([
+      ...ACTIVE_PAYMENT_STAGES,
+      {
+        $lookup: {
+          from: "customers",
+          localField: "customerId",
+          foreignField: "_id",
+          as: "customer",
+        },
+      },
+      { $match: { "customer.deletedAt": { $exists: false } } },
+      {
+        $group: {
+          _id: { customerId: "$customerId", currency: "$currency" },
+          amount: { $sum: "$amount" },
+        },
+      },
+    ])
+    .toArray();
+
+  const map = new Map<string, CurrencyBalances>();
+  for (const result of results) {
+    const amount = roundMoney(result.amount, result._id.currency);
+    if (amount === 0) continue;
+
+    const key = result._id.customerId.toString();
+    const balances = map.get(key) || {};
+    balances[result._id.currency] = amount;
+    map.set(key, balances);
+  }
+
+  return map;
+}
@@ -0,0 +1,23 @@
+import { getDb } from "~/utils/db.server";
+import type { WriteOptions } from "~/models/audit.server";
+
+interface Counter {
+  _id: string;
+  seq: number;
+}
+
+export async function getNextSequence(
+  name: string,
+  options: WriteOptions = {}
+): Promise<number> {
+  const db = await getDb();
+  const collection = db.collection<Counter>("counters");
+
+  const counter = await collection.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { upsert: true, returnDocument: "after", session: options.session }
+  );
+
+  return counter!.seq;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+
+describe("buildCoverageTimeline", () => {
+  it("stacks a renewal paid before the previous coverage ended", () => {
+    const timeline = buildCoverageTimeline([
+      { paidDate: "2024-01-01", months: 1 },
+      { paidDate: "2024-01-20", months: 1 },
+    ]);
+
+    expect(timeline.segments.map(({ start, end, stacked }) => ({ start, end, stacked }))).toEqual([
+      { start: "2024-01-01", end: "2024-02-01", stacked: false },
+      { start: "2024-02-01", end: "2024-03-01", stacked: true },
+    ]);
+    expect(timeline.gaps).toEqual([]);
+    expect(timeline.currentRunStart).toBe("2024-01-01");
+    expect(timeline.endDate).toBe("2024-03-01");
+  });
+
+  it("records a gap and starts a new run after a lapse", () => {
+    const timeline = buildCoverageTimeline([
+      { paidDate: "2024-01-01", months: 1 },
+      { paidDate: "2024-03-10", months: 1 },
+    ]);
+
+    expect(timeline.gaps).toEqual([{ start: "2024-02-01", end: "2024-03-10", days: 38 }]);
+    expect(timeline.startDate).toBe("2024-01-01");
+    expect(timeline.currentRunStart).toBe("2024-03-10");
+    expect(timeline.endDate).toBe("2024-04-10");
+  });
+
+  it("does not depend on the order payments are passed in", () => {
+    const payments = [
+      { paidDate: "2024-03-10", months: 1 },
+      { paidDate: "2024-01-01", months: 1 },
+      { paidDate: "2024-01-20", months: 1 },
+    ];
+
+    expect(buildCoverageTimeline(payments)).toEqual(
+      buildCoverageTimeline([payments[1], payments[2], payments[0]])
+    );
+  });
+
+  it("fills a gap with a late-entered payment for an older period", () => {
+    const timeline = buildCoverageTimeline([
+      { paidDate: "2024-01-01", periodStart: "2024-01-01", months: 1 },
+      { paidDate: "2024-03-01", periodStart: "2024-03-01", months: 1 },
+      { paidDate: "2024-03-05", periodStart: "2024-02-01", months: 1 },
+    ]);
+
+    expect(timeline.gaps).toEqual([]);
+    expect(timeline.segments.map((segment) => segment.start)).toEqual([
+      "2024-01-01",
+      "2024-02-01",
+      "2024-03-01",
+    ]);
+    expect(timeline.currentRunStart).toBe("2024-01-01");
+  });
+
+  it("reports the days an explicit period overlaps earlier coverage", () => {
+    const timeline = buildCoverageTimeline([
+      { paidDate: "2024-01-01", periodStart: "2024-01-01", months: 1 },
+      { paidDate: "2024-01-04", periodStart: "2024-01-04", months: 1 },
+    ]);
+
+    expect(timeline.segments[1]).toMatchObject({
+      start: "2024-01-04",
+      end: "2024-02-04",
+      stacked: true,
+      overlapDays: 28,
+    });
+    expect(timeline.endDate).toBe("2024-02-04");
+  });
+
+  it("is empty without payments", () => {
+    const timeline = buildCoverageTimeline([]);
+
+    expect(timeline).toEqual({
+      segments: [],
+      gaps: [],
+      startDate: null,
+      currentRunStart: null,
+      endDate: null,
+    });
+    expect(getCurrentCoverage(timeline)).toBeNull();
+  });
+});
+
+describe("getCurrentCoverage", () => {
+  it("spans the current run of back-to-back payments", () => {
+    const timeline = buildCoverageTimeline([
+      { paidDate: "2023-06-01", months: 1 },
+      { paidDate: "2024-01-01", months: 2 },
+      { paidDate: "2024-02-15", months: 1 },
+    ]);
+
+    expect(getCurrentCoverage(timeline)).toEqual({
+      paidDate: "2024-01-01",
+      periodStart: "2024-01-01",
+      endDate: "2024-04-01",
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { addDaysDateOnly, addMonthsDateOnly, diffDaysDateOnly } from "~/utils/date";
+
+export interface CoverageInput {
+  paidDate: string;
+  periodStart?: string;
+  months: number;
+  coverageReducedDays?: number;
+}
+
+export interface CoverageSegment<T extends CoverageInput = CoverageInput> {
+  payment: T;
+  start: string;
+  end: string;
+  stacked: boolean;
+  overlapDays: number;
+}
+
+export interface CoverageGap {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface CoverageTimeline<T extends CoverageInput = CoverageInput> {
+  segments: CoverageSegment<T>[];
+  gaps: CoverageGap[];
+  startDate: string | null;
+  currentRunStart: string | null;
+  endDate: string | null;
+}
+
+export function getDefaultPeriodStart(
+  previousEndDate: string | null,
+  paidDate: string
+): string {
+  return previousEndDate && previousEndDate > paidDate ? previousEndDate : paidDate;
+}
+
+export function getCoverageEndDate(
+  periodStart: string,
+  months: number,
+  reducedDays: number = 0
+): string {
+  const end = addDaysDateOnly(addMonthsDateOnly(periodStart, months), -reducedDays);
+  return end > periodStart ? end : periodStart;
+}
+
+export function buildCoverageTimeline<T extends CoverageInput>(
+  payments: T[]
+): CoverageTimeline<T> {
+  // Ordered by period so a payment for an older period entered late fills its gap.
+  const sorted = [...payments].sort(
+    (a, b) =>
+      (a.periodStart ?? a.paidDate).localeCompare(b.periodStart ?? b.paidDate) ||
+      a.paidDate.localeCompare(b.paidDate)
+  );
+
+  const segments: CoverageSegment<T>[] = [];
+  const gaps: CoverageGap[] = [];
+  let currentRunStart: string | null = null;
+  let endDate: string | null = null;
+
+  for (const payment of sorted) {
+    const stacked = endDate !== null && payment.paidDate < endDate;
+    const start =
+      payment.periodStart ?? getDefaultPeriodStart(endDate, payment.paidDate);
+
+    if (endDate === null || start > endDate) {
+      if (endDate !== null) {
+        gaps.push({
+          start: endDate,
+          end: start,
+          days: diffDaysDateOnly(start, endDate),
+        });
+      }
+      currentRunStart = start;
+    }
+
+    const end = getCoverageEndDate(start, payment.months, payment.coverageReducedDays);
+    segments.push({
+      payment,
+      start,
+      end,
+      stacked,
+      overlapDays:
+        endDate !== null && start < endDate
+          ? diffDaysDateOnly(end < endDate ? end : endDate, start)
+          : 0,
+    });
+    if (endDate === null || end > endDate) {
+      endDate = end;
+    }
+  }
+
+  return {
+    segments,
+    gaps,
+    startDate: segments[0]?.start || null,
+    currentRunStart,
+    endDate,
+  };
+}
+
+export function getCurrentCoverage(
+  timeline: CoverageTimeline
+): { paidDate: string; periodStart: string; endDate: string } | null {
+  if (!timeline.currentRunStart || !timeline.endDate) {
+    return null;
+  }
+  return {
+    paidDate: timeline.currentRunStart,
+    periodStart: timeline.currentRunStart,
+    endDate: timeline.endDate,
+  };
+}
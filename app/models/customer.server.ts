@@ -1,22 +1,44 @@
-import { ObjectId } from "mongodb";
-import { getDb } from "~/utils/db.server";
+import { ObjectId, type Filter } from "mongodb";
+import { getDb, NOT_DELETED, withTransaction } from "~/utils/db.server";
 import { getTodayDateOnly } from "~/utils/date";
+import {
+  recordAuditEvent,
+  type AuditAction,
+  type WriteOptions,
+} from "~/models/audit.server";
+import {
+  createPayment,
+  serializePayment,
+  type Payment,
+  type PaymentInput,
+} from "~/models/payment.server";
+import type { Refund } from "~/models/refund.server";
+import type { BalanceEntry } from "~/models/balance.server";
+import { enqueueWebhookEvent } from "~/models/webhook.server";
+import {
+  getOpenPause,
+  type CustomerStatusOverrides,
+  type PausePeriod,
+} from "~/models/subscriptionStatus";
 
 export interface NameHistoryEntry {
   name: string;
   changedAt: string;
 }
 
-export interface Customer {
+export interface Customer extends CustomerStatusOverrides {
   _id: ObjectId;
   displayName: string;
   nameHistory?: NameHistoryEntry[];
   note?: string;
+  email?: string;
   isPublicHidden?: boolean;
   hiddenAt?: Date;
   hiddenReason?: string;
   renewalCancelled?: boolean;
   cancelledAt?: string;
+  pausePeriods?: PausePeriod[];
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -24,9 +46,30 @@ export interface Customer {
 export interface CustomerInput {
   displayName: string;
   note?: string;
+  email?: string;
 }
 
-export async function createCustomer(input: CustomerInput): Promise<Customer> {
+// The public shape of a customer, shared by the API and webhook payloads.
+export function serializeCustomerRecord(customer: Customer) {
+  return {
+    id: customer._id.toString(),
+    displayName: customer.displayName,
+    note: customer.note ?? null,
+    email: customer.email ?? null,
+    isPublicHidden: customer.isPublicHidden || false,
+    hiddenReason: customer.hiddenReason ?? null,
+    renewalCancelled: customer.renewalCancelled || false,
+    cancelledAt: customer.cancelledAt ?? null,
+    comped: customer.comped || false,
+    createdAt: customer.createdAt.toISOString(),
+    updatedAt: customer.updatedAt.toISOString(),
+  };
+}
+
+export async function createCustomer(
+  input: CustomerInput,
+  options: WriteOptions = {}
+): Promise<Customer> {
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
@@ -34,16 +77,37 @@ export async function createCustomer(input: CustomerInput): Promise<Customer> {
   const customer: Omit<Customer, "_id"> = {
     displayName: input.displayName.trim(),
     note: input.note?.trim() || undefined,
+    email: input.email?.trim().toLowerCase() || undefined,
     createdAt: now,
     updatedAt: now,
   };
 
-  const result = await collection.insertOne(customer as Customer);
-
-  return {
+  const result = await collection.insertOne(customer as Customer, {
+    session: options.session,
+  });
+  const created = {
     _id: result.insertedId,
     ...customer,
   } as Customer;
+
+  await recordAuditEvent(
+    {
+      action: "customer.create",
+      entityType: "customer",
+      entityId: created._id,
+      customerId: created._id,
+      before: null,
+      after: created,
+    },
+    options
+  );
+  await enqueueWebhookEvent(
+    "customer.created",
+    { customer: serializeCustomerRecord(created) },
+    { ...options, customerId: created._id }
+  );
+
+  return created;
 }
 
 export async function listCustomers(
@@ -53,7 +117,7 @@ export async function listCustomers(
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
-  const filter: Record<string, unknown> = {};
+  const filter: Record<string, unknown> = { ...NOT_DELETED };
 
   if (options?.publicOnly) {
     filter.isPublicHidden = { $ne: true };
@@ -77,12 +141,13 @@ export async function getCustomerById(id: string): Promise<Customer | null> {
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
-  return collection.findOne({ _id: new ObjectId(id) });
+  return collection.findOne({ _id: new ObjectId(id), ...NOT_DELETED });
 }
 
 export async function updateCustomerNote(
   id: string,
-  note: string | undefined
+  note: string | undefined,
+  options: WriteOptions = {}
 ): Promise<Customer | null> {
   if (!ObjectId.isValid(id)) {
     return null;
@@ -91,6 +156,14 @@ export async function updateCustomerNote(
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before) {
+    return null;
+  }
+
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
     {
@@ -99,30 +172,35 @@ export async function updateCustomerNote(
         updatedAt: new Date(),
       },
     },
-    { returnDocument: "after" }
+    { returnDocument: "after", session: options.session }
   );
 
+  if (result) {
+    await recordCustomerChange("customer.update", before, result, options);
+  }
+
   return result;
 }
 
 export async function countCustomers(): Promise<number> {
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
-  return collection.countDocuments();
+  return collection.countDocuments(NOT_DELETED);
 }
 
 export async function customerExistsByDisplayName(name: string): Promise<boolean> {
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
   const count = await collection.countDocuments({
-    displayName: { $regex: `^${name.trim()}$`, $options: "i" },
+    displayName: { $regex: `^${escapeRegex(name.trim())}$`, $options: "i" },
   });
   return count > 0;
 }
 
 export async function hideCustomerFromPublic(
   id: string,
-  reason?: string
+  reason?: string,
+  options: WriteOptions = {}
 ): Promise<Customer | null> {
   if (!ObjectId.isValid(id)) {
     return null;
@@ -131,6 +209,14 @@ export async function hideCustomerFromPublic(
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before) {
+    return null;
+  }
+
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
     {
@@ -141,13 +227,27 @@ export async function hideCustomerFromPublic(
         updatedAt: new Date(),
       },
     },
-    { returnDocument: "after" }
+    { returnDocument: "after", session: options.session }
   );
 
+  if (result) {
+    await recordCustomerChange("customer.hide", before, result, options);
+    if (!before.isPublicHidden) {
+      await enqueueWebhookEvent(
+        "customer.hidden",
+        { customer: serializeCustomerRecord(result) },
+        { ...options, customerId: result._id }
+      );
+    }
+  }
+
   return result;
 }
 
-export async function unhideCustomer(id: string): Promise<Customer | null> {
+export async function unhideCustomer(
+  id: string,
+  options: WriteOptions = {}
+): Promise<Customer | null> {
   if (!ObjectId.isValid(id)) {
     return null;
   }
@@ -155,6 +255,14 @@ export async function unhideCustomer(id: string): Promise<Customer | null> {
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before) {
+    return null;
+  }
+
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
     {
@@ -167,15 +275,20 @@ export async function unhideCustomer(id: string): Promise<Customer | null> {
         hiddenReason: "",
       },
     },
-    { returnDocument: "after" }
+    { returnDocument: "after", session: options.session }
   );
 
+  if (result) {
+    await recordCustomerChange("customer.unhide", before, result, options);
+  }
+
   return result;
 }
 
 export async function setRenewalCancelled(
   id: string,
-  cancelled: boolean
+  cancelled: boolean,
+  options: WriteOptions = {}
 ): Promise<Customer | null> {
   if (!ObjectId.isValid(id)) {
     return null;
@@ -184,6 +297,14 @@ export async function setRenewalCancelled(
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before) {
+    return null;
+  }
+
   const update: Record<string, unknown> = {
     $set: {
       renewalCancelled: cancelled,
@@ -200,13 +321,117 @@ export async function setRenewalCancelled(
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
     update,
-    { returnDocument: "after" }
+    { returnDocument: "after", session: options.session }
+  );
+
+  if (result) {
+    await recordCustomerChange(
+      cancelled ? "customer.cancelRenewal" : "customer.resumeRenewal",
+      before,
+      result,
+      options
+    );
+    if (cancelled && !before.renewalCancelled) {
+      await enqueueWebhookEvent(
+        "renewal.cancelled",
+        { customer: serializeCustomerRecord(result) },
+        { ...options, customerId: result._id }
+      );
+    }
+  }
+
+  return result;
+}
+
+export async function pauseCustomer(
+  id: string,
+  startDate: string,
+  options: WriteOptions = {}
+): Promise<Customer | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Customer>("customers");
+
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before || getOpenPause(before.pausePeriods)) {
+    return null;
+  }
+
+  // Pauses must not overlap, or the paused days would be counted twice.
+  const overlapsEarlierPause = (before.pausePeriods || []).some(
+    (p) => p.endDate && startDate <= p.endDate
+  );
+  if (overlapsEarlierPause) {
+    return null;
+  }
+
+  const period: PausePeriod = { startDate };
+  const result = await collection.findOneAndUpdate(
+    { _id: before._id },
+    {
+      $push: { pausePeriods: period },
+      $set: { updatedAt: new Date() },
+    },
+    { returnDocument: "after", session: options.session }
   );
 
+  if (result) {
+    await recordCustomerChange("customer.pause", before, result, options);
+  }
+
   return result;
 }
 
-export async function deleteCustomer(id: string): Promise<boolean> {
+export async function resumeCustomer(
+  id: string,
+  resumeDate: string,
+  options: WriteOptions = {}
+): Promise<Customer | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Customer>("customers");
+
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  const openPause = getOpenPause(before?.pausePeriods);
+  if (!before || !openPause) {
+    return null;
+  }
+
+  const endDate = resumeDate > openPause.startDate ? resumeDate : openPause.startDate;
+  const result = await collection.findOneAndUpdate(
+    {
+      _id: before._id,
+      pausePeriods: { $elemMatch: { endDate: { $exists: false } } },
+    },
+    {
+      $set: { "pausePeriods.$.endDate": endDate, updatedAt: new Date() },
+    },
+    { returnDocument: "after", session: options.session }
+  );
+
+  if (result) {
+    await recordCustomerChange("customer.resume", before, result, options);
+  }
+
+  return result;
+}
+
+export async function deleteCustomer(
+  id: string,
+  options: WriteOptions = {}
+): Promise<boolean> {
   if (!ObjectId.isValid(id)) {
     return false;
   }
@@ -214,13 +439,29 @@ export async function deleteCustomer(id: string): Promise<boolean> {
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
-  const result = await collection.deleteOne({ _id: new ObjectId(id) });
-  return result.deletedCount === 1;
+  const before = await collection.findOneAndDelete(
+    { _id: new ObjectId(id) },
+    { session: options.session }
+  );
+  if (!before) {
+    return false;
+  }
+
+  await recordCustomerChange("customer.delete", before, null, options);
+  return true;
 }
 
+const STATUS_OVERRIDE_FIELDS = [
+  "customGraceDays",
+  "comped",
+  "pinnedStatus",
+  "pinnedStatusUntil",
+] as const satisfies ReadonlyArray<keyof CustomerStatusOverrides>;
+
 export async function updateCustomer(
   id: string,
-  input: { displayName: string; note?: string }
+  input: { displayName: string; note?: string; email?: string } & CustomerStatusOverrides,
+  options: WriteOptions = {}
 ): Promise<Customer | null> {
   if (!ObjectId.isValid(id)) {
     return null;
@@ -229,7 +470,10 @@ export async function updateCustomer(
   const db = await getDb();
   const collection = db.collection<Customer>("customers");
 
-  const current = await collection.findOne({ _id: new ObjectId(id) });
+  const current = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
   if (!current) {
     return null;
   }
@@ -254,6 +498,25 @@ export async function updateCustomer(
     }
   }
 
+  if (Object.prototype.hasOwnProperty.call(input, "email")) {
+    const nextEmail = input.email?.trim().toLowerCase() || "";
+    if (nextEmail) {
+      setOps.email = nextEmail;
+    } else {
+      unsetOps.email = "";
+    }
+  }
+
+  for (const field of STATUS_OVERRIDE_FIELDS) {
+    if (!Object.prototype.hasOwnProperty.call(input, field)) continue;
+    const value = input[field];
+    if (value === undefined || value === false || value === "") {
+      unsetOps[field] = "";
+    } else {
+      setOps[field] = value;
+    }
+  }
+
   const updateDoc: Record<string, unknown> = { $set: setOps };
   if (Object.keys(unsetOps).length > 0) {
     updateDoc.$unset = unsetOps;
@@ -270,34 +533,302 @@ export async function updateCustomer(
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
     updateDoc,
-    { returnDocument: "after" }
+    { returnDocument: "after", session: options.session }
   );
 
+  if (result) {
+    await recordCustomerChange("customer.update", current, result, options);
+  }
+
   return result;
 }
 
-export async function cancelRenewal(id: string): Promise<Customer | null> {
-  return setRenewalCancelled(id, true);
+export async function cancelRenewal(
+  id: string,
+  options: WriteOptions = {}
+): Promise<Customer | null> {
+  return setRenewalCancelled(id, true, options);
 }
 
-export async function resumeRenewal(id: string): Promise<Customer | null> {
-  return setRenewalCancelled(id, false);
+export async function resumeRenewal(
+  id: string,
+  options: WriteOptions = {}
+): Promise<Customer | null> {
+  return setRenewalCancelled(id, false, options);
 }
 
-export async function deleteCustomerWithPayments(customerId: string): Promise<boolean> {
+export async function createCustomerWithInitialPayment(
+  customerInput: CustomerInput,
+  paymentInput: Omit<PaymentInput, "customerId">,
+  options: WriteOptions = {}
+): Promise<{ customer: Customer; payment: Payment }> {
+  return withTransaction(async (session) => {
+    const writeOptions = { ...options, session };
+    const customer = await createCustomer(customerInput, writeOptions);
+
+    try {
+      const payment = await createPayment(
+        { ...paymentInput, customerId: customer._id.toString() },
+        writeOptions
+      );
+      return { customer, payment };
+    } catch (error) {
+      if (!session) {
+        await deleteCustomer(customer._id.toString(), writeOptions).catch(
+          (rollbackError) => {
+            console.error("Failed to rollback customer creation:", rollbackError);
+          }
+        );
+      }
+      throw error;
+    }
+  });
+}
+
+export async function deleteCustomerWithPayments(
+  customerId: string,
+  options: WriteOptions = {}
+): Promise<boolean> {
   if (!ObjectId.isValid(customerId)) {
     return false;
   }
 
-  const db = await getDb();
+  return runInTransaction(options, async (writeOptions) => {
+    const { session } = writeOptions;
+    const db = await getDb();
+    const customerObjectId = new ObjectId(customerId);
+    const customersCollection = db.collection<Customer>("customers");
+    const paymentsCollection = db.collection<Payment>("payments");
+
+    const before = await customersCollection.findOne(
+      { _id: customerObjectId, ...NOT_DELETED },
+      { session }
+    );
+    if (!before) {
+      return false;
+    }
 
-  await db.collection("payments").deleteMany({
-    customerId: new ObjectId(customerId),
+    const deletedAt = new Date();
+
+    const payments = await paymentsCollection
+      .find({ customerId: customerObjectId, ...NOT_DELETED }, { session })
+      .toArray();
+
+    await paymentsCollection.updateMany(
+      { customerId: customerObjectId, ...NOT_DELETED },
+      { $set: { deletedAt, deletedWithCustomer: true } },
+      { session }
+    );
+
+    for (const payment of payments) {
+      await recordAuditEvent(
+        {
+          action: "payment.delete",
+          entityType: "payment",
+          entityId: payment._id,
+          customerId: customerObjectId,
+          before: payment,
+          after: { ...payment, deletedAt, deletedWithCustomer: true },
+        },
+        writeOptions
+      );
+      await enqueueWebhookEvent(
+        "payment.deleted",
+        { payment: serializePayment(payment) },
+        { ...writeOptions, customerId: customerObjectId }
+      );
+    }
+
+    const after = await customersCollection.findOneAndUpdate(
+      { _id: customerObjectId },
+      { $set: { deletedAt } },
+      { returnDocument: "after", session }
+    );
+
+    await recordCustomerChange("customer.delete", before, after, writeOptions);
+    return true;
   });
+}
+
+export async function listTrashedCustomers(): Promise<Customer[]> {
+  const db = await getDb();
+  const collection = db.collection<Customer>("customers");
+
+  return collection
+    .find({ deletedAt: { $exists: true } })
+    .sort({ deletedAt: -1 })
+    .toArray();
+}
 
-  const result = await db.collection<Customer>("customers").deleteOne({
-    _id: new ObjectId(customerId),
+export async function restoreCustomer(
+  customerId: string,
+  options: WriteOptions = {}
+): Promise<Customer | null> {
+  if (!ObjectId.isValid(customerId)) {
+    return null;
+  }
+
+  return runInTransaction(options, async (writeOptions) => {
+    const { session } = writeOptions;
+    const db = await getDb();
+    const customerObjectId = new ObjectId(customerId);
+    const customersCollection = db.collection<Customer>("customers");
+    const paymentsCollection = db.collection<Payment>("payments");
+
+    const before = await customersCollection.findOne(
+      { _id: customerObjectId, deletedAt: { $exists: true } },
+      { session }
+    );
+    if (!before) {
+      return null;
+    }
+
+    const payments = await paymentsCollection
+      .find({ customerId: customerObjectId, deletedWithCustomer: true }, { session })
+      .toArray();
+
+    await paymentsCollection.updateMany(
+      { customerId: customerObjectId, deletedWithCustomer: true },
+      { $unset: { deletedAt: "", deletedWithCustomer: "" } },
+      { session }
+    );
+
+    for (const payment of payments) {
+      const { deletedAt: _deletedAt, deletedWithCustomer: _withCustomer, ...restored } = payment;
+      await recordAuditEvent(
+        {
+          action: "payment.restore",
+          entityType: "payment",
+          entityId: payment._id,
+          customerId: customerObjectId,
+          before: payment,
+          after: restored,
+        },
+        writeOptions
+      );
+      await enqueueWebhookEvent(
+        "payment.restored",
+        { payment: serializePayment(restored) },
+        { ...writeOptions, customerId: customerObjectId }
+      );
+    }
+
+    const after = await customersCollection.findOneAndUpdate(
+      { _id: customerObjectId },
+      { $unset: { deletedAt: "" }, $set: { updatedAt: new Date() } },
+      { returnDocument: "after", session }
+    );
+
+    await recordCustomerChange("customer.restore", before, after, writeOptions);
+    return after;
   });
+}
 
-  return result.deletedCount === 1;
+export async function purgeCustomer(
+  customerId: string,
+  options: WriteOptions = {}
+): Promise<boolean> {
+  if (!ObjectId.isValid(customerId)) {
+    return false;
+  }
+
+  return runInTransaction(options, (writeOptions) =>
+    removeCustomerWithPayments(
+      { _id: new ObjectId(customerId), deletedAt: { $exists: true } },
+      writeOptions
+    )
+  );
+}
+
+// Removes a customer that never really existed, such as one from a failed import, without
+// going through the trash.
+export async function discardCustomer(
+  customerId: ObjectId,
+  options: WriteOptions = {}
+): Promise<boolean> {
+  return runInTransaction(options, (writeOptions) =>
+    removeCustomerWithPayments({ _id: customerId }, writeOptions)
+  );
+}
+
+async function removeCustomerWithPayments(
+  filter: Filter<Customer>,
+  writeOptions: WriteOptions
+): Promise<boolean> {
+  const { session } = writeOptions;
+  const db = await getDb();
+  const paymentsCollection = db.collection<Payment>("payments");
+
+  const before = await db.collection<Customer>("customers").findOneAndDelete(filter, { session });
+  if (!before) {
+    return false;
+  }
+
+  const customerObjectId = before._id;
+  const payments = await paymentsCollection
+    .find({ customerId: customerObjectId }, { session })
+    .toArray();
+
+  await paymentsCollection.deleteMany({ customerId: customerObjectId }, { session });
+  await db
+    .collection<Refund>("refunds")
+    .deleteMany({ customerId: customerObjectId }, { session });
+  await db
+    .collection<BalanceEntry>("balance_entries")
+    .deleteMany({ customerId: customerObjectId }, { session });
+
+  for (const payment of payments) {
+    await recordAuditEvent(
+      {
+        action: "payment.purge",
+        entityType: "payment",
+        entityId: payment._id,
+        customerId: customerObjectId,
+        before: payment,
+        after: null,
+      },
+      writeOptions
+    );
+  }
+
+  await recordCustomerChange("customer.purge", before, null, writeOptions);
+  return true;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function runInTransaction<T>(
+  options: WriteOptions,
+  work: (writeOptions: WriteOptions) => Promise<T>
+): Promise<T> {
+  if (options.session) {
+    return work(options);
+  }
+  return withTransaction((session) => work({ ...options, session }));
+}
+
+async function recordCustomerChange(
+  action: AuditAction,
+  before: Customer | null,
+  after: Customer | null,
+  options: WriteOptions
+): Promise<void> {
+  const customer = after || before;
+  if (!customer) {
+    return;
+  }
+
+  await recordAuditEvent(
+    {
+      action,
+      entityType: "customer",
+      entityId: customer._id,
+      customerId: customer._id,
+      before,
+      after,
+    },
+    options
+  );
 }
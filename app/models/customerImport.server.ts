@@ -0,0 +1,297 @@
+import type { ObjectId } from "mongodb";
+import { withTransaction } from "~/utils/db.server";
+import { parseCsv, unescapeCsvFormula } from "~/utils/csv.server";
+import { isCurrency, type Currency } from "~/utils/currency";
+import { compareDateOnly } from "~/utils/date";
+import {
+  validateAmount,
+  validateDateOnly,
+  validateDisplayName,
+  validateEmail,
+  validateMonths,
+} from "~/utils/validation";
+import type { WriteOptions } from "~/models/audit.server";
+import {
+  createCustomer,
+  customerExistsByDisplayName,
+  discardCustomer,
+  type Customer,
+} from "~/models/customer.server";
+import { createPayment, type PaymentInput } from "~/models/payment.server";
+import { listPlans } from "~/models/plan.server";
+import { deletePendingWebhookDeliveries } from "~/models/webhook.server";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+type ImportField =
+  | "displayName"
+  | "note"
+  | "email"
+  | "paidDate"
+  | "periodStart"
+  | "currency"
+  | "amount"
+  | "months"
+  | "plan"
+  | "paymentNote";
+
+// Accepts the column names of the payments/customers CSV exports as well as the
+// Vietnamese headings of the old spreadsheet.
+const HEADER_ALIASES: Record<string, ImportField> = {
+  displayname: "displayName",
+  customername: "displayName",
+  name: "displayName",
+  "tên": "displayName",
+  note: "note",
+  "ghi chú": "note",
+  email: "email",
+  "e-mail": "email",
+  paiddate: "paidDate",
+  "ngày thanh toán": "paidDate",
+  periodstart: "periodStart",
+  "ngày bắt đầu": "periodStart",
+  currency: "currency",
+  "tiền tệ": "currency",
+  amount: "amount",
+  "số tiền": "amount",
+  months: "months",
+  "số tháng": "months",
+  plan: "plan",
+  planname: "plan",
+  "gói": "plan",
+  paymentnote: "paymentNote",
+  "ghi chú thanh toán": "paymentNote",
+};
+
+export interface ImportRow {
+  line: number;
+  displayName: string;
+  note: string;
+  email: string;
+  payment: Omit<PaymentInput, "customerId"> | null;
+  planName: string | null;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  errors: string[];
+  customerCount: number;
+  paymentCount: number;
+}
+
+export interface ImportReport {
+  customers: { id: string; displayName: string; paymentCount: number }[];
+  paymentCount: number;
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().toLocaleLowerCase("vi").replace(/_/g, "").replace(/\s+/g, " ");
+}
+
+function toNameKey(displayName: string): string {
+  return displayName.toLocaleLowerCase("vi");
+}
+
+export async function previewCustomerImport(text: string): Promise<ImportPreview> {
+  const [header, ...records] = parseCsv(text);
+  const preview: ImportPreview = { rows: [], errors: [], customerCount: 0, paymentCount: 0 };
+
+  if (!header) {
+    preview.errors.push("Tệp CSV trống");
+    return preview;
+  }
+
+  const columns = header.map((name) => HEADER_ALIASES[normalizeHeader(name)]);
+  if (!columns.includes("displayName")) {
+    preview.errors.push("Thiếu cột tên thành viên (displayName)");
+    return preview;
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    preview.errors.push(`Tối đa ${MAX_IMPORT_ROWS} dòng mỗi lần nhập`);
+    return preview;
+  }
+
+  const plans = await listPlans();
+  const firstRowByName = new Map<string, ImportRow>();
+
+  for (const [index, record] of records.entries()) {
+    const values: Partial<Record<ImportField, string>> = {};
+    columns.forEach((field, column) => {
+      if (field && !values[field]) {
+        values[field] = unescapeCsvFormula((record[column] || "").trim());
+      }
+    });
+
+    const row: ImportRow = {
+      line: index + 2,
+      displayName: values.displayName || "",
+      note: values.note || "",
+      email: values.email || "",
+      payment: null,
+      planName: null,
+      errors: [],
+    };
+
+    const nameError = validateDisplayName(row.displayName);
+    if (nameError) {
+      row.errors.push(nameError);
+    } else {
+      const first = firstRowByName.get(toNameKey(row.displayName));
+      if (!first) {
+        firstRowByName.set(toNameKey(row.displayName), row);
+        if (await customerExistsByDisplayName(row.displayName)) {
+          row.errors.push("Đã có thành viên với tên này");
+        }
+      } else if (first.displayName !== row.displayName) {
+        row.errors.push(`Tên trùng với dòng ${first.line} nhưng khác chữ hoa/thường`);
+      } else if (first.errors.length > 0) {
+        row.errors.push(`Dòng ${first.line} của thành viên này có lỗi`);
+      }
+    }
+
+    const emailError = validateEmail(row.email);
+    if (emailError) {
+      row.errors.push(emailError);
+    }
+
+    const hasPayment = Boolean(
+      values.paidDate || values.amount || values.months || values.plan
+    );
+    if (hasPayment) {
+      const currencyStr = (values.currency || "VND").toUpperCase();
+      const currency: Currency = isCurrency(currencyStr) ? currencyStr : "VND";
+      if (!isCurrency(currencyStr)) {
+        row.errors.push(`Tiền tệ không hợp lệ "${values.currency}"`);
+      }
+
+      const amountStr = values.amount || "";
+      const monthsStr = values.months || "";
+      const paidDate = values.paidDate || "";
+      const periodStart = values.periodStart || "";
+      for (const error of [
+        validateAmount(amountStr, currency),
+        validateMonths(monthsStr),
+        validateDateOnly(paidDate),
+        validateDateOnly(periodStart, { required: false }),
+      ]) {
+        if (error) {
+          row.errors.push(error);
+        }
+      }
+
+      let planId: string | undefined;
+      if (values.plan) {
+        const planKey = values.plan.toLocaleLowerCase("vi");
+        const plan = plans.find(
+          (p) => p._id.toString() === values.plan || p.name.toLocaleLowerCase("vi") === planKey
+        );
+        if (plan) {
+          planId = plan._id.toString();
+          row.planName = plan.name;
+        } else {
+          row.errors.push(`Không tìm thấy gói "${values.plan}"`);
+        }
+      }
+
+      row.payment = {
+        paidDate,
+        periodStart: periodStart || undefined,
+        currency,
+        amount: parseFloat(amountStr),
+        months: parseInt(monthsStr, 10),
+        planId,
+        note: values.paymentNote || undefined,
+      };
+    }
+
+    preview.rows.push(row);
+  }
+
+  if (preview.rows.length === 0) {
+    preview.errors.push("Không có dòng dữ liệu nào");
+  }
+  preview.customerCount = firstRowByName.size;
+  preview.paymentCount = preview.rows.filter((row) => row.payment).length;
+
+  return preview;
+}
+
+export function hasImportErrors(preview: ImportPreview): boolean {
+  return preview.errors.length > 0 || preview.rows.some((row) => row.errors.length > 0);
+}
+
+// Without transactions a failed import is undone by hand. The customers never really
+// existed, so they are removed outright instead of going to the trash; otherwise their
+// names would block a retry. The removal is recorded as purge events in the audit log, and
+// webhooks announcing them are dropped before they go out.
+async function discardImportedCustomers(
+  customerIds: ObjectId[],
+  options: WriteOptions
+): Promise<void> {
+  for (const customerId of customerIds) {
+    await discardCustomer(customerId, options);
+  }
+  await deletePendingWebhookDeliveries(customerIds);
+}
+
+export async function commitCustomerImport(
+  preview: ImportPreview,
+  options: WriteOptions = {}
+): Promise<ImportReport> {
+  const groups = new Map<string, ImportRow[]>();
+  for (const row of preview.rows) {
+    const key = toNameKey(row.displayName);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  return withTransaction(async (session) => {
+    const writeOptions = { ...options, session };
+    const created: Customer[] = [];
+    const report: ImportReport = { customers: [], paymentCount: 0 };
+
+    try {
+      for (const rows of groups.values()) {
+        const customer = await createCustomer(
+          {
+            displayName: rows[0].displayName,
+            note: rows.find((row) => row.note)?.note,
+            email: rows.find((row) => row.email)?.email,
+          },
+          writeOptions
+        );
+        created.push(customer);
+
+        // Oldest first so each payment stacks on the coverage of the previous one.
+        const payments = rows
+          .flatMap((row) => (row.payment ? [row.payment] : []))
+          .sort((a, b) => compareDateOnly(a.paidDate, b.paidDate));
+        for (const payment of payments) {
+          await createPayment(
+            { ...payment, customerId: customer._id.toString() },
+            writeOptions
+          );
+        }
+
+        report.customers.push({
+          id: customer._id.toString(),
+          displayName: customer.displayName,
+          paymentCount: payments.length,
+        });
+        report.paymentCount += payments.length;
+      }
+    } catch (error) {
+      if (!session) {
+        await discardImportedCustomers(
+          created.map((customer) => customer._id),
+          options
+        ).catch((rollbackError) => {
+          console.error("Failed to rollback customer import:", rollbackError);
+        });
+      }
+      throw error;
+    }
+
+    return report;
+  });
+}
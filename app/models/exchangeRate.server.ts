@@ -0,0 +1,154 @@
+import { ObjectId, type ClientSession } from "mongodb";
+import { getDb } from "~/utils/db.server";
+import { isValidDateOnly } from "~/utils/date";
+import { CURRENCY_CODES, type Currency } from "~/utils/currency";
+
+export type ForeignCurrency = Exclude<Currency, "VND">;
+
+export const FOREIGN_CURRENCIES = CURRENCY_CODES.filter(
+  (code): code is ForeignCurrency => code !== "VND"
+);
+
+export interface ExchangeRate {
+  _id: ObjectId;
+  currency: ForeignCurrency;
+  effectiveDate: string;
+  rateToVnd: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ExchangeRateInput {
+  currency: ForeignCurrency;
+  effectiveDate: string;
+  rateToVnd: number;
+}
+
+export type ExchangeRateTable = Map<
+  ForeignCurrency,
+  Array<{ effectiveDate: string; rateToVnd: number }>
+>;
+
+export function isForeignCurrency(value: unknown): value is ForeignCurrency {
+  return (
+    typeof value === "string" &&
+    (FOREIGN_CURRENCIES as readonly string[]).includes(value)
+  );
+}
+
+export async function listExchangeRates(): Promise<ExchangeRate[]> {
+  const db = await getDb();
+  const collection = db.collection<ExchangeRate>("exchange_rates");
+
+  return collection
+    .find({})
+    .sort({ currency: 1, effectiveDate: -1 })
+    .toArray();
+}
+
+export async function upsertExchangeRate(input: ExchangeRateInput): Promise<void> {
+  const db = await getDb();
+  const collection = db.collection<ExchangeRate>("exchange_rates");
+
+  const now = new Date();
+  await collection.updateOne(
+    { currency: input.currency, effectiveDate: input.effectiveDate },
+    {
+      $set: { rateToVnd: input.rateToVnd, updatedAt: now },
+      $setOnInsert: { createdAt: now },
+    },
+    { upsert: true }
+  );
+}
+
+export async function deleteExchangeRate(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<ExchangeRate>("exchange_rates");
+
+  const result = await collection.deleteOne({ _id: new ObjectId(id) });
+  return result.deletedCount > 0;
+}
+
+export async function getExchangeRateTable(
+  options: { session?: ClientSession } = {}
+): Promise<ExchangeRateTable> {
+  const db = await getDb();
+  const collection = db.collection<ExchangeRate>("exchange_rates");
+
+  const rates = await collection
+    .find({}, { session: options.session })
+    .sort({ effectiveDate: 1 })
+    .toArray();
+
+  const table: ExchangeRateTable = new Map();
+  for (const rate of rates) {
+    const entries = table.get(rate.currency) || [];
+    entries.push({ effectiveDate: rate.effectiveDate, rateToVnd: rate.rateToVnd });
+    table.set(rate.currency, entries);
+  }
+
+  return table;
+}
+
+// Only a rate effective on or before the date is used; payments made before the first
+// rate stay unconverted.
+export function findRateToVnd(
+  table: ExchangeRateTable,
+  currency: ForeignCurrency,
+  date: string
+): number | null {
+  let rate: number | null = null;
+  for (const entry of table.get(currency) || []) {
+    if (entry.effectiveDate > date) break;
+    rate = entry.rateToVnd;
+  }
+
+  return rate;
+}
+
+export function convertToVnd(
+  payment: { amount: number; currency: Currency; paidDate: string; vndRate?: number },
+  table: ExchangeRateTable
+): number | null {
+  if (payment.currency === "VND") {
+    return Math.round(payment.amount);
+  }
+
+  const rate = payment.vndRate || findRateToVnd(table, payment.currency, payment.paidDate);
+  return rate === null ? null : Math.round(payment.amount * rate);
+}
+
+export function parseExchangeRateImport(text: string): {
+  rates: ExchangeRateInput[];
+  errors: string[];
+} {
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    const parts = trimmed.split(/[,;\t]/).map((p) => p.trim());
+    const [currency, effectiveDate, rateStr] =
+      parts.length >= 3 ? parts : ["USD", parts[0], parts[1]];
+    const rateToVnd = parseFloat(rateStr);
+
+    if (!isForeignCurrency(currency)) {
+      errors.push(`Dòng ${index + 1}: tiền tệ không hợp lệ "${currency}"`);
+    } else if (!effectiveDate || !isValidDateOnly(effectiveDate)) {
+      errors.push(`Dòng ${index + 1}: ngày không hợp lệ (YYYY-MM-DD)`);
+    } else if (isNaN(rateToVnd) || rateToVnd <= 0) {
+      errors.push(`Dòng ${index + 1}: tỷ giá phải là số dương`);
+    } else {
+      rates.push({ currency, effectiveDate, rateToVnd });
+    }
+  });
+
+  return { rates, errors };
+}
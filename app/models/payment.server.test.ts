@@ -0,0 +1,185 @@
+import { ObjectId } from "mongodb";
+import { describe, expect, it, vi } from "vitest";
+import {
+  allocatePaymentToMonths,
+  computeDeferredRevenue,
+  computeRecognizedMonthlyTotals,
+  type Payment,
+} from "~/models/payment.server";
+import type { Refund } from "~/models/refund.server";
+
+vi.mock("~/utils/db.server", () => ({
+  getDb: vi.fn(),
+  NOT_DELETED: { deletedAt: { $exists: false } },
+}));
+
+function buildPayment(overrides: Partial<Payment> = {}): Payment {
+  return {
+    _id: new ObjectId(),
+    customerId: new ObjectId(),
+    paidDate: "2024-01-15",
+    currency: "USD",
+    amount: 100,
+    months: 3,
+    periodStart: "2024-01-15",
+    endDate: "2024-04-15",
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function buildRefund(payment: Payment, overrides: Partial<Refund> = {}): Refund {
+  return {
+    _id: new ObjectId(),
+    paymentId: payment._id,
+    customerId: payment.customerId,
+    currency: payment.currency,
+    amount: 0,
+    refundDate: payment.paidDate,
+    shortensCoverage: false,
+    coverageDays: 0,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+const yearlyPayment = buildPayment({
+  paidDate: "2024-01-10",
+  currency: "VND",
+  amount: 1_200_000,
+  months: 12,
+  periodStart: "2024-01-10",
+  endDate: "2025-01-10",
+});
+
+describe("allocatePaymentToMonths", () => {
+  it("splits the amount evenly and gives the remainder to the first months", () => {
+    expect(allocatePaymentToMonths(buildPayment())).toEqual([
+      { monthBucket: "2024-01", amount: 33.34, currency: "USD" },
+      { monthBucket: "2024-02", amount: 33.33, currency: "USD" },
+      { monthBucket: "2024-03", amount: 33.33, currency: "USD" },
+    ]);
+  });
+
+  it("never loses a minor unit", () => {
+    const allocations = allocatePaymentToMonths(
+      buildPayment({ currency: "VND", amount: 1_000_001, months: 12, endDate: "2025-01-15" })
+    );
+
+    expect(allocations).toHaveLength(12);
+    expect(allocations.reduce((sum, allocation) => sum + allocation.amount, 0)).toBe(1_000_001);
+  });
+
+  it("assigns days before the cycle start to the previous month", () => {
+    const allocations = allocatePaymentToMonths(
+      buildPayment({
+        paidDate: "2024-03-02",
+        months: 2,
+        periodStart: "2024-03-02",
+        endDate: "2024-05-02",
+      })
+    );
+
+    expect(allocations.map((allocation) => allocation.monthBucket)).toEqual([
+      "2024-02",
+      "2024-03",
+    ]);
+  });
+
+  it("allocates from the period start rather than the paid date", () => {
+    const allocations = allocatePaymentToMonths(
+      buildPayment({ paidDate: "2024-01-15", periodStart: "2024-03-15", endDate: "2024-06-15" })
+    );
+
+    expect(allocations.map((allocation) => allocation.monthBucket)).toEqual([
+      "2024-03",
+      "2024-04",
+      "2024-05",
+    ]);
+  });
+
+  it("falls back to the paid date for payments stored without a period start", () => {
+    const legacy: Partial<Payment> = buildPayment();
+    delete legacy.periodStart;
+
+    expect(
+      allocatePaymentToMonths(legacy as Payment).map((allocation) => allocation.monthBucket)
+    ).toEqual(["2024-01", "2024-02", "2024-03"]);
+  });
+
+  it("takes a refund out of the months from the refund on", () => {
+    const refund = buildRefund(yearlyPayment, { amount: 100_000, refundDate: "2024-03-15" });
+    const amounts = allocatePaymentToMonths(yearlyPayment, 6, [refund]).map(
+      (allocation) => allocation.amount
+    );
+
+    expect(amounts.slice(0, 2)).toEqual([100_000, 100_000]);
+    expect(amounts.slice(2)).toEqual(Array(10).fill(90_000));
+  });
+
+  it("ignores refunds of other payments", () => {
+    const other = buildPayment();
+    const refund = buildRefund(other, { amount: 10, refundDate: "2024-03-15" });
+
+    expect(allocatePaymentToMonths(yearlyPayment, 6, [refund])).toEqual(
+      allocatePaymentToMonths(yearlyPayment, 6)
+    );
+  });
+
+  it("earns the payment over the remaining months when coverage is shortened", () => {
+    const shortened = { ...yearlyPayment, coverageReducedDays: 184, endDate: "2024-07-10" };
+    const refund = buildRefund(shortened, {
+      amount: 600_000,
+      refundDate: "2024-03-15",
+      shortensCoverage: true,
+      coverageDays: 184,
+    });
+
+    expect(allocatePaymentToMonths(shortened, 6, [refund])).toEqual(
+      [
+        ["2024-01", 200_000],
+        ["2024-02", 200_000],
+        ["2024-03", 50_000],
+        ["2024-04", 50_000],
+        ["2024-05", 50_000],
+        ["2024-06", 50_000],
+      ].map(([monthBucket, amount]) => ({ monthBucket, amount, currency: "VND" }))
+    );
+  });
+
+  it("takes a refund made after the coverage ended in its own month", () => {
+    const refund = buildRefund(yearlyPayment, { amount: 50_000, refundDate: "2025-02-20" });
+    const allocations = allocatePaymentToMonths(yearlyPayment, 6, [refund]);
+
+    expect(allocations).toHaveLength(13);
+    expect(allocations[12]).toEqual({ monthBucket: "2025-02", amount: -50_000, currency: "VND" });
+  });
+});
+
+describe("recognized and deferred revenue", () => {
+  it("count each refund once so together they match the net cash received", () => {
+    const refund = buildRefund(yearlyPayment, { amount: 100_000, refundDate: "2024-03-15" });
+    const buckets = ["2024-01", "2024-02", "2024-03"];
+
+    const recognized = computeRecognizedMonthlyTotals([yearlyPayment], buckets, new Map(), 6, [
+      refund,
+    ]);
+    const deferred = computeDeferredRevenue([yearlyPayment], "2024-03-20", new Map(), 6, [refund]);
+
+    const recognizedToDate = buckets.reduce(
+      (sum, bucket) => sum + recognized.get(bucket)!.convertedVnd,
+      0
+    );
+    expect(recognizedToDate).toBe(290_000);
+    expect(deferred.convertedVnd).toBe(810_000);
+    expect(recognizedToDate + deferred.convertedVnd).toBe(1_100_000);
+  });
+
+  it("leaves refunds dated after the report date out of deferred revenue", () => {
+    const refund = buildRefund(yearlyPayment, { amount: 100_000, refundDate: "2024-06-15" });
+
+    expect(
+      computeDeferredRevenue([yearlyPayment], "2024-03-20", new Map(), 6, [refund]).convertedVnd
+    ).toBe(900_000);
+  });
+});
@@ -1,34 +1,53 @@
 import { ObjectId } from "mongodb";
-import { getDb } from "~/utils/db.server";
+import { getDb, NOT_DELETED } from "~/utils/db.server";
+import { recordAuditEvent, type WriteOptions } from "~/models/audit.server";
+import { getPlanById, getPlanSnapshot } from "~/models/plan.server";
+import { getNextSequence } from "~/models/counter.server";
 import {
+  convertToVnd,
+  findRateToVnd,
+  getExchangeRateTable,
+  type ExchangeRateTable,
+} from "~/models/exchangeRate.server";
+import {
+  DEFAULT_CYCLE_START_DAY,
   addMonthsDateOnly,
   getMonthBucket,
   getRevenueBucketRange,
 } from "~/utils/date";
+import { getCoverageEndDate, getDefaultPeriodStart } from "~/models/coverage";
+import type { Refund } from "~/models/refund.server";
+import { syncPaymentBalanceEntry, type BalanceEntry } from "~/models/balance.server";
+import { enqueueWebhookEvent } from "~/models/webhook.server";
+import {
+  fromMinorUnits,
+  roundMoney,
+  toMinorUnits,
+} from "~/utils/currency";
 import {
   DUE_SOON_DAYS,
   GRACE_DAYS,
-  BASE_PRICE_VND,
-  BASE_PRICE_USD,
   USD_TO_VND_RATE,
   type Currency,
   type SubscriptionStatus,
   type StatusInfo,
+  type StatusThresholds,
   computeStatus,
   calculateRecommendedMonths,
+  getPlanPricing,
 } from "~/models/subscriptionStatus";
 
 export {
   DUE_SOON_DAYS,
   GRACE_DAYS,
-  BASE_PRICE_VND,
-  BASE_PRICE_USD,
   USD_TO_VND_RATE,
   type Currency,
   type SubscriptionStatus,
   type StatusInfo,
+  type StatusThresholds,
   computeStatus,
   calculateRecommendedMonths,
+  getPlanPricing,
 };
 
 export interface Payment {
@@ -38,49 +57,120 @@ export interface Payment {
   currency: Currency;
   amount: number;
   months: number;
+  periodStart: string;
   endDate: string;
+  coverageReducedDays?: number;
+  receiptNumber?: number;
+  planId?: ObjectId;
+  planName?: string;
+  planPrice?: number;
+  planPeriodMonths?: number;
+  vndRate?: number;
   note?: string;
+  deletedAt?: Date;
+  deletedWithCustomer?: boolean;
   createdAt: Date;
 }
 
+// The public shape of a payment, shared by the API and webhook payloads.
+export function serializePayment(payment: Payment) {
+  return {
+    id: payment._id.toString(),
+    customerId: payment.customerId.toString(),
+    receiptNumber: payment.receiptNumber ?? null,
+    paidDate: payment.paidDate,
+    periodStart: payment.periodStart,
+    endDate: payment.endDate,
+    currency: payment.currency,
+    amount: payment.amount,
+    months: payment.months,
+    planId: payment.planId?.toString() ?? null,
+    planName: payment.planName ?? null,
+    vndRate: payment.vndRate ?? null,
+    note: payment.note ?? null,
+    createdAt: payment.createdAt.toISOString(),
+  };
+}
+
 export interface PaymentInput {
   customerId: string;
   paidDate: string;
   currency: Currency;
   amount: number;
   months: number;
+  periodStart?: string;
+  planId?: string;
   note?: string;
 }
 
-export async function createPayment(input: PaymentInput): Promise<Payment> {
+const RECEIPT_SEQUENCE = "receipt";
+
+export async function createPayment(
+  input: PaymentInput,
+  options: WriteOptions = {}
+): Promise<Payment> {
   const db = await getDb();
   const collection = db.collection<Payment>("payments");
 
-  const endDate = addMonthsDateOnly(input.paidDate, input.months);
+  const customerId = new ObjectId(input.customerId);
+  const periodStart =
+    input.periodStart ||
+    getDefaultPeriodStart(
+      await getPreviousEndDate(customerId, input.paidDate, null, options),
+      input.paidDate
+    );
+  const endDate = addMonthsDateOnly(periodStart, input.months);
 
-  const sanitizedAmount =
-    input.currency === "VND"
-      ? Math.round(input.amount)
-      : Math.round(input.amount * 100) / 100;
+  const sanitizedAmount = roundMoney(input.amount, input.currency);
+
+  const plan = input.planId
+    ? await getPlanById(input.planId, { session: options.session })
+    : null;
 
   const now = new Date();
   const payment: Omit<Payment, "_id"> = {
-    customerId: new ObjectId(input.customerId),
+    customerId,
     paidDate: input.paidDate,
     currency: input.currency,
     amount: sanitizedAmount,
     months: input.months,
+    periodStart,
     endDate,
+    ...(plan ? getPlanSnapshot(plan, input.currency) : {}),
+    vndRate: await getVndRateSnapshot(input.currency, input.paidDate, options),
+    receiptNumber: await getNextSequence(RECEIPT_SEQUENCE, options),
     note: input.note?.trim() || undefined,
     createdAt: now,
   };
 
-  const result = await collection.insertOne(payment as Payment);
-
-  return {
+  const result = await collection.insertOne(payment as Payment, {
+    session: options.session,
+  });
+  const created = {
     _id: result.insertedId,
     ...payment,
   } as Payment;
+
+  await syncPaymentBalanceEntry(created, options);
+
+  await recordAuditEvent(
+    {
+      action: "payment.create",
+      entityType: "payment",
+      entityId: created._id,
+      customerId: created.customerId,
+      before: null,
+      after: created,
+    },
+    options
+  );
+  await enqueueWebhookEvent(
+    "payment.created",
+    { payment: serializePayment(created) },
+    { ...options, customerId: created.customerId }
+  );
+
+  return created;
 }
 
 export async function listPaymentsForCustomer(
@@ -94,54 +184,26 @@ export async function listPaymentsForCustomer(
   const collection = db.collection<Payment>("payments");
 
   return collection
-    .find({ customerId: new ObjectId(customerId) })
+    .find({ customerId: new ObjectId(customerId), ...NOT_DELETED })
     .sort({ paidDate: -1 })
     .toArray();
 }
 
-export async function getLatestPaymentForCustomer(
-  customerId: string
-): Promise<Payment | null> {
-  if (!ObjectId.isValid(customerId)) {
-    return null;
-  }
-
+export async function listPaymentsByCustomer(): Promise<Map<string, Payment[]>> {
   const db = await getDb();
   const collection = db.collection<Payment>("payments");
 
-  return collection
-    .find({ customerId: new ObjectId(customerId) })
+  const payments = await collection
+    .find(NOT_DELETED)
     .sort({ paidDate: -1 })
-    .limit(1)
-    .next();
-}
-
-export async function listLatestPaymentsForAllCustomers(): Promise<
-  Map<string, Payment>
-> {
-  const db = await getDb();
-  const collection = db.collection<Payment>("payments");
-
-  const results = await collection
-    .aggregate<{
-      _id: ObjectId;
-      latestPayment: Payment;
-    }>([
-      {
-        $sort: { paidDate: -1 },
-      },
-      {
-        $group: {
-          _id: "$customerId",
-          latestPayment: { $first: "$$ROOT" },
-        },
-      },
-    ])
     .toArray();
 
-  const map = new Map<string, Payment>();
-  for (const result of results) {
-    map.set(result._id.toString(), result.latestPayment);
+  const map = new Map<string, Payment[]>();
+  for (const payment of payments) {
+    const key = payment.customerId.toString();
+    const list = map.get(key) || [];
+    list.push(payment);
+    map.set(key, list);
   }
 
   return map;
@@ -160,58 +222,168 @@ export async function listPaymentsForRevenueWindow(
         $gte: startDate,
         $lte: endDate,
       },
+      ...NOT_DELETED,
+    })
+    .toArray();
+}
+
+export async function listPaymentsCoveringWindow(
+  startDate: string,
+  endDate: string
+): Promise<Payment[]> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  return collection
+    .find({
+      periodStart: { $lte: endDate },
+      endDate: { $gt: startDate },
+      ...NOT_DELETED,
+    })
+    .toArray();
+}
+
+export async function listPaymentsByIds(ids: ObjectId[]): Promise<Payment[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  return collection.find({ _id: { $in: ids }, ...NOT_DELETED }).toArray();
+}
+
+// Payments already received whose coverage runs past the date, including prepaid ones
+// whose period has not started yet.
+export async function listPaymentsForDeferredRevenue(asOfDate: string): Promise<Payment[]> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  return collection
+    .find({
+      paidDate: { $lte: asOfDate },
+      endDate: { $gt: asOfDate },
+      ...NOT_DELETED,
     })
     .toArray();
 }
 
+export async function streamPaymentsByPaidDate(
+  range: { startDate?: string; endDate?: string } = {}
+): Promise<AsyncIterable<Payment>> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const paidDate: Record<string, string> = {};
+  if (range.startDate) paidDate.$gte = range.startDate;
+  if (range.endDate) paidDate.$lte = range.endDate;
+
+  return collection
+    .find({
+      ...(Object.keys(paidDate).length > 0 ? { paidDate } : {}),
+      ...NOT_DELETED,
+    })
+    .sort({ paidDate: 1, createdAt: 1 });
+}
+
+async function getPreviousEndDate(
+  customerId: ObjectId,
+  paidDate: string,
+  excludeId: ObjectId | null,
+  options: WriteOptions
+): Promise<string | null> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const previous = await collection
+    .find(
+      {
+        customerId,
+        paidDate: { $lte: paidDate },
+        ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+        ...NOT_DELETED,
+      },
+      { projection: { endDate: 1 }, session: options.session }
+    )
+    .sort({ endDate: -1 })
+    .limit(1)
+    .next();
+
+  return previous?.endDate || null;
+}
+
+export async function getEarliestPaidDate(): Promise<string | null> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const earliest = await collection
+    .find(NOT_DELETED, { projection: { paidDate: 1 } })
+    .sort({ paidDate: 1 })
+    .limit(1)
+    .next();
+
+  return earliest?.paidDate || null;
+}
+
 export interface MonthlyAllocation {
   monthBucket: string;
   amount: number;
   currency: Currency;
 }
 
+function splitMinorUnits(totalMinor: number, parts: number): number[] {
+  const baseMinor = Math.floor(totalMinor / parts);
+  const partsWithExtra = totalMinor - baseMinor * parts;
+  return Array.from({ length: parts }, (_, i) => baseMinor + (i < partsWithExtra ? 1 : 0));
+}
+
 export function allocatePaymentToMonths(
-  payment: Payment
+  payment: Payment,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY,
+  refunds: Refund[] = []
 ): MonthlyAllocation[] {
-  const allocations: MonthlyAllocation[] = [];
-  const { amount, months, currency, paidDate } = payment;
+  const { amount, months, currency } = payment;
 
-  const baseAmount = currency === "VND"
-    ? Math.floor(amount / months)
-    : Math.floor((amount / months) * 100) / 100;
-
-  const totalBase = currency === "VND"
-    ? baseAmount * months
-    : Math.round(baseAmount * months * 100) / 100;
+  // Payments stored before the period start existed begin on their paid date, as in the
+  // coverage timeline.
+  const periodStart = payment.periodStart ?? payment.paidDate;
+  const monthStarts: string[] = [];
+  for (let i = 0; i < months; i++) {
+    const monthStart = addMonthsDateOnly(periodStart, i);
+    // Coverage shortened by a refund earns the payment over the months that are left.
+    if (payment.coverageReducedDays && i > 0 && monthStart >= payment.endDate) break;
+    monthStarts.push(monthStart);
+  }
 
-  const remainder = currency === "VND"
-    ? amount - totalBase
-    : Math.round((amount - totalBase) * 100) / 100;
+  const allocations = splitMinorUnits(toMinorUnits(amount, currency), monthStarts.length).map(
+    (minor, i) => ({ monthBucket: getMonthBucket(monthStarts[i], cycleStartDay), minor })
+  );
 
-  const remainderPerMonth = currency === "VND"
-    ? 1
-    : 0.01;
+  // A refund gives back unused time, so it comes out of the months from the refund on; one
+  // made after the last month is taken in its own month.
+  for (const refund of refunds) {
+    if (!refund.paymentId.equals(payment._id)) continue;
 
-  const monthsWithExtra = currency === "VND"
-    ? remainder
-    : Math.round(remainder / 0.01);
+    const refundBucket = getMonthBucket(refund.refundDate, cycleStartDay);
+    let remaining = allocations.filter((allocation) => allocation.monthBucket >= refundBucket);
+    if (remaining.length === 0) {
+      remaining = [{ monthBucket: refundBucket, minor: 0 }];
+      allocations.push(remaining[0]);
+    }
 
-  for (let i = 0; i < months; i++) {
-    const periodStart = addMonthsDateOnly(paidDate, i);
-    const monthBucket = getMonthBucket(periodStart);
-
-    const monthAmount = currency === "VND"
-      ? baseAmount + (i < monthsWithExtra ? remainderPerMonth : 0)
-      : Math.round((baseAmount + (i < monthsWithExtra ? remainderPerMonth : 0)) * 100) / 100;
-
-    allocations.push({
-      monthBucket,
-      amount: monthAmount,
-      currency,
-    });
+    splitMinorUnits(-toMinorUnits(refund.amount, currency), remaining.length).forEach(
+      (minor, i) => {
+        remaining[i].minor += minor;
+      }
+    );
   }
 
-  return allocations;
+  return allocations.map(({ monthBucket, minor }) => ({
+    monthBucket,
+    amount: fromMinorUnits(minor, currency),
+    currency,
+  }));
 }
 
 export async function getPaymentById(id: string): Promise<Payment | null> {
@@ -222,7 +394,7 @@ export async function getPaymentById(id: string): Promise<Payment | null> {
   const db = await getDb();
   const collection = db.collection<Payment>("payments");
 
-  return collection.findOne({ _id: new ObjectId(id) });
+  return collection.findOne({ _id: new ObjectId(id), ...NOT_DELETED });
 }
 
 export async function updatePayment(
@@ -232,8 +404,11 @@ export async function updatePayment(
     currency: Currency;
     amount: number;
     months: number;
+    periodStart?: string;
+    planId?: string;
     note?: string;
-  }
+  },
+  options: WriteOptions = {}
 ): Promise<Payment | null> {
   const { id, ...updates } = input;
   if (!ObjectId.isValid(id)) {
@@ -243,33 +418,186 @@ export async function updatePayment(
   const db = await getDb();
   const collection = db.collection<Payment>("payments");
 
-  const endDate = addMonthsDateOnly(updates.paidDate, updates.months);
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before) {
+    return null;
+  }
+
+  const periodStart =
+    updates.periodStart ||
+    getDefaultPeriodStart(
+      await getPreviousEndDate(before.customerId, updates.paidDate, before._id, options),
+      updates.paidDate
+    );
+  const endDate = getCoverageEndDate(
+    periodStart,
+    updates.months,
+    before.coverageReducedDays
+  );
+
+  const sanitizedAmount = roundMoney(updates.amount, updates.currency);
+
+  const setOps: Record<string, unknown> = {
+    paidDate: updates.paidDate,
+    currency: updates.currency,
+    amount: sanitizedAmount,
+    months: updates.months,
+    periodStart,
+    endDate,
+    note: updates.note?.trim() || undefined,
+    updatedAt: new Date(),
+  };
+  const updateDoc: Record<string, unknown> = { $set: setOps };
+
+  if (
+    updates.currency !== before.currency ||
+    updates.paidDate !== before.paidDate
+  ) {
+    const vndRate = await getVndRateSnapshot(updates.currency, updates.paidDate, options);
+    if (vndRate) {
+      setOps.vndRate = vndRate;
+    } else {
+      updateDoc.$unset = { vndRate: "" };
+    }
+  }
 
-  const sanitizedAmount =
-    updates.currency === "VND"
-      ? Math.round(updates.amount)
-      : Math.round(updates.amount * 100) / 100;
+  const planChanged =
+    (updates.planId || "") !== (before.planId?.toString() || "") ||
+    updates.currency !== before.currency;
+
+  if (planChanged) {
+    const plan = updates.planId
+      ? await getPlanById(updates.planId, { session: options.session })
+      : null;
+
+    if (plan) {
+      Object.assign(setOps, getPlanSnapshot(plan, updates.currency));
+    } else {
+      updateDoc.$unset = {
+        ...(updateDoc.$unset as Record<string, string> | undefined),
+        planId: "",
+        planName: "",
+        planPrice: "",
+        planPeriodMonths: "",
+      };
+    }
+  }
 
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
-    {
-      $set: {
-        paidDate: updates.paidDate,
-        currency: updates.currency,
-        amount: sanitizedAmount,
-        months: updates.months,
-        endDate,
-        note: updates.note?.trim() || undefined,
-        updatedAt: new Date(),
+    updateDoc,
+    { returnDocument: "after", session: options.session }
+  );
+
+  if (result) {
+    await syncPaymentBalanceEntry(result, options);
+
+    await recordAuditEvent(
+      {
+        action: "payment.update",
+        entityType: "payment",
+        entityId: result._id,
+        customerId: result.customerId,
+        before,
+        after: result,
       },
-    },
+      options
+    );
+    await enqueueWebhookEvent(
+      "payment.updated",
+      { payment: serializePayment(result) },
+      { ...options, customerId: result.customerId }
+    );
+  }
+
+  return result;
+}
+
+export async function ensureReceiptNumber(payment: Payment): Promise<number> {
+  if (payment.receiptNumber) {
+    return payment.receiptNumber;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const receiptNumber = await getNextSequence(RECEIPT_SEQUENCE);
+  const result = await collection.findOneAndUpdate(
+    { _id: payment._id, receiptNumber: { $exists: false } },
+    { $set: { receiptNumber } },
     { returnDocument: "after" }
   );
+  if (result?.receiptNumber) {
+    return result.receiptNumber;
+  }
+
+  const current = await collection.findOne({ _id: payment._id });
+  return current?.receiptNumber || receiptNumber;
+}
+
+export async function adjustPaymentCoverage(
+  id: ObjectId,
+  reducedDaysDelta: number,
+  options: WriteOptions = {}
+): Promise<Payment | null> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const before = await collection.findOne({ _id: id }, { session: options.session });
+  if (!before) {
+    return null;
+  }
+
+  const coverageReducedDays = Math.max(
+    0,
+    (before.coverageReducedDays || 0) + reducedDaysDelta
+  );
+  const endDate = getCoverageEndDate(
+    before.periodStart,
+    before.months,
+    coverageReducedDays
+  );
+
+  const result = await collection.findOneAndUpdate(
+    { _id: id },
+    coverageReducedDays > 0
+      ? { $set: { coverageReducedDays, endDate, updatedAt: new Date() } }
+      : {
+        $set: { endDate, updatedAt: new Date() },
+        $unset: { coverageReducedDays: "" },
+      },
+    { returnDocument: "after", session: options.session }
+  );
+
+  if (result) {
+    await recordAuditEvent(
+      {
+        action: "payment.update",
+        entityType: "payment",
+        entityId: result._id,
+        customerId: result.customerId,
+        before,
+        after: result,
+      },
+      options
+    );
+    await enqueueWebhookEvent(
+      "payment.updated",
+      { payment: serializePayment(result) },
+      { ...options, customerId: result.customerId }
+    );
+  }
 
   return result;
 }
 
-export async function deletePayment(id: string): Promise<boolean> {
+export async function deletePayment(
+  id: string,
+  options: WriteOptions = {}
+): Promise<boolean> {
   if (!ObjectId.isValid(id)) {
     return false;
   }
@@ -277,39 +605,301 @@ export async function deletePayment(id: string): Promise<boolean> {
   const db = await getDb();
   const collection = db.collection<Payment>("payments");
 
-  const result = await collection.deleteOne({ _id: new ObjectId(id) });
-  return result.deletedCount === 1;
+  const before = await collection.findOne(
+    { _id: new ObjectId(id), ...NOT_DELETED },
+    { session: options.session }
+  );
+  if (!before) {
+    return false;
+  }
+
+  const after = await collection.findOneAndUpdate(
+    { _id: before._id },
+    { $set: { deletedAt: new Date() } },
+    { returnDocument: "after", session: options.session }
+  );
+
+  await recordAuditEvent(
+    {
+      action: "payment.delete",
+      entityType: "payment",
+      entityId: before._id,
+      customerId: before.customerId,
+      before,
+      after,
+    },
+    options
+  );
+  await enqueueWebhookEvent(
+    "payment.deleted",
+    { payment: serializePayment(before) },
+    { ...options, customerId: before.customerId }
+  );
+
+  return true;
+}
+
+export async function listTrashedPayments(): Promise<Payment[]> {
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  return collection
+    .find({
+      deletedAt: { $exists: true },
+      deletedWithCustomer: { $ne: true },
+    })
+    .sort({ deletedAt: -1 })
+    .toArray();
+}
+
+export async function restorePayment(
+  id: string,
+  options: WriteOptions = {}
+): Promise<Payment | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const before = await collection.findOne(
+    {
+      _id: new ObjectId(id),
+      deletedAt: { $exists: true },
+      deletedWithCustomer: { $ne: true },
+    },
+    { session: options.session }
+  );
+  if (!before) {
+    return null;
+  }
+
+  // A payment of a trashed customer would count in revenue while its customer is hidden;
+  // the customer has to be restored first.
+  const customer = await db
+    .collection("customers")
+    .findOne({ _id: before.customerId, ...NOT_DELETED }, { session: options.session });
+  if (!customer) {
+    return null;
+  }
+
+  const after = await collection.findOneAndUpdate(
+    { _id: before._id },
+    { $unset: { deletedAt: "" } },
+    { returnDocument: "after", session: options.session }
+  );
+
+  await recordAuditEvent(
+    {
+      action: "payment.restore",
+      entityType: "payment",
+      entityId: before._id,
+      customerId: before.customerId,
+      before,
+      after,
+    },
+    options
+  );
+  if (after) {
+    await enqueueWebhookEvent(
+      "payment.restored",
+      { payment: serializePayment(after) },
+      { ...options, customerId: after.customerId }
+    );
+  }
+
+  return after;
+}
+
+export async function purgePayment(
+  id: string,
+  options: WriteOptions = {}
+): Promise<boolean> {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Payment>("payments");
+
+  const before = await collection.findOneAndDelete(
+    {
+      _id: new ObjectId(id),
+      deletedAt: { $exists: true },
+    },
+    { session: options.session }
+  );
+  if (!before) {
+    return false;
+  }
+
+  await db
+    .collection<Refund>("refunds")
+    .deleteMany({ paymentId: before._id }, { session: options.session });
+  await db
+    .collection<BalanceEntry>("balance_entries")
+    .deleteMany({ paymentId: before._id }, { session: options.session });
+
+  await recordAuditEvent(
+    {
+      action: "payment.purge",
+      entityType: "payment",
+      entityId: before._id,
+      customerId: before.customerId,
+      before,
+      after: null,
+    },
+    options
+  );
+
+  return true;
+}
+
+export interface MonthlyTotals {
+  byCurrency: Partial<Record<Currency, number>>;
+  convertedVnd: number;
+  missingRates: Currency[];
+}
+
+function emptyTotals(): MonthlyTotals {
+  return { byCurrency: {}, convertedVnd: 0, missingRates: [] };
+}
+
+function addToTotals(
+  totals: MonthlyTotals,
+  entry: { currency: Currency; paidDate: string; vndRate?: number },
+  amount: number,
+  rates: ExchangeRateTable
+): void {
+  totals.byCurrency[entry.currency] = roundMoney(
+    (totals.byCurrency[entry.currency] || 0) + amount,
+    entry.currency
+  );
+
+  const converted = convertToVnd({ ...entry, amount }, rates);
+  if (converted === null) {
+    if (!totals.missingRates.includes(entry.currency)) {
+      totals.missingRates.push(entry.currency);
+    }
+  } else {
+    totals.convertedVnd += converted;
+  }
+}
+
+function addRefundsToTotals(
+  totals: Map<string, MonthlyTotals>,
+  refunds: Refund[],
+  rates: ExchangeRateTable,
+  cycleStartDay: number
+): void {
+  for (const refund of refunds) {
+    const current = totals.get(getMonthBucket(refund.refundDate, cycleStartDay));
+    if (current) {
+      addToTotals(
+        current,
+        {
+          currency: refund.currency,
+          paidDate: refund.refundDate,
+          vndRate: refund.vndRate,
+        },
+        -refund.amount,
+        rates
+      );
+    }
+  }
 }
 
 export function computeMonthlyTotals(
   payments: Payment[],
-  monthBuckets: string[]
-): Map<string, { VND: number; USD: number; convertedVnd: number }> {
-  const totals = new Map<string, { VND: number; USD: number; convertedVnd: number }>();
+  monthBuckets: string[],
+  rates: ExchangeRateTable,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY,
+  refunds: Refund[] = []
+): Map<string, MonthlyTotals> {
+  const totals = new Map<string, MonthlyTotals>();
 
   for (const bucket of monthBuckets) {
-    totals.set(bucket, { VND: 0, USD: 0, convertedVnd: 0 });
+    totals.set(bucket, emptyTotals());
   }
 
   for (const payment of payments) {
     for (const bucket of monthBuckets) {
-      const { start, end } = getRevenueBucketRange(bucket);
+      const { start, end } = getRevenueBucketRange(bucket, cycleStartDay);
       if (payment.paidDate >= start && payment.paidDate <= end) {
-        const current = totals.get(bucket)!;
-        if (payment.currency === "VND") {
-          current.VND += Math.round(payment.amount);
-        } else {
-          current.USD = Math.round((current.USD + payment.amount) * 100) / 100;
-        }
+        addToTotals(totals.get(bucket)!, payment, payment.amount, rates);
         break;
       }
     }
   }
 
-  for (const [bucket, data] of totals) {
-    data.convertedVnd = Math.round(data.VND + data.USD * USD_TO_VND_RATE);
-    totals.set(bucket, data);
+  addRefundsToTotals(totals, refunds, rates, cycleStartDay);
+
+  return totals;
+}
+
+// Refunds are netted out of their payment's allocation, so each one is counted either as
+// recognized or as deferred revenue, never both.
+export function computeRecognizedMonthlyTotals(
+  payments: Payment[],
+  monthBuckets: string[],
+  rates: ExchangeRateTable,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY,
+  refunds: Refund[] = []
+): Map<string, MonthlyTotals> {
+  const totals = new Map<string, MonthlyTotals>();
+
+  for (const bucket of monthBuckets) {
+    totals.set(bucket, emptyTotals());
+  }
+
+  for (const payment of payments) {
+    for (const allocation of allocatePaymentToMonths(payment, cycleStartDay, refunds)) {
+      const current = totals.get(allocation.monthBucket);
+      if (current) {
+        addToTotals(current, payment, allocation.amount, rates);
+      }
+    }
   }
 
   return totals;
 }
+
+export function computeDeferredRevenue(
+  payments: Payment[],
+  asOfDate: string,
+  rates: ExchangeRateTable,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY,
+  refunds: Refund[] = []
+): MonthlyTotals {
+  const deferred = emptyTotals();
+  const currentBucket = getMonthBucket(asOfDate, cycleStartDay);
+
+  const refundsToDate = refunds.filter((refund) => refund.refundDate <= asOfDate);
+
+  for (const payment of payments) {
+    if (payment.paidDate > asOfDate) continue;
+
+    const deferredMinor = allocatePaymentToMonths(payment, cycleStartDay, refundsToDate)
+      .filter((allocation) => allocation.monthBucket > currentBucket)
+      .reduce((sum, allocation) => sum + toMinorUnits(allocation.amount, payment.currency), 0);
+    if (deferredMinor !== 0) {
+      addToTotals(deferred, payment, fromMinorUnits(deferredMinor, payment.currency), rates);
+    }
+  }
+
+  return deferred;
+}
+
+async function getVndRateSnapshot(
+  currency: Currency,
+  paidDate: string,
+  options: WriteOptions
+): Promise<number | undefined> {
+  if (currency === "VND") {
+    return undefined;
+  }
+
+  const rates = await getExchangeRateTable({ session: options.session });
+  return findRateToVnd(rates, currency, paidDate) ?? undefined;
+}
@@ -0,0 +1,74 @@
+export type AdminRole = "owner" | "cashier" | "viewer";
+
+export const ADMIN_ROLES: readonly AdminRole[] = ["owner", "cashier", "viewer"];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Chủ sở hữu",
+  cashier: "Thu ngân",
+  viewer: "Chỉ xem",
+};
+
+export type Permission =
+  | "customer.create"
+  | "customer.import"
+  | "customer.edit"
+  | "customer.hide"
+  | "customer.renewal"
+  | "customer.delete"
+  | "payment.create"
+  | "payment.update"
+  | "payment.delete"
+  | "payment.refund"
+  | "audit.view"
+  | "trash.manage"
+  | "plan.manage"
+  | "exchangeRate.manage"
+  | "settings.manage"
+  | "data.export"
+  | "operator.manage"
+  | "apiToken.manage"
+  | "webhook.manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: [
+    "customer.create",
+    "customer.import",
+    "customer.edit",
+    "customer.hide",
+    "customer.renewal",
+    "customer.delete",
+    "payment.create",
+    "payment.update",
+    "payment.delete",
+    "payment.refund",
+    "audit.view",
+    "trash.manage",
+    "plan.manage",
+    "exchangeRate.manage",
+    "settings.manage",
+    "data.export",
+    "operator.manage",
+    "apiToken.manage",
+    "webhook.manage",
+  ],
+  cashier: [
+    "customer.create",
+    "customer.edit",
+    "customer.hide",
+    "customer.renewal",
+    "payment.create",
+  ],
+  viewer: [],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function getRolePermissions(role: AdminRole): Permission[] {
+  return isAdminRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
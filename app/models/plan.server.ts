@@ -0,0 +1,134 @@
+import { ObjectId, type ClientSession } from "mongodb";
+import { getDb } from "~/utils/db.server";
+import type { Currency, PlanPrices } from "~/models/subscriptionStatus";
+
+export interface Plan {
+  _id: ObjectId;
+  name: string;
+  prices: PlanPrices;
+  billingPeriodMonths: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PlanInput {
+  name: string;
+  prices: PlanPrices;
+  billingPeriodMonths: number;
+  active: boolean;
+}
+
+export interface PlanSnapshot {
+  planId: ObjectId;
+  planName: string;
+  planPrice?: number;
+  planPeriodMonths: number;
+}
+
+export async function listPlans(options?: { activeOnly?: boolean }): Promise<Plan[]> {
+  const db = await getDb();
+  const collection = db.collection<Plan>("plans");
+
+  const filter: Record<string, unknown> = {};
+  if (options?.activeOnly) {
+    filter.active = true;
+  }
+
+  return collection
+    .find(filter)
+    .sort({ active: -1, name: 1 })
+    .toArray();
+}
+
+export async function getPlanById(
+  id: string,
+  options: { session?: ClientSession } = {}
+): Promise<Plan | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Plan>("plans");
+
+  return collection.findOne({ _id: new ObjectId(id) }, { session: options.session });
+}
+
+export async function createPlan(input: PlanInput): Promise<Plan> {
+  const db = await getDb();
+  const collection = db.collection<Plan>("plans");
+
+  const now = new Date();
+  const plan: Omit<Plan, "_id"> = {
+    name: input.name.trim(),
+    prices: input.prices,
+    billingPeriodMonths: input.billingPeriodMonths,
+    active: input.active,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const result = await collection.insertOne(plan as Plan);
+  return {
+    _id: result.insertedId,
+    ...plan,
+  } as Plan;
+}
+
+export async function updatePlan(id: string, input: PlanInput): Promise<Plan | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Plan>("plans");
+
+  return collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    {
+      $set: {
+        name: input.name.trim(),
+        prices: input.prices,
+        billingPeriodMonths: input.billingPeriodMonths,
+        active: input.active,
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: "after" }
+  );
+}
+
+export async function setPlanActive(id: string, active: boolean): Promise<Plan | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Plan>("plans");
+
+  return collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    { $set: { active, updatedAt: new Date() } },
+    { returnDocument: "after" }
+  );
+}
+
+export function getPlanSnapshot(plan: Plan, currency: Currency): PlanSnapshot {
+  return {
+    planId: plan._id,
+    planName: plan.name,
+    planPrice: plan.prices[currency],
+    planPeriodMonths: plan.billingPeriodMonths,
+  };
+}
+
+export function toPlanOption(plan: Plan) {
+  return {
+    _id: plan._id.toString(),
+    name: plan.name,
+    prices: plan.prices,
+    billingPeriodMonths: plan.billingPeriodMonths,
+    active: plan.active,
+  };
+}
@@ -0,0 +1,80 @@
+import { getPaymentById, ensureReceiptNumber } from "~/models/payment.server";
+import { getCustomerById } from "~/models/customer.server";
+import { listRefundsForPayment } from "~/models/refund.server";
+import {
+  formatReceiptNumber,
+  getReceiptRows,
+  type Receipt,
+} from "~/models/receipt";
+import { getPublicStrings, type PublicLang } from "~/i18n/public";
+import { roundMoney } from "~/utils/currency";
+import { formatDateOnly } from "~/utils/date";
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, createPdf, type PdfText } from "~/utils/pdf.server";
+
+export async function getReceiptForPayment(paymentId: string): Promise<Receipt | null> {
+  const payment = await getPaymentById(paymentId);
+  if (!payment) {
+    return null;
+  }
+
+  const [customer, refunds, receiptNumber] = await Promise.all([
+    getCustomerById(payment.customerId.toString()),
+    listRefundsForPayment(paymentId),
+    ensureReceiptNumber(payment),
+  ]);
+  if (!customer) {
+    return null;
+  }
+
+  return {
+    paymentId: payment._id.toString(),
+    customerId: customer._id.toString(),
+    receiptNumber,
+    issuedDate: formatDateOnly(payment.createdAt),
+    customerName: customer.displayName,
+    paidDate: payment.paidDate,
+    periodStart: payment.periodStart,
+    endDate: payment.endDate,
+    planName: payment.planName || null,
+    months: payment.months,
+    currency: payment.currency,
+    amount: payment.amount,
+    refundedAmount: roundMoney(
+      refunds.reduce((sum, refund) => sum + refund.amount, 0),
+      payment.currency
+    ),
+    note: payment.note || null,
+  };
+}
+
+export function renderReceiptPdf(receipt: Receipt, lang: PublicLang): Uint8Array<ArrayBuffer> {
+  const strings = getPublicStrings(lang).receipt;
+  const left = 56;
+  const valueX = 200;
+  let y = PDF_PAGE_HEIGHT - 72;
+
+  const texts: PdfText[] = [
+    { x: left, y, text: "Kana Box V2", size: 12, bold: true },
+    { x: left, y: y - 28, text: strings.title, size: 20, bold: true },
+  ];
+  y -= 44;
+  const lines = [{ x1: left, y1: y, x2: PDF_PAGE_WIDTH - left, y2: y }];
+  y -= 28;
+
+  for (const row of getReceiptRows(receipt, strings)) {
+    texts.push(
+      { x: left, y, text: row.label, size: 11, bold: true },
+      { x: valueX, y, text: row.value, size: 11 }
+    );
+    y -= 22;
+  }
+
+  y -= 8;
+  lines.push({ x1: left, y1: y, x2: PDF_PAGE_WIDTH - left, y2: y });
+  texts.push({ x: left, y: y - 24, text: strings.thanks, size: 11 });
+
+  return createPdf(
+    { texts, lines },
+    { title: `${strings.title} ${formatReceiptNumber(receipt.receiptNumber)}` }
+  );
+}
@@ -0,0 +1,63 @@
+import type { PublicStrings } from "~/i18n/public";
+import { formatMoney, type Currency } from "~/utils/currency";
+
+export interface Receipt {
+  paymentId: string;
+  customerId: string;
+  receiptNumber: number;
+  issuedDate: string;
+  customerName: string;
+  paidDate: string;
+  periodStart: string;
+  endDate: string;
+  planName: string | null;
+  months: number;
+  currency: Currency;
+  amount: number;
+  refundedAmount: number;
+  note: string | null;
+}
+
+export interface ReceiptRow {
+  label: string;
+  value: string;
+}
+
+export function formatReceiptNumber(receiptNumber: number): string {
+  return `KB-${String(receiptNumber).padStart(6, "0")}`;
+}
+
+export function getReceiptRows(
+  receipt: Receipt,
+  strings: PublicStrings["receipt"]
+): ReceiptRow[] {
+  const rows: ReceiptRow[] = [
+    { label: strings.receiptNumber, value: formatReceiptNumber(receipt.receiptNumber) },
+    { label: strings.issuedDate, value: receipt.issuedDate },
+    { label: strings.member, value: receipt.customerName },
+    { label: strings.paidDate, value: receipt.paidDate },
+  ];
+
+  if (receipt.planName) {
+    rows.push({ label: strings.plan, value: receipt.planName });
+  }
+
+  rows.push(
+    { label: strings.months, value: strings.formatMonths(receipt.months) },
+    { label: strings.period, value: `${receipt.periodStart} → ${receipt.endDate}` },
+    { label: strings.amount, value: formatMoney(receipt.amount, receipt.currency) }
+  );
+
+  if (receipt.refundedAmount > 0) {
+    rows.push({
+      label: strings.refunded,
+      value: formatMoney(receipt.refundedAmount, receipt.currency),
+    });
+  }
+
+  if (receipt.note) {
+    rows.push({ label: strings.note, value: receipt.note });
+  }
+
+  return rows;
+}
@@ -0,0 +1,225 @@
+import { ObjectId } from "mongodb";
+import { getDb, NOT_DELETED, withTransaction } from "~/utils/db.server";
+import { recordAuditEvent, type WriteOptions } from "~/models/audit.server";
+import { adjustPaymentCoverage, type Payment } from "~/models/payment.server";
+import { syncPaymentBalanceEntry } from "~/models/balance.server";
+import { diffDaysDateOnly, addMonthsDateOnly } from "~/utils/date";
+import { roundMoney, type Currency } from "~/utils/currency";
+
+export interface Refund {
+  _id: ObjectId;
+  paymentId: ObjectId;
+  customerId: ObjectId;
+  currency: Currency;
+  amount: number;
+  refundDate: string;
+  reason?: string;
+  shortensCoverage: boolean;
+  coverageDays: number;
+  vndRate?: number;
+  createdAt: Date;
+}
+
+export interface RefundInput {
+  paymentId: string;
+  amount: number;
+  refundDate: string;
+  reason?: string;
+  shortensCoverage: boolean;
+}
+
+export function getRefundableAmount(payment: Payment, refunds: Refund[]): number {
+  const refunded = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+  return roundMoney(Math.max(0, payment.amount - refunded), payment.currency);
+}
+
+function getRefundCoverageDays(payment: Payment, amount: number): number {
+  const totalDays = diffDaysDateOnly(
+    addMonthsDateOnly(payment.periodStart, payment.months),
+    payment.periodStart
+  );
+  return Math.round((totalDays * amount) / payment.amount);
+}
+
+export async function createRefund(
+  input: RefundInput,
+  options: WriteOptions = {}
+): Promise<Refund | null> {
+  if (!ObjectId.isValid(input.paymentId)) {
+    return null;
+  }
+
+  return withTransaction(async (session) => {
+    const writeOptions = { ...options, session };
+    const db = await getDb();
+    const collection = db.collection<Refund>("refunds");
+
+    const payment = await db
+      .collection<Payment>("payments")
+      .findOne({ _id: new ObjectId(input.paymentId), ...NOT_DELETED }, { session });
+    if (!payment) {
+      return null;
+    }
+
+    // Checked against refunds read in the same transaction so concurrent refunds cannot
+    // together exceed the payment.
+    const amount = roundMoney(input.amount, payment.currency);
+    const existing = await collection.find({ paymentId: payment._id }, { session }).toArray();
+    if (amount <= 0 || amount > getRefundableAmount(payment, existing)) {
+      return null;
+    }
+
+    const refund: Omit<Refund, "_id"> = {
+      paymentId: payment._id,
+      customerId: payment.customerId,
+      currency: payment.currency,
+      amount,
+      refundDate: input.refundDate,
+      reason: input.reason?.trim() || undefined,
+      shortensCoverage: input.shortensCoverage,
+      coverageDays: input.shortensCoverage
+        ? getRefundCoverageDays(payment, amount)
+        : 0,
+      vndRate: payment.vndRate,
+      createdAt: new Date(),
+    };
+
+    const result = await collection.insertOne(refund as Refund, { session });
+    const created = { _id: result.insertedId, ...refund } as Refund;
+
+    await recordAuditEvent(
+      {
+        action: "refund.create",
+        entityType: "refund",
+        entityId: created._id,
+        customerId: created.customerId,
+        before: null,
+        after: created,
+      },
+      writeOptions
+    );
+
+    if (created.coverageDays > 0) {
+      await adjustPaymentCoverage(payment._id, created.coverageDays, writeOptions);
+    }
+    await syncPaymentBalanceEntry(payment, writeOptions);
+
+    return created;
+  });
+}
+
+export async function listRefundsForCustomer(customerId: string): Promise<Refund[]> {
+  if (!ObjectId.isValid(customerId)) {
+    return [];
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Refund>("refunds");
+
+  return collection
+    .find({ customerId: new ObjectId(customerId) })
+    .sort({ refundDate: -1 })
+    .toArray();
+}
+
+export async function listRefundsForPayment(paymentId: string): Promise<Refund[]> {
+  if (!ObjectId.isValid(paymentId)) {
+    return [];
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Refund>("refunds");
+
+  return collection
+    .find({ paymentId: new ObjectId(paymentId) })
+    .sort({ refundDate: -1 })
+    .toArray();
+}
+
+export async function listRefundsForPayments(
+  paymentIds: ObjectId[],
+  asOfDate: string
+): Promise<Refund[]> {
+  if (paymentIds.length === 0) {
+    return [];
+  }
+
+  const db = await getDb();
+  const collection = db.collection<Refund>("refunds");
+
+  return collection
+    .find({ paymentId: { $in: paymentIds }, refundDate: { $lte: asOfDate } })
+    .toArray();
+}
+
+export async function listRefundsForWindow(
+  startDate: string,
+  endDate: string
+): Promise<Refund[]> {
+  const db = await getDb();
+  const collection = db.collection<Refund>("refunds");
+
+  return collection
+    .aggregate<Refund>([
+      { $match: { refundDate: { $gte: startDate, $lte: endDate } } },
+      {
+        $lookup: {
+          from: "payments",
+          localField: "paymentId",
+          foreignField: "_id",
+          as: "payment",
+        },
+      },
+      { $match: { "payment.deletedAt": { $exists: false } } },
+      { $project: { payment: 0 } },
+    ])
+    .toArray();
+}
+
+export async function deleteRefund(
+  id: string,
+  customerId: string,
+  options: WriteOptions = {}
+): Promise<boolean> {
+  if (!ObjectId.isValid(id) || !ObjectId.isValid(customerId)) {
+    return false;
+  }
+
+  return withTransaction(async (session) => {
+    const writeOptions = { ...options, session };
+    const db = await getDb();
+    const collection = db.collection<Refund>("refunds");
+
+    const before = await collection.findOneAndDelete(
+      { _id: new ObjectId(id), customerId: new ObjectId(customerId) },
+      { session }
+    );
+    if (!before) {
+      return false;
+    }
+
+    await recordAuditEvent(
+      {
+        action: "refund.delete",
+        entityType: "refund",
+        entityId: before._id,
+        customerId: before.customerId,
+        before,
+        after: null,
+      },
+      writeOptions
+    );
+
+    if (before.coverageDays > 0) {
+      await adjustPaymentCoverage(before.paymentId, -before.coverageDays, writeOptions);
+    }
+    const payment = await db
+      .collection<Payment>("payments")
+      .findOne({ _id: before.paymentId }, { session });
+    if (payment) {
+      await syncPaymentBalanceEntry(payment, writeOptions);
+    }
+
+    return true;
+  });
+}
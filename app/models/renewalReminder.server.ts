@@ -0,0 +1,198 @@
+import { MongoServerError, ObjectId } from "mongodb";
+import { getDb } from "~/utils/db.server";
+import { addDaysDateOnly, getTodayDateOnly } from "~/utils/date";
+import { getMailTransport, type MailMessage, type MailTransportName } from "~/utils/mail.server";
+import { getPublicStrings } from "~/i18n/public";
+import { listCustomers, type Customer } from "~/models/customer.server";
+import { listPaymentsByCustomer } from "~/models/payment.server";
+import { getStatusThresholds } from "~/models/settings.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import {
+  computeCustomerStatus,
+  resolveStatusThresholds,
+  type StatusThresholds,
+} from "~/models/subscriptionStatus";
+
+export type RenewalReminderStage = "due" | "grace";
+
+export interface RenewalReminder {
+  _id: ObjectId;
+  customerId: ObjectId;
+  displayName: string;
+  email: string;
+  stage: RenewalReminderStage;
+  endDate: string;
+  subject: string;
+  transport: MailTransportName;
+  messageId?: string;
+  sentDate: string;
+  createdAt: Date;
+}
+
+export interface RenewalReminderCandidate {
+  customer: Customer & { email: string };
+  stage: RenewalReminderStage;
+  endDate: string;
+  message: MailMessage;
+}
+
+export function buildRenewalReminderMessage(input: {
+  displayName: string;
+  email: string;
+  stage: RenewalReminderStage;
+  endDate: string;
+  daysLeft: number;
+  graceEndDate: string;
+}): MailMessage {
+  const languages = [getPublicStrings("vi"), getPublicStrings("en")];
+  const sections = languages.map(({ renewalReminder: strings }) =>
+    [
+      strings.greeting(input.displayName),
+      "",
+      input.stage === "due"
+        ? strings.due(input.endDate, input.daysLeft)
+        : strings.grace(input.endDate, input.graceEndDate),
+      strings.renew,
+      "",
+      strings.signature,
+    ].join("\n")
+  );
+
+  return {
+    to: input.email,
+    subject: languages
+      .map(({ renewalReminder: strings }) => strings.subject[input.stage])
+      .join(" / "),
+    text: sections.join("\n\n----------\n\n"),
+  };
+}
+
+function findCandidates(
+  customers: Customer[],
+  paymentsByCustomer: Awaited<ReturnType<typeof listPaymentsByCustomer>>,
+  thresholds: StatusThresholds
+): RenewalReminderCandidate[] {
+  const candidates: RenewalReminderCandidate[] = [];
+
+  for (const customer of customers) {
+    if (!customer.email || customer.isPublicHidden || customer.renewalCancelled) {
+      continue;
+    }
+
+    const payments = paymentsByCustomer.get(customer._id.toString()) || [];
+    const status = computeCustomerStatus(
+      getCurrentCoverage(buildCoverageTimeline(payments)),
+      thresholds,
+      customer
+    );
+    if ((status.status !== "due" && status.status !== "grace") || !status.effectiveEndDate) {
+      continue;
+    }
+
+    candidates.push({
+      customer: customer as Customer & { email: string },
+      stage: status.status,
+      endDate: status.effectiveEndDate,
+      message: buildRenewalReminderMessage({
+        displayName: customer.displayName,
+        email: customer.email,
+        stage: status.status,
+        endDate: status.effectiveEndDate,
+        daysLeft: status.daysToEnd ?? 0,
+        graceEndDate: addDaysDateOnly(
+          status.effectiveEndDate,
+          resolveStatusThresholds(thresholds, customer).graceDays
+        ),
+      }),
+    });
+  }
+
+  return candidates;
+}
+
+// A reminder is logged before it is sent and the log is unique per customer, stage and end
+// date, so each stage is mailed at most once per subscription period. A failed send removes
+// its log entry and is retried on the next run.
+export async function sendRenewalReminders(
+  options: { dryRun?: boolean } = {}
+): Promise<{ sent: number; alreadySent: number; failed: number; pending: RenewalReminderCandidate[] }> {
+  const db = await getDb();
+  const reminders = db.collection<RenewalReminder>("renewal_reminders");
+
+  const [customers, paymentsByCustomer, thresholds] = await Promise.all([
+    listCustomers(),
+    listPaymentsByCustomer(),
+    getStatusThresholds(),
+  ]);
+  const candidates = findCandidates(customers, paymentsByCustomer, thresholds);
+  const summary = { sent: 0, alreadySent: 0, failed: 0, pending: [] as RenewalReminderCandidate[] };
+
+  for (const candidate of candidates) {
+    const key = {
+      customerId: candidate.customer._id,
+      stage: candidate.stage,
+      endDate: candidate.endDate,
+    };
+
+    if (options.dryRun) {
+      if (await reminders.findOne(key)) {
+        summary.alreadySent++;
+      } else {
+        summary.pending.push(candidate);
+      }
+      continue;
+    }
+
+    const transport = getMailTransport();
+    const reminder: RenewalReminder = {
+      _id: new ObjectId(),
+      ...key,
+      displayName: candidate.customer.displayName,
+      email: candidate.customer.email,
+      subject: candidate.message.subject,
+      transport: transport.name,
+      sentDate: getTodayDateOnly(),
+      createdAt: new Date(),
+    };
+
+    try {
+      await reminders.insertOne(reminder);
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        summary.alreadySent++;
+        continue;
+      }
+      throw error;
+    }
+
+    try {
+      const { messageId } = await transport.send(candidate.message);
+      await reminders.updateOne({ _id: reminder._id }, { $set: { messageId } });
+      summary.sent++;
+    } catch (error) {
+      console.error(`Failed to send ${candidate.stage} reminder to ${candidate.customer.email}:`, error);
+      await reminders.deleteOne({ _id: reminder._id });
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+export async function listRenewalReminders(
+  filter: { customerId?: string } = {},
+  limit = 50
+): Promise<RenewalReminder[]> {
+  const db = await getDb();
+  const collection = db.collection<RenewalReminder>("renewal_reminders");
+
+  const query: Record<string, unknown> = {};
+  if (filter.customerId) {
+    if (!ObjectId.isValid(filter.customerId)) {
+      return [];
+    }
+    query.customerId = new ObjectId(filter.customerId);
+  }
+
+  return collection.find(query).sort({ createdAt: -1 }).limit(limit).toArray();
+}
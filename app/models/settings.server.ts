@@ -0,0 +1,74 @@
+import { getDb } from "~/utils/db.server";
+import { DEFAULT_CYCLE_START_DAY } from "~/utils/date";
+import {
+  DEFAULT_STATUS_THRESHOLDS,
+  type StatusThresholds,
+} from "~/models/subscriptionStatus";
+
+export interface AppSettings extends StatusThresholds {
+  revenueCycleStartDay: number;
+  reportingStartMonth: string | null;
+}
+
+interface SettingsDocument extends Partial<AppSettings> {
+  _id: string;
+  updatedAt?: Date;
+}
+
+const SETTINGS_ID = "app";
+const CACHE_TTL_MS = 30 * 1000;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  ...DEFAULT_STATUS_THRESHOLDS,
+  revenueCycleStartDay: DEFAULT_CYCLE_START_DAY,
+  reportingStartMonth: null,
+};
+
+let cache: { settings: AppSettings; expiresAt: number } | null = null;
+
+async function loadSettings(): Promise<AppSettings> {
+  const db = await getDb();
+  const collection = db.collection<SettingsDocument>("settings");
+
+  const doc = await collection.findOne({ _id: SETTINGS_ID });
+
+  return {
+    dueSoonDays: doc?.dueSoonDays ?? DEFAULT_SETTINGS.dueSoonDays,
+    graceDays: doc?.graceDays ?? DEFAULT_SETTINGS.graceDays,
+    revenueCycleStartDay:
+      doc?.revenueCycleStartDay ?? DEFAULT_SETTINGS.revenueCycleStartDay,
+    reportingStartMonth:
+      doc?.reportingStartMonth ?? DEFAULT_SETTINGS.reportingStartMonth,
+  };
+}
+
+export async function getSettings(): Promise<AppSettings> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.settings;
+  }
+
+  const settings = await loadSettings();
+  cache = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+export async function getStatusThresholds(): Promise<StatusThresholds> {
+  const { dueSoonDays, graceDays } = await getSettings();
+  return { dueSoonDays, graceDays };
+}
+
+export async function updateSettings(
+  updates: Partial<AppSettings>
+): Promise<AppSettings> {
+  const db = await getDb();
+  const collection = db.collection<SettingsDocument>("settings");
+
+  await collection.updateOne(
+    { _id: SETTINGS_ID },
+    { $set: { ...updates, updatedAt: new Date() } },
+    { upsert: true }
+  );
+
+  cache = null;
+  return getSettings();
+}
@@ -0,0 +1,188 @@
+import { ObjectId } from "mongodb";
+import { getDb, withTransaction } from "~/utils/db.server";
+import { getTodayDateOnly } from "~/utils/date";
+import type { WriteOptions } from "~/models/audit.server";
+import { listCustomers } from "~/models/customer.server";
+import { listPaymentsByCustomer } from "~/models/payment.server";
+import { getStatusThresholds } from "~/models/settings.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import {
+  computeCustomerStatus,
+  type SubscriptionStatus,
+} from "~/models/subscriptionStatus";
+import { enqueueWebhookEvent } from "~/models/webhook.server";
+
+export interface CustomerStatusSnapshot {
+  _id: ObjectId;
+  customerId: ObjectId;
+  status: SubscriptionStatus;
+  endDate: string | null;
+  evaluatedDate: string;
+  changedDate: string;
+}
+
+export interface StatusTransition {
+  _id: ObjectId;
+  customerId: ObjectId;
+  displayName: string;
+  from: SubscriptionStatus;
+  to: SubscriptionStatus;
+  endDate: string | null;
+  detectedDate: string;
+  createdAt: Date;
+}
+
+// The snapshot only moves if it still holds the status this run started from, so two
+// overlapping runs cannot both record the same change.
+async function recordTransition(
+  transition: StatusTransition,
+  snapshot: Omit<CustomerStatusSnapshot, "_id">,
+  options: WriteOptions
+): Promise<boolean> {
+  const db = await getDb();
+
+  const { matchedCount } = await db
+    .collection<CustomerStatusSnapshot>("customer_statuses")
+    .updateOne(
+      { customerId: snapshot.customerId, status: transition.from },
+      { $set: snapshot },
+      { session: options.session }
+    );
+  if (matchedCount === 0) {
+    return false;
+  }
+
+  await db
+    .collection<StatusTransition>("status_transitions")
+    .insertOne(transition, { session: options.session });
+  await enqueueWebhookEvent(
+    "status.changed",
+    {
+      customerId: transition.customerId.toString(),
+      displayName: transition.displayName,
+      from: transition.from,
+      to: transition.to,
+      endDate: transition.endDate,
+      detectedDate: transition.detectedDate,
+    },
+    { ...options, customerId: transition.customerId }
+  );
+  return true;
+}
+
+// Compares every customer's current status with the last one persisted and records a
+// transition for each change. A customer seen for the first time only gets a baseline,
+// so the first run does not report every member as having changed.
+export async function detectStatusTransitions(): Promise<{
+  evaluated: number;
+  baselined: number;
+  transitions: StatusTransition[];
+}> {
+  const today = getTodayDateOnly();
+  const db = await getDb();
+  const snapshots = db.collection<CustomerStatusSnapshot>("customer_statuses");
+
+  const [customers, paymentsByCustomer, thresholds, previous] = await Promise.all([
+    listCustomers(),
+    listPaymentsByCustomer(),
+    getStatusThresholds(),
+    snapshots.find({}).toArray(),
+  ]);
+  const previousByCustomer = new Map(
+    previous.map((snapshot) => [snapshot.customerId.toString(), snapshot])
+  );
+
+  const result = { evaluated: 0, baselined: 0, transitions: [] as StatusTransition[] };
+
+  for (const customer of customers) {
+    const customerId = customer._id.toString();
+    const status = computeCustomerStatus(
+      getCurrentCoverage(buildCoverageTimeline(paymentsByCustomer.get(customerId) || [])),
+      thresholds,
+      customer
+    );
+    const last = previousByCustomer.get(customerId);
+    result.evaluated++;
+
+    if (!last) {
+      const { upsertedCount } = await snapshots.updateOne(
+        { customerId: customer._id },
+        {
+          $setOnInsert: {
+            customerId: customer._id,
+            status: status.status,
+            endDate: status.effectiveEndDate,
+            evaluatedDate: today,
+            changedDate: today,
+          },
+        },
+        { upsert: true }
+      );
+      if (upsertedCount > 0) {
+        result.baselined++;
+      }
+      continue;
+    }
+
+    if (last.status === status.status) {
+      await snapshots.updateOne(
+        { _id: last._id },
+        { $set: { endDate: status.effectiveEndDate, evaluatedDate: today } }
+      );
+      continue;
+    }
+
+    const transition: StatusTransition = {
+      _id: new ObjectId(),
+      customerId: customer._id,
+      displayName: customer.displayName,
+      from: last.status,
+      to: status.status,
+      endDate: status.effectiveEndDate,
+      detectedDate: today,
+      createdAt: new Date(),
+    };
+    const recorded = await withTransaction((session) =>
+      recordTransition(
+        transition,
+        {
+          customerId: customer._id,
+          status: status.status,
+          endDate: status.effectiveEndDate,
+          evaluatedDate: today,
+          changedDate: today,
+        },
+        { session }
+      )
+    );
+    if (recorded) {
+      result.transitions.push(transition);
+    }
+  }
+
+  return result;
+}
+
+export async function listStatusTransitions(
+  filter: { customerId?: string; since?: string; to?: SubscriptionStatus } = {},
+  limit = 100
+): Promise<StatusTransition[]> {
+  const db = await getDb();
+  const collection = db.collection<StatusTransition>("status_transitions");
+
+  const query: Record<string, unknown> = {};
+  if (filter.customerId) {
+    if (!ObjectId.isValid(filter.customerId)) {
+      return [];
+    }
+    query.customerId = new ObjectId(filter.customerId);
+  }
+  if (filter.since) {
+    query.detectedDate = { $gte: filter.since };
+  }
+  if (filter.to) {
+    query.to = filter.to;
+  }
+
+  return collection.find(query).sort({ createdAt: -1 }).limit(limit).toArray();
+}
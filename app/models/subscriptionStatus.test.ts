@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { getEffectiveEndDate } from "~/models/subscriptionStatus";
+
+const coverage = { paidDate: "2024-01-01", endDate: "2024-04-01" };
+
+describe("getEffectiveEndDate", () => {
+  it("returns the paid end date without pauses", () => {
+    expect(getEffectiveEndDate(coverage, [], "2024-02-01")).toBe("2024-04-01");
+  });
+
+  it("extends the end date by the days of a closed pause", () => {
+    expect(
+      getEffectiveEndDate(
+        coverage,
+        [{ startDate: "2024-02-01", endDate: "2024-02-11" }],
+        "2024-03-01"
+      )
+    ).toBe("2024-04-11");
+  });
+
+  it("counts an open pause up to today", () => {
+    expect(
+      getEffectiveEndDate(coverage, [{ startDate: "2024-03-25" }], "2024-03-30")
+    ).toBe("2024-04-06");
+  });
+
+  it("only counts the part of a pause after the coverage starts", () => {
+    expect(
+      getEffectiveEndDate(
+        coverage,
+        [{ startDate: "2023-12-20", endDate: "2024-01-05" }],
+        "2024-02-01"
+      )
+    ).toBe("2024-04-05");
+  });
+
+  it("ignores pauses that start after the coverage ended", () => {
+    expect(
+      getEffectiveEndDate(
+        coverage,
+        [{ startDate: "2024-05-01", endDate: "2024-05-10" }],
+        "2024-06-01"
+      )
+    ).toBe("2024-04-01");
+  });
+
+  it("lets an earlier pause push the end date past a later one", () => {
+    expect(
+      getEffectiveEndDate(
+        coverage,
+        [
+          { startDate: "2024-04-03", endDate: "2024-04-05" },
+          { startDate: "2024-01-10", endDate: "2024-01-20" },
+        ],
+        "2024-05-01"
+      )
+    ).toBe("2024-04-13");
+  });
+
+  it("clamps pauses to the coverage start instead of the paid date", () => {
+    expect(
+      getEffectiveEndDate(
+        { paidDate: "2024-01-01", periodStart: "2024-02-01", endDate: "2024-05-01" },
+        [{ startDate: "2024-01-10", endDate: "2024-02-11" }],
+        "2024-03-01"
+      )
+    ).toBe("2024-05-11");
+  });
+});
@@ -1,16 +1,42 @@
-import { diffDaysDateOnly, getTodayDateOnly } from "~/utils/date";
+import {
+  addDaysDateOnly,
+  diffDaysDateOnly,
+  getTodayDateOnly,
+} from "~/utils/date";
+import type { Currency } from "~/utils/currency";
+
+export type { Currency };
 
 export const DUE_SOON_DAYS = 3;
 export const GRACE_DAYS = 7;
+export const MAX_STATUS_THRESHOLD_DAYS = 365;
+
+export interface StatusThresholds {
+  dueSoonDays: number;
+  graceDays: number;
+}
 
-export const BASE_PRICE_VND = 50000;
-export const BASE_PRICE_USD = 2;
+export const DEFAULT_STATUS_THRESHOLDS: StatusThresholds = {
+  dueSoonDays: DUE_SOON_DAYS,
+  graceDays: GRACE_DAYS,
+};
 
 export const USD_TO_VND_RATE = 25800;
 
-export type Currency = "VND" | "USD";
+export type PlanPrices = Partial<Record<Currency, number>>;
+
+export interface PlanPricing {
+  price: number;
+  billingPeriodMonths: number;
+}
 
-export type SubscriptionStatus = "active" | "due" | "grace" | "expired" | "none";
+export type SubscriptionStatus =
+  | "active"
+  | "due"
+  | "grace"
+  | "expired"
+  | "paused"
+  | "none";
 
 export interface StatusInfo {
   status: SubscriptionStatus;
@@ -20,67 +46,232 @@ export interface StatusInfo {
   daysPastEnd: number | null;
 }
 
-export function computeStatus(endDate: string | null): StatusInfo {
-  const today = getTodayDateOnly();
+export function isValidStatusThreshold(value: number): boolean {
+  return (
+    Number.isInteger(value) && value >= 0 && value <= MAX_STATUS_THRESHOLD_DAYS
+  );
+}
+
+const STATUS_DISPLAY: Record<SubscriptionStatus, { className: string; label: string }> = {
+  none: { className: "bg-gray-100 border-gray-400", label: "Chưa có thanh toán" },
+  active: { className: "bg-status-active border-status-active-border", label: "Còn hạn" },
+  due: { className: "bg-status-due border-status-due-border", label: "Sắp đến hạn" },
+  grace: { className: "bg-status-grace border-status-grace-border", label: "Quá hạn (cao su)" },
+  expired: { className: "bg-status-expired border-status-expired-border", label: "Hết hạn" },
+  paused: { className: "bg-status-paused border-status-paused-border", label: "Tạm dừng" },
+};
+
+function buildStatusInfo(
+  status: SubscriptionStatus,
+  daysToEnd: number | null
+): StatusInfo {
+  return {
+    status,
+    ...STATUS_DISPLAY[status],
+    daysToEnd: daysToEnd !== null && daysToEnd >= 0 ? daysToEnd : null,
+    daysPastEnd: daysToEnd !== null && daysToEnd < 0 ? -daysToEnd : null,
+  };
+}
+
+export function computeStatus(
+  endDate: string | null,
+  thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS
+): StatusInfo {
+  const { dueSoonDays, graceDays } = thresholds;
 
   if (!endDate) {
-    return {
-      status: "none",
-      className: "bg-gray-100 border-gray-400",
-      label: "Chưa có thanh toán",
-      daysToEnd: null,
-      daysPastEnd: null,
-    };
+    return buildStatusInfo("none", null);
   }
 
-  const daysToEnd = diffDaysDateOnly(endDate, today);
-  const daysPastEnd = -daysToEnd;
+  const daysToEnd = diffDaysDateOnly(endDate, getTodayDateOnly());
 
-  if (daysToEnd > DUE_SOON_DAYS) {
-    return {
-      status: "active",
-      className: "bg-status-active border-status-active-border",
-      label: "Còn hạn",
-      daysToEnd,
-      daysPastEnd: null,
-    };
+  if (daysToEnd > dueSoonDays) {
+    return buildStatusInfo("active", daysToEnd);
   }
 
-  if (daysToEnd >= 0 && daysToEnd <= DUE_SOON_DAYS) {
+  if (daysToEnd >= 0) {
+    return buildStatusInfo("due", daysToEnd);
+  }
+
+  if (-daysToEnd <= graceDays) {
+    return buildStatusInfo("grace", daysToEnd);
+  }
+
+  return buildStatusInfo("expired", daysToEnd);
+}
+
+export type PinnableStatus = Exclude<SubscriptionStatus, "none" | "paused">;
+
+export const PINNABLE_STATUSES: readonly PinnableStatus[] = [
+  "active",
+  "due",
+  "grace",
+  "expired",
+];
+
+export interface CustomerStatusOverrides {
+  customGraceDays?: number;
+  comped?: boolean;
+  pinnedStatus?: PinnableStatus;
+  pinnedStatusUntil?: string;
+}
+
+export interface PausePeriod {
+  startDate: string;
+  endDate?: string;
+}
+
+export interface CustomerStatusContext extends CustomerStatusOverrides {
+  pausePeriods?: PausePeriod[];
+}
+
+export interface CustomerStatusInfo extends StatusInfo {
+  effectiveEndDate: string | null;
+}
+
+export function getOpenPause(
+  pausePeriods: PausePeriod[] | null | undefined
+): PausePeriod | null {
+  return pausePeriods?.find((p) => !p.endDate) || null;
+}
+
+export function isPausedOn(
+  pausePeriods: PausePeriod[] | null | undefined,
+  date: string
+): boolean {
+  return (pausePeriods || []).some(
+    (p) => p.startDate <= date && (!p.endDate || date < p.endDate)
+  );
+}
+
+export function countPausedDays(period: PausePeriod, today: string = getTodayDateOnly()): number {
+  const stop = period.endDate || today;
+  return Math.max(0, diffDaysDateOnly(stop, period.startDate));
+}
+
+export function getEffectiveEndDate(
+  coverage: { paidDate: string; periodStart?: string; endDate: string },
+  pausePeriods: PausePeriod[] | null | undefined,
+  today: string = getTodayDateOnly()
+): string {
+  const sorted = [...(pausePeriods || [])].sort((a, b) =>
+    a.startDate.localeCompare(b.startDate)
+  );
+
+  // Only pause days inside the paid period extend it; coverage may start after payment.
+  const coverageStart = coverage.periodStart ?? coverage.paidDate;
+  let endDate = coverage.endDate;
+  for (const period of sorted) {
+    const start = period.startDate > coverageStart ? period.startDate : coverageStart;
+    if (start >= endDate) continue;
+
+    const days = countPausedDays({ ...period, startDate: start }, today);
+    endDate = addDaysDateOnly(endDate, days);
+  }
+
+  return endDate;
+}
+
+export function isPinnableStatus(value: unknown): value is PinnableStatus {
+  return (
+    typeof value === "string" &&
+    (PINNABLE_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+export function getStatusLabel(status: SubscriptionStatus): string {
+  return STATUS_DISPLAY[status].label;
+}
+
+export function resolveStatusThresholds(
+  thresholds: StatusThresholds,
+  overrides: CustomerStatusOverrides | null | undefined
+): StatusThresholds {
+  return overrides?.customGraceDays !== undefined
+    ? { ...thresholds, graceDays: overrides.customGraceDays }
+    : thresholds;
+}
+
+export function isStatusPinActive(
+  overrides: CustomerStatusOverrides | null | undefined,
+  today: string = getTodayDateOnly()
+): boolean {
+  return Boolean(
+    overrides?.pinnedStatus &&
+      (!overrides.pinnedStatusUntil || today <= overrides.pinnedStatusUntil)
+  );
+}
+
+export function computeCustomerStatus(
+  latestPayment: { paidDate: string; periodStart?: string; endDate: string } | null | undefined,
+  thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS,
+  customer?: CustomerStatusContext | null
+): CustomerStatusInfo {
+  const today = getTodayDateOnly();
+  const effectiveEndDate = latestPayment
+    ? getEffectiveEndDate(latestPayment, customer?.pausePeriods, today)
+    : null;
+  const daysToEnd = effectiveEndDate
+    ? diffDaysDateOnly(effectiveEndDate, today)
+    : null;
+
+  if (customer?.pinnedStatus && isStatusPinActive(customer, today)) {
     return {
-      status: "due",
-      className: "bg-status-due border-status-due-border",
-      label: "Sắp đến hạn",
-      daysToEnd,
-      daysPastEnd: null,
+      ...buildStatusInfo(customer.pinnedStatus, daysToEnd),
+      effectiveEndDate,
     };
   }
 
-  if (daysPastEnd > 0 && daysPastEnd <= GRACE_DAYS) {
+  if (effectiveEndDate && isPausedOn(customer?.pausePeriods, today)) {
+    return { ...buildStatusInfo("paused", daysToEnd), effectiveEndDate };
+  }
+
+  if (customer?.comped) {
     return {
-      status: "grace",
-      className: "bg-status-grace border-status-grace-border",
-      label: "Quá hạn (cao su)",
-      daysToEnd: null,
-      daysPastEnd,
+      ...buildStatusInfo("active", daysToEnd),
+      label: "Miễn phí",
+      effectiveEndDate,
     };
   }
 
   return {
-    status: "expired",
-    className: "bg-status-expired border-status-expired-border",
-    label: "Hết hạn",
-    daysToEnd: null,
-    daysPastEnd,
+    ...computeStatus(
+      effectiveEndDate,
+      resolveStatusThresholds(thresholds, customer)
+    ),
+    effectiveEndDate,
   };
 }
 
+export function getPlanPricing(
+  plan: { prices: PlanPrices; billingPeriodMonths: number } | null | undefined,
+  currency: Currency
+): PlanPricing | null {
+  const price = plan?.prices[currency];
+  if (!plan || !price || price <= 0) return null;
+  return { price, billingPeriodMonths: plan.billingPeriodMonths };
+}
+
 export function calculateRecommendedMonths(
   amount: number,
-  currency: Currency
+  pricing: PlanPricing | null
 ): number {
-  if (amount <= 0) return 1;
+  const periodMonths = pricing?.billingPeriodMonths || 1;
+  if (amount <= 0 || !pricing) return periodMonths;
+
+  const periods = Math.floor(amount / pricing.price);
+  return Math.max(1, periods) * periodMonths;
+}
+
+export function getExpectedAmount(
+  months: number,
+  pricing: PlanPricing | null
+): number | null {
+  if (!pricing) return null;
+  return (pricing.price * months) / pricing.billingPeriodMonths;
+}
 
-  const basePrice = currency === "VND" ? BASE_PRICE_VND : BASE_PRICE_USD;
-  return Math.max(1, Math.floor(amount / basePrice));
+export function getAmountPresets(pricing: PlanPricing | null, count = 6): number[] {
+  if (!pricing) return [];
+  return Array.from({ length: count }, (_, i) => pricing.price * (i + 1));
 }
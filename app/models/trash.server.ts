@@ -0,0 +1,37 @@
+import type { WriteOptions } from "~/models/audit.server";
+import { listTrashedCustomers, purgeCustomer } from "~/models/customer.server";
+import { listTrashedPayments, purgePayment } from "~/models/payment.server";
+
+export const TRASH_RETENTION_DAYS =
+  Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export function getTrashPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export async function purgeExpiredTrash(
+  options: WriteOptions = {},
+  now: Date = new Date()
+): Promise<{ customers: number; payments: number }> {
+  const purged = { customers: 0, payments: 0 };
+
+  const customers = await listTrashedCustomers();
+  for (const customer of customers) {
+    if (customer.deletedAt && getTrashPurgeDate(customer.deletedAt) <= now) {
+      if (await purgeCustomer(customer._id.toString(), options)) {
+        purged.customers++;
+      }
+    }
+  }
+
+  const payments = await listTrashedPayments();
+  for (const payment of payments) {
+    if (payment.deletedAt && getTrashPurgeDate(payment.deletedAt) <= now) {
+      if (await purgePayment(payment._id.toString(), options)) {
+        purged.payments++;
+      }
+    }
+  }
+
+  return purged;
+}
@@ -0,0 +1,344 @@
+import { ObjectId } from "mongodb";
+import { randomBytes } from "node:crypto";
+import { getDb } from "~/utils/db.server";
+import type { WriteOptions } from "~/models/audit.server";
+import type { WebhookDeliveryStatus, WebhookEvent } from "~/models/webhookEvents";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from "~/utils/webhookSignature.server";
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const WEBHOOK_LOCK_MS = 60_000;
+const WEBHOOK_BASE_DELAY_MS = 30_000;
+const WEBHOOK_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export interface WebhookEndpoint {
+  _id: ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  _id: ObjectId;
+  endpointId: ObjectId;
+  url: string;
+  event: WebhookEvent | "ping";
+  customerId?: ObjectId;
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(WEBHOOK_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), WEBHOOK_MAX_DELAY_MS);
+}
+
+export async function createWebhookEndpoint(input: {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+}): Promise<WebhookEndpoint> {
+  const db = await getDb();
+  const collection = db.collection<WebhookEndpoint>("webhook_endpoints");
+
+  const now = new Date();
+  const endpoint: Omit<WebhookEndpoint, "_id"> = {
+    url: input.url.trim(),
+    description: input.description?.trim() || undefined,
+    events: input.events,
+    secret: `whsec_${randomBytes(24).toString("base64url")}`,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const result = await collection.insertOne(endpoint as WebhookEndpoint);
+  return { _id: result.insertedId, ...endpoint } as WebhookEndpoint;
+}
+
+export async function listWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  const db = await getDb();
+  const collection = db.collection<WebhookEndpoint>("webhook_endpoints");
+
+  return collection.find({}).sort({ createdAt: 1 }).toArray();
+}
+
+export async function setWebhookEndpointActive(
+  id: string,
+  active: boolean
+): Promise<WebhookEndpoint | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<WebhookEndpoint>("webhook_endpoints");
+
+  return collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    { $set: { active, updatedAt: new Date() } },
+    { returnDocument: "after" }
+  );
+}
+
+export async function deleteWebhookEndpoint(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const db = await getDb();
+  const endpointId = new ObjectId(id);
+
+  const result = await db
+    .collection<WebhookEndpoint>("webhook_endpoints")
+    .deleteOne({ _id: endpointId });
+  await db.collection<WebhookDelivery>("webhook_deliveries").updateMany(
+    { endpointId, status: "pending" },
+    { $set: { status: "failed", lastError: "Endpoint đã bị xóa" }, $unset: { lockedUntil: "" } }
+  );
+
+  return result.deletedCount > 0;
+}
+
+export interface WebhookEventOptions extends WriteOptions {
+  customerId?: ObjectId;
+}
+
+function buildDelivery(
+  endpoint: WebhookEndpoint,
+  event: WebhookEvent | "ping",
+  data: unknown,
+  now: Date,
+  customerId?: ObjectId
+): WebhookDelivery {
+  const _id = new ObjectId();
+  return {
+    _id,
+    endpointId: endpoint._id,
+    url: endpoint.url,
+    event,
+    ...(customerId ? { customerId } : {}),
+    body: JSON.stringify({
+      id: _id.toString(),
+      event,
+      createdAt: now.toISOString(),
+      data,
+    }),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  };
+}
+
+// Deliveries are written in the caller's session, so an event is only queued when the
+// change that produced it commits.
+export async function enqueueWebhookEvent(
+  event: WebhookEvent,
+  data: unknown,
+  options: WebhookEventOptions = {}
+): Promise<number> {
+  const db = await getDb();
+  const endpoints = await db
+    .collection<WebhookEndpoint>("webhook_endpoints")
+    .find({ active: true, events: event }, { session: options.session })
+    .toArray();
+  if (endpoints.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  await db
+    .collection<WebhookDelivery>("webhook_deliveries")
+    .insertMany(
+      endpoints.map((endpoint) => buildDelivery(endpoint, event, data, now, options.customerId)),
+      { session: options.session }
+    );
+  return endpoints.length;
+}
+
+// Drops the queued events of customers that are removed as if they never existed, such as
+// those of a failed import.
+export async function deletePendingWebhookDeliveries(customerIds: ObjectId[]): Promise<number> {
+  if (customerIds.length === 0) {
+    return 0;
+  }
+
+  const db = await getDb();
+  const result = await db
+    .collection<WebhookDelivery>("webhook_deliveries")
+    .deleteMany({ customerId: { $in: customerIds }, status: "pending" });
+  return result.deletedCount;
+}
+
+export async function enqueueWebhookPing(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const db = await getDb();
+  const endpoint = await db
+    .collection<WebhookEndpoint>("webhook_endpoints")
+    .findOne({ _id: new ObjectId(id) });
+  if (!endpoint) {
+    return false;
+  }
+
+  const now = new Date();
+  await db
+    .collection<WebhookDelivery>("webhook_deliveries")
+    .insertOne(buildDelivery(endpoint, "ping", { message: "Kana Box V2 webhook test" }, now));
+  return true;
+}
+
+export async function listWebhookDeliveries(limit = 50): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  const collection = db.collection<WebhookDelivery>("webhook_deliveries");
+
+  return collection.find({}).sort({ createdAt: -1 }).limit(limit).toArray();
+}
+
+export async function retryWebhookDelivery(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) {
+    return false;
+  }
+
+  const db = await getDb();
+  const collection = db.collection<WebhookDelivery>("webhook_deliveries");
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(id), status: "failed" },
+    {
+      $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+      $unset: { lockedUntil: "" },
+    }
+  );
+  return result.modifiedCount > 0;
+}
+
+async function claimDueDelivery(now: Date): Promise<WebhookDelivery | null> {
+  const db = await getDb();
+  const collection = db.collection<WebhookDelivery>("webhook_deliveries");
+
+  return collection.findOneAndUpdate(
+    {
+      status: "pending",
+      nextAttemptAt: { $lte: now },
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + WEBHOOK_LOCK_MS) } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: "after" }
+  );
+}
+
+async function sendDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<{ ok: boolean; responseStatus?: number; error?: string }> {
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "KanaBoxV2-Webhooks",
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery._id.toString(),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, delivery.body),
+      },
+      body: delivery.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+
+    return response.ok
+      ? { ok: true, responseStatus: response.status }
+      : { ok: false, responseStatus: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function deliverDueWebhooks(
+  options: { limit?: number } = {},
+  now: () => Date = () => new Date()
+): Promise<{ succeeded: number; retrying: number; failed: number }> {
+  const db = await getDb();
+  const deliveries = db.collection<WebhookDelivery>("webhook_deliveries");
+  const endpoints = db.collection<WebhookEndpoint>("webhook_endpoints");
+  const summary = { succeeded: 0, retrying: 0, failed: 0 };
+  const limit = options.limit ?? 100;
+
+  for (let processed = 0; processed < limit; processed++) {
+    const delivery = await claimDueDelivery(now());
+    if (!delivery) {
+      break;
+    }
+
+    const endpoint = await endpoints.findOne({ _id: delivery.endpointId });
+    const attempts = delivery.attempts + 1;
+    const result =
+      endpoint && endpoint.active
+        ? await sendDelivery(delivery, endpoint)
+        : { ok: false, error: "Endpoint đã tắt hoặc bị xóa" };
+    const attemptedAt = now();
+
+    let status: WebhookDeliveryStatus = "pending";
+    if (result.ok) {
+      status = "succeeded";
+      summary.succeeded++;
+    } else if (!endpoint || !endpoint.active || attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      status = "failed";
+      summary.failed++;
+    } else {
+      summary.retrying++;
+    }
+
+    await deliveries.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status,
+          attempts,
+          lastAttemptAt: attemptedAt,
+          nextAttemptAt: new Date(attemptedAt.getTime() + getWebhookRetryDelayMs(attempts)),
+          ...(result.responseStatus !== undefined ? { responseStatus: result.responseStatus } : {}),
+          ...(result.ok ? { deliveredAt: attemptedAt } : { lastError: result.error }),
+        },
+        $unset: {
+          lockedUntil: "",
+          ...(result.ok ? { lastError: "" } : {}),
+          ...(result.responseStatus === undefined ? { responseStatus: "" } : {}),
+        },
+      }
+    );
+  }
+
+  return summary;
+}
@@ -0,0 +1,44 @@
+export type WebhookEvent =
+  | "customer.created"
+  | "customer.hidden"
+  | "renewal.cancelled"
+  | "status.changed"
+  | "payment.created"
+  | "payment.updated"
+  | "payment.deleted"
+  | "payment.restored";
+
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = [
+  "customer.created",
+  "customer.hidden",
+  "renewal.cancelled",
+  "status.changed",
+  "payment.created",
+  "payment.updated",
+  "payment.deleted",
+  "payment.restored",
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent | "ping", string> = {
+  "customer.created": "Tạo thành viên",
+  "customer.hidden": "Ẩn công khai",
+  "renewal.cancelled": "Hủy gia hạn",
+  "status.changed": "Đổi trạng thái",
+  "payment.created": "Thêm thanh toán",
+  "payment.updated": "Sửa thanh toán",
+  "payment.deleted": "Xóa thanh toán",
+  "payment.restored": "Khôi phục thanh toán",
+  ping: "Gửi thử",
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: "Đang chờ",
+  succeeded: "Thành công",
+  failed: "Thất bại",
+};
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
@@ -4,17 +4,42 @@ import { json, useLoaderData, Link } from "@remix-run/react";
 import { useState } from "react";
 import { listCustomers, countCustomers } from "~/models/customer.server";
 import {
-  computeStatus,
   listPaymentsForRevenueWindow,
+  listPaymentsCoveringWindow,
+  listPaymentsForDeferredRevenue,
+  listPaymentsByIds,
   computeMonthlyTotals,
-  listLatestPaymentsForAllCustomers,
+  computeRecognizedMonthlyTotals,
+  computeDeferredRevenue,
+  listPaymentsByCustomer,
+  getEarliestPaidDate,
+  type MonthlyTotals,
 } from "~/models/payment.server";
+import { listRefundsForPayments, listRefundsForWindow } from "~/models/refund.server";
+import {
+  listOutstandingBalances,
+  type CurrencyBalances,
+} from "~/models/balance.server";
+import { getExchangeRateTable } from "~/models/exchangeRate.server";
+import { getSettings } from "~/models/settings.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import { computeCustomerStatus } from "~/models/subscriptionStatus";
 import {
   getRevenueBucketRange,
   getMonthBucket,
+  getMonthBucketsBetween,
   getTodayDateOnly,
 } from "~/utils/date";
+import {
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  roundMoney,
+  type Currency,
+} from "~/utils/currency";
 import CustomerTable from "~/components/CustomerTable";
+import { useAdmin } from "~/utils/admin";
+import { requireAdmin } from "~/utils/session.server";
 
 export const meta: MetaFunction = () => [
   { title: "Bảng điều khiển (Quản trị) - Kana Box V2" },
@@ -22,32 +47,13 @@ export const meta: MetaFunction = () => [
 
 interface MonthlyTotal {
   month: string;
-  vnd: number;
-  usd: number;
+  byCurrency: Partial<Record<Currency, number>>;
   convertedVnd: number;
-}
-
-function generateMonthBuckets(startBucket: string, endBucket: string): string[] {
-  const buckets: string[] = [];
-  const [startYear, startMonth] = startBucket.split("-").map(Number);
-  const [endYear, endMonth] = endBucket.split("-").map(Number);
-
-  let y = startYear;
-  let m = startMonth;
-
-  while (y < endYear || (y === endYear && m <= endMonth)) {
-    buckets.push(`${y}-${String(m).padStart(2, "0")}`);
-    m++;
-    if (m > 12) {
-      m = 1;
-      y++;
-    }
-  }
-
-  return buckets;
+  missingRates: Currency[];
 }
 
 export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdmin(request);
   const totalCustomers = await countCustomers();
   const customers = await listCustomers();
   const statusCounts = {
@@ -55,12 +61,24 @@ export async function loader({ request }: LoaderFunctionArgs) {
     due: 0,
     grace: 0,
     expired: 0,
+    paused: 0,
     none: 0,
   };
-  const latestPaymentsMap = await listLatestPaymentsForAllCustomers();
+  const [paymentsByCustomer, settings, earliestPaidDate, balancesByCustomer] =
+    await Promise.all([
+      listPaymentsByCustomer(),
+      getSettings(),
+      getEarliestPaidDate(),
+      listOutstandingBalances(),
+    ]);
   const customersWithStatus = customers.map((customer) => {
-    const latestPayment = latestPaymentsMap.get(customer._id.toString());
-    const status = computeStatus(latestPayment?.endDate || null);
+    const payments = paymentsByCustomer.get(customer._id.toString()) || [];
+    const latestPayment = payments[0];
+    const status = computeCustomerStatus(
+      getCurrentCoverage(buildCoverageTimeline(payments)),
+      settings,
+      customer
+    );
     statusCounts[status.status]++;
     return {
       customer: {
@@ -73,7 +91,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
         ? {
           _id: latestPayment._id.toString(),
           paidDate: latestPayment.paidDate,
-          endDate: latestPayment.endDate,
+          endDate: status.effectiveEndDate || latestPayment.endDate,
           currency: latestPayment.currency,
           amount: latestPayment.amount,
           months: latestPayment.months,
@@ -84,34 +102,127 @@ export async function loader({ request }: LoaderFunctionArgs) {
     };
   });
 
-  const FIXED_START_BUCKET = "2026-02";
+  const cycleStartDay = settings.revenueCycleStartDay;
   const today = getTodayDateOnly();
-  const currentBucket = getMonthBucket(today);
+  const currentBucket = getMonthBucket(today, cycleStartDay);
 
-  const monthBuckets = generateMonthBuckets(FIXED_START_BUCKET, currentBucket);
+  const configuredStart =
+    settings.reportingStartMonth ||
+    (earliestPaidDate
+      ? getMonthBucket(earliestPaidDate, cycleStartDay)
+      : currentBucket);
+  const startBucket =
+    configuredStart < currentBucket ? configuredStart : currentBucket;
 
-  const firstRange = getRevenueBucketRange(monthBuckets[0]);
-  const lastRange = getRevenueBucketRange(monthBuckets[monthBuckets.length - 1]);
+  const monthBuckets = getMonthBucketsBetween(startBucket, currentBucket);
 
-  const paymentsInWindow = await listPaymentsForRevenueWindow(
-    firstRange.start,
-    lastRange.end
+  const firstRange = getRevenueBucketRange(monthBuckets[0], cycleStartDay);
+  const lastRange = getRevenueBucketRange(
+    monthBuckets[monthBuckets.length - 1],
+    cycleStartDay
   );
 
-  const monthlyMap = computeMonthlyTotals(paymentsInWindow, monthBuckets);
-  const monthlyTotals: MonthlyTotal[] = monthBuckets.map((month) => {
-    const totals = monthlyMap.get(month) || { VND: 0, USD: 0, convertedVnd: 0 };
-    return {
-      month,
-      vnd: totals.VND,
-      usd: totals.USD,
-      convertedVnd: totals.convertedVnd,
-    };
-  });
+  const [paymentsInWindow, paymentsCoveringWindow, refundsInWindow, exchangeRates] =
+    await Promise.all([
+      listPaymentsForRevenueWindow(firstRange.start, lastRange.end),
+      listPaymentsCoveringWindow(firstRange.start, lastRange.end),
+      listRefundsForWindow(firstRange.start, lastRange.end),
+      getExchangeRateTable(),
+    ]);
+
+  const toMonthlyTotals = (monthlyMap: Map<string, MonthlyTotals>) =>
+    monthBuckets.map((month): MonthlyTotal => {
+      const totals = monthlyMap.get(month);
+      return {
+        month,
+        byCurrency: totals?.byCurrency || {},
+        convertedVnd: totals?.convertedVnd || 0,
+        missingRates: totals?.missingRates || [],
+      };
+    });
+
+  const monthlyTotals = toMonthlyTotals(
+    computeMonthlyTotals(
+      paymentsInWindow,
+      monthBuckets,
+      exchangeRates,
+      cycleStartDay,
+      refundsInWindow
+    )
+  );
+  // Refunds are taken out of their payment's months, so a payment refunded in the window is
+  // needed even when its coverage ended before it.
+  const coveringIds = new Set(paymentsCoveringWindow.map((payment) => payment._id.toString()));
+  const recognizedPayments = [
+    ...paymentsCoveringWindow,
+    ...(await listPaymentsByIds(
+      refundsInWindow
+        .map((refund) => refund.paymentId)
+        .filter((paymentId) => !coveringIds.has(paymentId.toString()))
+    )),
+  ];
+  const recognizedRefunds = await listRefundsForPayments(
+    recognizedPayments.map((payment) => payment._id),
+    today
+  );
+  const recognizedTotals = toMonthlyTotals(
+    computeRecognizedMonthlyTotals(
+      recognizedPayments,
+      monthBuckets,
+      exchangeRates,
+      cycleStartDay,
+      recognizedRefunds
+    )
+  );
+  const deferredPayments = await listPaymentsForDeferredRevenue(today);
+  const deferredRefunds = await listRefundsForPayments(
+    deferredPayments.map((payment) => payment._id),
+    today
+  );
+  const deferredRevenue = computeDeferredRevenue(
+    deferredPayments,
+    today,
+    exchangeRates,
+    cycleStartDay,
+    deferredRefunds
+  );
+
+  const revenueCurrencies = CURRENCY_CODES.filter(
+    (currency) =>
+      currency === DEFAULT_CURRENCY ||
+      [...monthlyTotals, ...recognizedTotals].some(
+        (month) => (month.byCurrency[currency] || 0) !== 0
+      )
+  );
+  const outstanding = {
+    credit: {} as CurrencyBalances,
+    debt: {} as CurrencyBalances,
+    customersWithDebt: 0,
+  };
+  for (const balances of balancesByCustomer.values()) {
+    let hasDebt = false;
+    for (const currency of CURRENCY_CODES) {
+      const amount = balances[currency] || 0;
+      const bucket = amount > 0 ? outstanding.credit : outstanding.debt;
+      if (amount !== 0) {
+        bucket[currency] = roundMoney((bucket[currency] || 0) + Math.abs(amount), currency);
+        hasDebt = hasDebt || amount < 0;
+      }
+    }
+    if (hasDebt) {
+      outstanding.customersWithDebt++;
+    }
+  }
+
   return json({
     totalCustomers,
     statusCounts,
     monthlyTotals,
+    recognizedTotals,
+    deferredRevenue,
+    revenueCurrencies,
+    outstanding,
+    cycleStartDay,
     customers: customersWithStatus,
   });
 }
@@ -148,6 +259,13 @@ function StatusCard({
   );
 }
 
+type RevenueBasis = "cash" | "accrual";
+
+const REVENUE_BASIS_OPTIONS: Array<{ value: RevenueBasis; label: string }> = [
+  { value: "cash", label: "Thực thu" },
+  { value: "accrual", label: "Ghi nhận" },
+];
+
 function formatMonth(monthBucket: string): string {
   const [year, month] = monthBucket.split("-");
   return `Tháng ${parseInt(month, 10)}/${year}`;
@@ -158,10 +276,28 @@ export default function AdminDashboard() {
     totalCustomers,
     statusCounts,
     monthlyTotals,
+    recognizedTotals,
+    deferredRevenue,
+    revenueCurrencies,
+    outstanding,
+    cycleStartDay,
     customers,
   } = useLoaderData<typeof loader>();
+  const { can } = useAdmin();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [revenueBasis, setRevenueBasis] = useState<RevenueBasis>("cash");
+
+  const displayedTotals =
+    revenueBasis === "accrual" ? recognizedTotals : monthlyTotals;
+  const deferredCurrencies = revenueCurrencies.filter(
+    (currency) => (deferredRevenue.byCurrency[currency] || 0) > 0
+  );
+
+  const formatBalances = (balances: CurrencyBalances) =>
+    CURRENCY_CODES.filter((currency) => balances[currency])
+      .map((currency) => formatMoney(balances[currency] || 0, currency))
+      .join(" + ") || formatMoney(0, DEFAULT_CURRENCY);
 
   const filteredCustomers = customers.filter((item) => {
     const matchesSearch = item.customer.name.toLowerCase().includes(searchTerm.toLowerCase());
@@ -179,7 +315,7 @@ export default function AdminDashboard() {
           Quản lý đăng ký và xem báo cáo doanh thu
         </p>
       </div>
-      <div className="grid grid-cols-2 gap-3 sm:gap-5 lg:grid-cols-5">
+      <div className="grid grid-cols-2 gap-3 sm:gap-5 lg:grid-cols-6">
         <StatusCard
           title="Tổng số thành viên"
           count={totalCustomers}
@@ -225,6 +361,15 @@ export default function AdminDashboard() {
           onClick={() => setStatusFilter(statusFilter === "expired" ? null : "expired")}
           isSelected={statusFilter === "expired"}
         />
+        <StatusCard
+          title="Tạm dừng"
+          count={statusCounts.paused}
+          bgClass="bg-sky-100"
+          borderClass="border-sky-600"
+          textClass="text-sky-900"
+          onClick={() => setStatusFilter(statusFilter === "paused" ? null : "paused")}
+          isSelected={statusFilter === "paused"}
+        />
       </div>
       <div>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
@@ -239,12 +384,14 @@ export default function AdminDashboard() {
               placeholder="Tìm kiếm..."
               className="block w-full sm:w-48 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
             />
-            <Link
-              to="/826264/customers/new"
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 whitespace-nowrap"
-            >
-              Thêm thành viên
-            </Link>
+            {can("customer.create") && (
+              <Link
+                to="/826264/customers/new"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 whitespace-nowrap"
+              >
+                Thêm thành viên
+              </Link>
+            )}
           </div>
         </div>
         <div className="overflow-x-auto -mx-4 sm:mx-0">
@@ -258,12 +405,70 @@ export default function AdminDashboard() {
         </div>
       </div>
       <div className="bg-white shadow rounded-lg">
-        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
-          <h2 className="text-lg font-medium text-gray-900">
-            Doanh thu theo tháng
-          </h2>
-          <p className="mt-1 text-sm text-gray-500">
-            Doanh thu tính theo chu kỳ ngày 6 đến ngày 5 tháng sau
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              Doanh thu theo tháng
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              {revenueBasis === "accrual"
+                ? "Doanh thu ghi nhận chia đều số tiền cho từng tháng sử dụng"
+                : `Doanh thu tính theo chu kỳ bắt đầu từ ngày ${cycleStartDay} mỗi tháng`}
+            </p>
+          </div>
+          <div className="inline-flex rounded-md shadow-sm">
+            {REVENUE_BASIS_OPTIONS.map((option, index) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setRevenueBasis(option.value)}
+                className={`px-4 py-2 text-sm font-medium border border-gray-300 ${index === 0 ? "rounded-l-md" : "-ml-px rounded-r-md"
+                  } ${revenueBasis === option.value
+                    ? "bg-blue-600 text-white border-blue-600"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <p className="text-sm text-gray-600">
+            Doanh thu chưa thực hiện (đã thu, chưa đến tháng sử dụng):{" "}
+            <span className="font-medium text-blue-700">
+              {formatMoney(deferredRevenue.convertedVnd, "VND")}
+            </span>
+            {deferredCurrencies.length > 0 && (
+              <span className="text-gray-500">
+                {" "}
+                ({deferredCurrencies
+                  .map((currency) =>
+                    formatMoney(deferredRevenue.byCurrency[currency] || 0, currency)
+                  )
+                  .join(" + ")})
+              </span>
+            )}
+          </p>
+          {deferredRevenue.missingRates.length > 0 && (
+            <p className="mt-1 text-xs text-orange-600">
+              Thiếu tỷ giá: {deferredRevenue.missingRates.join(", ")}
+            </p>
+          )}
+          <p className="mt-1 text-sm text-gray-600">
+            Công nợ chưa thu:{" "}
+            <span className="font-medium text-red-700">
+              {formatBalances(outstanding.debt)}
+            </span>
+            {outstanding.customersWithDebt > 0 && (
+              <span className="text-gray-500">
+                {" "}({outstanding.customersWithDebt} thành viên)
+              </span>
+            )}
+            {" · "}Tín dụng còn lại:{" "}
+            <span className="font-medium text-green-700">
+              {formatBalances(outstanding.credit)}
+            </span>
           </p>
         </div>
         <div className="p-4 sm:p-6">
@@ -276,35 +481,45 @@ export default function AdminDashboard() {
                       <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Tháng
                       </th>
-                      <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Tổng VND
-                      </th>
-                      <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Tổng USD
-                      </th>
+                      {revenueCurrencies.map((currency) => (
+                        <th
+                          key={currency}
+                          className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          Tổng {currency}
+                        </th>
+                      ))}
                       <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Tổng VND (Quy đổi)
                       </th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 bg-white">
-                    {monthlyTotals.map((month) => (
+                    {displayedTotals.map((month) => (
                       <tr key={month.month}>
                         <td className="px-4 sm:px-6 py-4 text-sm font-medium whitespace-nowrap">
                           {formatMonth(month.month)}
                         </td>
-                        <td className="px-4 sm:px-6 py-4 text-sm text-right whitespace-nowrap">
-                          {month.vnd > 0
-                            ? `${month.vnd.toLocaleString("vi-VN")} ₫`
-                            : "-"}
-                        </td>
-                        <td className="px-4 sm:px-6 py-4 text-sm text-right whitespace-nowrap">
-                          {month.usd > 0 ? `$${month.usd.toFixed(2)}` : "-"}
-                        </td>
+                        {revenueCurrencies.map((currency) => {
+                          const amount = month.byCurrency[currency] || 0;
+                          return (
+                            <td
+                              key={currency}
+                              className="px-4 sm:px-6 py-4 text-sm text-right whitespace-nowrap"
+                            >
+                              {amount > 0 ? formatMoney(amount, currency) : "-"}
+                            </td>
+                          );
+                        })}
                         <td className="px-4 sm:px-6 py-4 text-sm text-right font-medium text-blue-700 whitespace-nowrap">
                           {month.convertedVnd > 0
-                            ? `${month.convertedVnd.toLocaleString("vi-VN")} ₫`
+                            ? formatMoney(month.convertedVnd, "VND")
                             : "-"}
+                          {month.missingRates.length > 0 && (
+                            <p className="text-xs font-normal text-orange-600">
+                              Thiếu tỷ giá: {month.missingRates.join(", ")}
+                            </p>
+                          )}
                         </td>
                       </tr>
                     ))}
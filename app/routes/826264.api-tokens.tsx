@@ -0,0 +1,315 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+} from "~/models/apiToken.server";
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_LABELS,
+  isApiTokenScope,
+} from "~/models/apiTokenScopes";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "API token - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  errors?: {
+    name?: string;
+    scope?: string;
+    form?: string;
+  };
+  values?: {
+    name: string;
+    scope: string;
+  };
+  created?: {
+    name: string;
+    secret: string;
+  };
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "apiToken.manage");
+  const tokens = await listApiTokens();
+
+  return json({
+    tokens: tokens.map((token) => ({
+      _id: token._id.toString(),
+      name: token.name,
+      scope: token.scope,
+      tokenHint: token.tokenHint,
+      username: token.username,
+      createdAt: token.createdAt.toISOString(),
+      lastUsedAt: token.lastUsedAt ? token.lastUsedAt.toISOString() : null,
+      revokedAt: token.revokedAt ? token.revokedAt.toISOString() : null,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "apiToken.manage");
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  if (intent === "revoke") {
+    const tokenId = String(formData.get("tokenId") || "");
+    if (!(await revokeApiToken(tokenId))) {
+      return json<ActionData>(
+        { errors: { form: "Không tìm thấy token hoặc token đã bị thu hồi" } },
+        { status: 404 }
+      );
+    }
+    return redirect("/826264/api-tokens");
+  }
+
+  if (intent === "create") {
+    const name = String(formData.get("name") || "").trim();
+    const scope = String(formData.get("scope") || "");
+
+    const errors: ActionData["errors"] = {};
+
+    if (!name) {
+      errors.name = "Tên token là bắt buộc";
+    } else if (name.length > 60) {
+      errors.name = "Tên token tối đa 60 ký tự";
+    }
+
+    if (!isApiTokenScope(scope)) {
+      errors.scope = "Phạm vi không hợp lệ";
+    }
+
+    if (Object.keys(errors).length > 0 || !isApiTokenScope(scope)) {
+      return json<ActionData>(
+        { errors, values: { name, scope } },
+        { status: 400 }
+      );
+    }
+
+    const { token, secret } = await createApiToken({ name, scope }, user);
+    return json<ActionData>({ created: { name: token.name, secret } });
+  }
+
+  return redirect("/826264/api-tokens");
+}
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString("vi-VN") : "-";
+}
+
+export default function AdminApiTokens() {
+  const { tokens } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          API token
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Gửi kèm header <code>Authorization: Bearer &lt;token&gt;</code> khi gọi{" "}
+          <code>/api/v1</code> hoặc tải CSV/PDF. Token mang quyền của người tạo; token chỉ
+          đọc chỉ dùng được với GET.
+        </p>
+      </div>
+
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.errors.form}</p>
+        </div>
+      )}
+
+      {actionData?.created && (
+        <div className="rounded-md bg-green-50 p-4 space-y-2">
+          <p className="text-sm text-green-800">
+            Đã tạo token <strong>{actionData.created.name}</strong>. Hãy sao chép ngay, token
+            sẽ không hiển thị lại.
+          </p>
+          <input
+            type="text"
+            readOnly
+            value={actionData.created.secret}
+            onFocus={(event) => event.currentTarget.select()}
+            className="block w-full rounded-md border-gray-300 bg-white font-mono text-sm"
+          />
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {tokens.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Chưa có token nào.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tên
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Phạm vi
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Người tạo
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tạo lúc
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Dùng gần nhất
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Trạng thái
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {tokens.map((token) => (
+                <tr key={token._id} className={token.revokedAt ? "opacity-60" : undefined}>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {token.name}
+                    <span className="ml-2 font-mono text-xs text-gray-400">
+                      …{token.tokenHint}
+                    </span>
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {API_TOKEN_SCOPE_LABELS[token.scope]}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {token.username}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDateTime(token.createdAt)}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDateTime(token.lastUsedAt)}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                    {token.revokedAt ? (
+                      <span className="text-gray-500">
+                        Đã thu hồi {formatDateTime(token.revokedAt)}
+                      </span>
+                    ) : (
+                      <Form
+                        method="post"
+                        className="inline"
+                        onSubmit={(event) => {
+                          if (!confirm(`Thu hồi token "${token.name}"?`)) {
+                            event.preventDefault();
+                          }
+                        }}
+                      >
+                        <input type="hidden" name="intent" value="revoke" />
+                        <input type="hidden" name="tokenId" value={token._id} />
+                        <button
+                          type="submit"
+                          className="text-red-600 hover:text-red-900 font-medium"
+                        >
+                          Thu hồi
+                        </button>
+                      </Form>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg max-w-2xl">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Tạo token</h2>
+        </div>
+        <Form method="post" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value="create" />
+
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tên <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              name="name"
+              id="name"
+              autoComplete="off"
+              maxLength={60}
+              defaultValue={actionData?.values?.name || ""}
+              placeholder="Bot Discord"
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.name ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.name && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.name}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="scope"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Phạm vi <span className="text-red-500">*</span>
+            </label>
+            <select
+              name="scope"
+              id="scope"
+              defaultValue={actionData?.values?.scope || "read"}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              required
+            >
+              {API_TOKEN_SCOPES.map((scope) => (
+                <option key={scope} value={scope}>
+                  {API_TOKEN_SCOPE_LABELS[scope]}
+                </option>
+              ))}
+            </select>
+            {actionData?.errors?.scope && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.scope}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Tạo token
+            </button>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, useLoaderData, Form, Link } from "@remix-run/react";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  isAuditAction,
+  listAuditEvents,
+  summarizeAuditChanges,
+} from "~/models/audit.server";
+import { listAdminUsers } from "~/models/adminUser.server";
+import { listCustomers } from "~/models/customer.server";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Nhật ký thay đổi - Quản trị - Kana Box V2" },
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "audit.view");
+
+  const url = new URL(request.url);
+  const customerId = url.searchParams.get("customerId") || "";
+  const actor = url.searchParams.get("actor") || "";
+  const actionParam = url.searchParams.get("action") || "";
+  const action = isAuditAction(actionParam) ? actionParam : undefined;
+
+  const [events, customers, operators] = await Promise.all([
+    listAuditEvents({
+      customerId: customerId || undefined,
+      actorUsername: actor || undefined,
+      action,
+    }),
+    listCustomers(),
+    listAdminUsers(),
+  ]);
+
+  const customerNames = new Map(
+    customers.map((c) => [c._id.toString(), c.displayName])
+  );
+
+  return json({
+    filters: {
+      customerId,
+      actor,
+      action: action || "",
+    },
+    customers: customers.map((c) => ({
+      _id: c._id.toString(),
+      name: c.displayName,
+    })),
+    actors: operators.map((u) => u.username),
+    actions: AUDIT_ACTIONS.map((a) => ({ value: a, label: AUDIT_ACTION_LABELS[a] })),
+    events: events.map((event) => {
+      const snapshot = event.after || event.before || {};
+      const customerId = event.customerId.toString();
+      const snapshotName =
+        event.entityType === "customer" && typeof snapshot.displayName === "string"
+          ? snapshot.displayName
+          : null;
+
+      return {
+        _id: event._id.toString(),
+        createdAt: event.createdAt.toISOString(),
+        action: event.action,
+        actionLabel: AUDIT_ACTION_LABELS[event.action],
+        actor: event.actor?.username || null,
+        customerId,
+        customerName: customerNames.get(customerId) || snapshotName,
+        customerExists: customerNames.has(customerId),
+        changes: summarizeAuditChanges(event),
+      };
+    }),
+  });
+}
+
+export default function AdminAuditLog() {
+  const { filters, customers, actors, actions, events } =
+    useLoaderData<typeof loader>();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Nhật ký thay đổi
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Mọi thay đổi với thành viên và thanh toán (200 mục gần nhất)
+        </p>
+      </div>
+
+      <Form
+        method="get"
+        className="bg-white shadow rounded-lg p-4 grid grid-cols-1 gap-3 sm:grid-cols-4 sm:items-end"
+      >
+        <div>
+          <label htmlFor="customerId" className="block text-sm font-medium text-gray-700">
+            Thành viên
+          </label>
+          <select
+            name="customerId"
+            id="customerId"
+            defaultValue={filters.customerId}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            <option value="">Tất cả</option>
+            {customers.map((c) => (
+              <option key={c._id} value={c._id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="actor" className="block text-sm font-medium text-gray-700">
+            Người thực hiện
+          </label>
+          <select
+            name="actor"
+            id="actor"
+            defaultValue={filters.actor}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            <option value="">Tất cả</option>
+            {actors.map((username) => (
+              <option key={username} value={username}>
+                {username}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="action" className="block text-sm font-medium text-gray-700">
+            Thao tác
+          </label>
+          <select
+            name="action"
+            id="action"
+            defaultValue={filters.action}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          >
+            <option value="">Tất cả</option>
+            {actions.map((a) => (
+              <option key={a.value} value={a.value}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Lọc
+          </button>
+          <Link
+            to="/826264/audit"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Xóa lọc
+          </Link>
+        </div>
+      </Form>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {events.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Không có thay đổi nào
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thời gian
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Người thực hiện
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thao tác
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thành viên
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thay đổi
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {events.map((event) => (
+                <tr key={event._id}>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(event.createdAt).toLocaleString("vi-VN")}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {event.actor || <span className="text-gray-400">-</span>}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {event.actionLabel}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                    {event.customerExists ? (
+                      <Link
+                        to={`/826264/customers/${event.customerId}`}
+                        className="text-blue-600 hover:text-blue-900 font-medium"
+                      >
+                        {event.customerName}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-500">
+                        {event.customerName || event.customerId}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 text-xs text-gray-600">
+                    {event.changes.length === 0 ? (
+                      <span className="text-gray-400">-</span>
+                    ) : (
+                      <ul className="space-y-0.5 font-mono break-all">
+                        {event.changes.map((change) => (
+                          <li key={change}>{change}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,15 @@ import type {
   MetaFunction,
 } from "@remix-run/node";
 import { redirect, json, useLoaderData, useActionData, Form, Link } from "@remix-run/react";
+import {
+  MAX_STATUS_THRESHOLD_DAYS,
+  PINNABLE_STATUSES,
+  getStatusLabel,
+  isPinnableStatus,
+  isValidStatusThreshold,
+} from "~/models/subscriptionStatus";
+import { isValidDateOnly } from "~/utils/date";
+import { validateDisplayName, validateEmail } from "~/utils/validation";
 
 function isDuplicateDisplayNameError(error: unknown): boolean {
   return (
@@ -23,17 +32,29 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => [
 interface ActionData {
   errors?: {
     displayName?: string;
+    email?: string;
+    customGraceDays?: string;
+    pinnedStatusUntil?: string;
     form?: string;
   };
   values?: {
     displayName: string;
     note: string;
+    email: string;
+    customGraceDays: string;
+    comped: boolean;
+    pinnedStatus: string;
+    pinnedStatusUntil: string;
   };
 }
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ request, params }: LoaderFunctionArgs) {
   const { ObjectId } = await import("mongodb");
   const { getCustomerById } = await import("../models/customer.server");
+  const { getStatusThresholds } = await import("../models/settings.server");
+  const { requirePermission } = await import("../utils/session.server");
+
+  await requirePermission(request, "customer.edit");
 
   const { customerId } = params;
 
@@ -41,7 +62,10 @@ export async function loader({ params }: LoaderFunctionArgs) {
     throw new Response("ID thành viên không hợp lệ", { status: 400 });
   }
 
-  const customer = await getCustomerById(customerId);
+  const [customer, thresholds] = await Promise.all([
+    getCustomerById(customerId),
+    getStatusThresholds(),
+  ]);
   if (!customer) {
     throw new Response("Không tìm thấy thành viên", { status: 404 });
   }
@@ -51,13 +75,23 @@ export async function loader({ params }: LoaderFunctionArgs) {
       _id: customer._id.toString(),
       displayName: customer.displayName,
       note: customer.note,
+      email: customer.email || "",
+      customGraceDays: customer.customGraceDays ?? null,
+      comped: customer.comped || false,
+      pinnedStatus: customer.pinnedStatus || "",
+      pinnedStatusUntil: customer.pinnedStatusUntil || "",
     },
+    defaultGraceDays: thresholds.graceDays,
   });
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
   const { ObjectId } = await import("mongodb");
   const { updateCustomer } = await import("../models/customer.server");
+  const { actorFromAdmin } = await import("../models/audit.server");
+  const { requirePermission } = await import("../utils/session.server");
+
+  const user = await requirePermission(request, "customer.edit");
 
   const { customerId } = params;
 
@@ -68,33 +102,65 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const formData = await request.formData();
   const displayName = String(formData.get("name") || "");
   const noteInput = String(formData.get("note") || "");
+  const email = String(formData.get("email") || "").trim();
+
+  const customGraceDaysStr = String(formData.get("customGraceDays") || "").trim();
+  const comped = formData.get("comped") === "on";
+  const pinnedStatusInput = String(formData.get("pinnedStatus") || "");
+  const pinnedStatusUntilInput = String(formData.get("pinnedStatusUntil") || "").trim();
 
   const displayNameTrimmed = displayName.trim();
   const noteTrimmed = noteInput.trim();
+  const pinnedStatus = isPinnableStatus(pinnedStatusInput) ? pinnedStatusInput : undefined;
+  const pinnedStatusUntil = pinnedStatus ? pinnedStatusUntilInput : "";
+
+  const values = {
+    displayName: displayNameTrimmed,
+    note: noteTrimmed,
+    email,
+    customGraceDays: customGraceDaysStr,
+    comped,
+    pinnedStatus: pinnedStatus || "",
+    pinnedStatusUntil,
+  };
 
   const errors: ActionData["errors"] = {};
 
-  if (!displayNameTrimmed) {
-    errors.displayName = "Tên là bắt buộc";
-  } else if (displayNameTrimmed.length > 60) {
-    errors.displayName = "Tên tối đa 60 ký tự";
+  const displayNameError = validateDisplayName(displayNameTrimmed);
+  if (displayNameError) {
+    errors.displayName = displayNameError;
+  }
+
+  const emailError = validateEmail(email);
+  if (emailError) {
+    errors.email = emailError;
+  }
+
+  const customGraceDays = customGraceDaysStr
+    ? /^\d+$/.test(customGraceDaysStr) ? parseInt(customGraceDaysStr, 10) : NaN
+    : undefined;
+  if (customGraceDays !== undefined && !isValidStatusThreshold(customGraceDays)) {
+    errors.customGraceDays = `Số ngày cao su phải từ 0 đến ${MAX_STATUS_THRESHOLD_DAYS}`;
+  }
+
+  if (pinnedStatusUntil && !isValidDateOnly(pinnedStatusUntil)) {
+    errors.pinnedStatusUntil = "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
   }
 
   if (Object.keys(errors).length > 0) {
-    return json<ActionData>(
-      {
-        errors,
-        values: { displayName: displayNameTrimmed, note: noteTrimmed },
-      },
-      { status: 400 }
-    );
+    return json<ActionData>({ errors, values }, { status: 400 });
   }
 
   try {
     const result = await updateCustomer(customerId, {
       displayName: displayNameTrimmed,
       note: noteTrimmed || undefined,
-    });
+      email: email || undefined,
+      customGraceDays,
+      comped,
+      pinnedStatus,
+      pinnedStatusUntil: pinnedStatusUntil || undefined,
+    }, { actor: actorFromAdmin(user) });
 
     if (!result) {
       throw new Response("Không tìm thấy thành viên", { status: 404 });
@@ -106,7 +172,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
       return json<ActionData>(
         {
           errors: { displayName: "Đã có thành viên với tên này" },
-          values: { displayName: displayNameTrimmed, note: noteTrimmed },
+          values,
         },
         { status: 400 }
       );
@@ -116,7 +182,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return json<ActionData>(
       {
         errors: { form: "Cập nhật thành viên thất bại. Vui lòng thử lại." },
-        values: { displayName: displayNameTrimmed, note: noteTrimmed },
+        values,
       },
       { status: 500 }
     );
@@ -124,8 +190,9 @@ export async function action({ request, params }: ActionFunctionArgs) {
 }
 
 export default function AdminEditCustomer() {
-  const { customer } = useLoaderData<typeof loader>();
+  const { customer, defaultGraceDays } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
+  const values = actionData?.values;
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -160,7 +227,7 @@ export default function AdminEditCustomer() {
               type="text"
               name="name"
               id="name"
-              defaultValue={actionData?.values?.displayName || customer.displayName}
+              defaultValue={values?.displayName || customer.displayName}
               className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.displayName ? "border-red-300" : ""
                 }`}
               placeholder="Tên thành viên"
@@ -187,12 +254,131 @@ export default function AdminEditCustomer() {
               name="note"
               id="note"
               rows={4}
-              defaultValue={actionData?.values?.note || customer.note || ""}
+              defaultValue={values?.note || customer.note || ""}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               placeholder="Ghi chú (tùy chọn) về thành viên..."
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Email liên hệ
+            </label>
+            <input
+              type="email"
+              name="email"
+              id="email"
+              autoComplete="off"
+              defaultValue={values?.email ?? customer.email}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.email ? "border-red-300" : ""
+                }`}
+              placeholder="ten@example.com"
+            />
+            {actionData?.errors?.email ? (
+              <p className="mt-1 text-sm text-red-600">{actionData.errors.email}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                Tùy chọn. Dùng để gửi email nhắc gia hạn.
+              </p>
+            )}
+          </div>
+
+          <div className="border-t border-gray-200 pt-6 space-y-6">
+            <h2 className="text-lg font-medium text-gray-900">Trạng thái riêng</h2>
+
+            <div>
+              <label
+                htmlFor="customGraceDays"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Số ngày cao su riêng
+              </label>
+              <input
+                type="number"
+                name="customGraceDays"
+                id="customGraceDays"
+                min="0"
+                max={MAX_STATUS_THRESHOLD_DAYS}
+                step="1"
+                defaultValue={values?.customGraceDays ?? customer.customGraceDays ?? ""}
+                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.customGraceDays ? "border-red-300" : ""
+                  }`}
+                placeholder={String(defaultGraceDays)}
+              />
+              {actionData?.errors?.customGraceDays ? (
+                <p className="mt-1 text-sm text-red-600">{actionData.errors.customGraceDays}</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">
+                  Để trống để dùng mặc định ({defaultGraceDays} ngày).
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                name="comped"
+                id="comped"
+                defaultChecked={values?.comped ?? customer.comped}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="comped" className="ml-2 block text-sm text-gray-700">
+                Miễn phí (luôn hiển thị còn hạn)
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label
+                  htmlFor="pinnedStatus"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Ghim trạng thái
+                </label>
+                <select
+                  name="pinnedStatus"
+                  id="pinnedStatus"
+                  defaultValue={values?.pinnedStatus ?? customer.pinnedStatus}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">Không ghim</option>
+                  {PINNABLE_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {getStatusLabel(status)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="pinnedStatusUntil"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Ghim đến hết ngày
+                </label>
+                <input
+                  type="date"
+                  name="pinnedStatusUntil"
+                  id="pinnedStatusUntil"
+                  defaultValue={values?.pinnedStatusUntil ?? customer.pinnedStatusUntil}
+                  className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.pinnedStatusUntil ? "border-red-300" : ""
+                    }`}
+                />
+                {actionData?.errors?.pinnedStatusUntil ? (
+                  <p className="mt-1 text-sm text-red-600">{actionData.errors.pinnedStatusUntil}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Để trống để ghim đến khi bỏ ghim.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
           <div className="flex items-center justify-end gap-4">
             <Link
               to={`/826264/customers/${customer._id}`}
@@ -1,5 +1,6 @@
+import { Fragment } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
-import { json, useLoaderData, useOutlet, Link, Form, redirect } from "@remix-run/react";
+import { json, useActionData, useLoaderData, useOutlet, Link, Form, redirect } from "@remix-run/react";
 import { ObjectId } from "mongodb";
 import {
   getCustomerById,
@@ -8,16 +9,63 @@ import {
   deleteCustomerWithPayments,
   cancelRenewal,
   resumeRenewal,
+  pauseCustomer,
+  resumeCustomer,
   type Customer,
 } from "~/models/customer.server";
 import { listPaymentsForCustomer, deletePayment } from "~/models/payment.server";
-import { computeStatus } from "~/models/subscriptionStatus";
+import { deleteRefund, listRefundsForCustomer } from "~/models/refund.server";
+import {
+  createBalanceAdjustment,
+  listBalanceEntriesForCustomer,
+  sumBalances,
+} from "~/models/balance.server";
+import { getStatusThresholds } from "~/models/settings.server";
+import { listRenewalReminders } from "~/models/renewalReminder.server";
+import {
+  computeCustomerStatus,
+  computeStatus,
+  countPausedDays,
+  getOpenPause,
+  getStatusLabel,
+  isStatusPinActive,
+  resolveStatusThresholds,
+} from "~/models/subscriptionStatus";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import {
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  getAmountPrecisionMessage,
+  hasValidMinorUnits,
+  parseCurrency,
+} from "~/utils/currency";
+import { getTodayDateOnly, isValidDateOnly } from "~/utils/date";
+import { assertPermission, requireAdmin } from "~/utils/session.server";
+import type { Permission } from "~/models/permissions";
+import { actorFromAdmin } from "~/models/audit.server";
+import { useAdmin } from "~/utils/admin";
+import CoverageTimeline from "~/components/CoverageTimeline";
+
+const INTENT_PERMISSIONS: Record<string, Permission> = {
+  hide: "customer.hide",
+  unhide: "customer.hide",
+  cancelRenewal: "customer.renewal",
+  resumeRenewal: "customer.renewal",
+  pause: "customer.renewal",
+  resume: "customer.renewal",
+  deleteCustomer: "customer.delete",
+  deletePayment: "payment.delete",
+  deleteRefund: "payment.refund",
+  adjustBalance: "payment.update",
+};
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => [
   { title: `${data?.customer.name || "Thành viên"} - Quản trị - Kana Box V2` },
 ];
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireAdmin(request);
   const { customerId } = params;
 
   if (!customerId || !ObjectId.isValid(customerId)) {
@@ -29,34 +77,108 @@ export async function loader({ params }: LoaderFunctionArgs) {
     throw new Response("Không tìm thấy thành viên", { status: 404 });
   }
 
-  const payments = await listPaymentsForCustomer(customerId);
-  const latestPayment = payments[0] || null;
-  const status = computeStatus(latestPayment?.endDate || null);
+  const [payments, refunds, balanceEntries, globalThresholds, reminders] = await Promise.all([
+    listPaymentsForCustomer(customerId),
+    listRefundsForCustomer(customerId),
+    listBalanceEntriesForCustomer(customerId),
+    getStatusThresholds(),
+    listRenewalReminders({ customerId }, 10),
+  ]);
+  const timeline = buildCoverageTimeline(payments);
+  const status = computeCustomerStatus(
+    getCurrentCoverage(timeline),
+    globalThresholds,
+    customer
+  );
+  const segmentsByPayment = new Map(
+    timeline.segments.map((segment) => [segment.payment._id.toString(), segment])
+  );
+  const thresholds = resolveStatusThresholds(globalThresholds, customer);
 
   return json({
     customer: {
       _id: customer._id.toString(),
       name: customer.displayName,
       note: customer.note,
+      email: customer.email || null,
       isPublicHidden: customer.isPublicHidden || false,
       renewalCancelled: customer.renewalCancelled || false,
       cancelledAt: customer.cancelledAt || null,
+      customGraceDays: customer.customGraceDays ?? null,
+      comped: customer.comped || false,
+      pinnedStatus: isStatusPinActive(customer) ? customer.pinnedStatus || null : null,
+      pinnedStatusUntil: customer.pinnedStatusUntil || null,
+      openPauseStart: getOpenPause(customer.pausePeriods)?.startDate || null,
+    },
+    pausePeriods: [...(customer.pausePeriods || [])]
+      .sort((a, b) => b.startDate.localeCompare(a.startDate))
+      .map((p) => ({
+        startDate: p.startDate,
+        endDate: p.endDate || null,
+        days: countPausedDays(p),
+      })),
+    today: getTodayDateOnly(),
+    payments: payments.map((p) => {
+      const segment = segmentsByPayment.get(p._id.toString());
+      return {
+        _id: p._id.toString(),
+        customerId: p.customerId.toString(),
+        paidDate: p.paidDate,
+        endDate: p.endDate,
+        coverageStart: segment?.start || p.paidDate,
+        coverageEnd: segment?.end || p.endDate,
+        stacked: segment?.stacked || false,
+        overlapDays: segment?.overlapDays || 0,
+        currency: p.currency,
+        amount: p.amount,
+        months: p.months,
+        planName: p.planName || null,
+        note: p.note,
+        refunds: refunds
+          .filter((r) => r.paymentId.equals(p._id))
+          .map((r) => ({
+            _id: r._id.toString(),
+            refundDate: r.refundDate,
+            amount: r.amount,
+            reason: r.reason,
+            coverageDays: r.coverageDays,
+          })),
+      };
+    }),
+    coverage: {
+      segments: timeline.segments.map((segment) => ({
+        paymentId: segment.payment._id.toString(),
+        start: segment.start,
+        end: segment.end,
+        stacked: segment.stacked,
+      })),
+      gaps: timeline.gaps,
+      endDate: timeline.endDate,
     },
-    payments: payments.map((p) => ({
-      _id: p._id.toString(),
-      customerId: p.customerId.toString(),
-      paidDate: p.paidDate,
-      endDate: p.endDate,
-      currency: p.currency,
-      amount: p.amount,
-      months: p.months,
-      note: p.note,
+    balances: sumBalances(balanceEntries),
+    balanceEntries: balanceEntries.map((entry) => ({
+      _id: entry._id.toString(),
+      kind: entry.kind,
+      currency: entry.currency,
+      amount: entry.amount,
+      entryDate: entry.entryDate,
+      note: entry.note,
+    })),
+    reminders: reminders.map((reminder) => ({
+      _id: reminder._id.toString(),
+      stage: reminder.stage,
+      email: reminder.email,
+      endDate: reminder.endDate,
+      sentDate: reminder.sentDate,
+      transport: reminder.transport,
     })),
     latestStatus: status,
+    thresholds,
   });
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireAdmin(request);
   const { customerId } = params;
 
   if (!customerId || !ObjectId.isValid(customerId)) {
@@ -66,25 +188,81 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
 
+  const permission = INTENT_PERMISSIONS[intent];
+  if (permission) {
+    assertPermission(user, permission);
+  }
+
+  const writeOptions = { actor: actorFromAdmin(user) };
+
   if (intent === "hide") {
-    await hideCustomerFromPublic(customerId);
+    await hideCustomerFromPublic(customerId, undefined, writeOptions);
     return redirect(`/826264/customers/${customerId}`);
   } else if (intent === "unhide") {
-    await unhideCustomer(customerId);
+    await unhideCustomer(customerId, writeOptions);
     return redirect(`/826264/customers/${customerId}`);
   } else if (intent === "cancelRenewal") {
-    await cancelRenewal(customerId);
+    await cancelRenewal(customerId, writeOptions);
     return redirect(`/826264/customers/${customerId}`);
   } else if (intent === "resumeRenewal") {
-    await resumeRenewal(customerId);
+    await resumeRenewal(customerId, writeOptions);
+    return redirect(`/826264/customers/${customerId}`);
+  } else if (intent === "pause" || intent === "resume") {
+    const date = String(formData.get("date") || "").trim();
+    if (!isValidDateOnly(date)) {
+      return json({ error: "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)" }, { status: 400 });
+    }
+    const result =
+      intent === "pause"
+        ? await pauseCustomer(customerId, date, writeOptions)
+        : await resumeCustomer(customerId, date, writeOptions);
+    if (!result) {
+      return json(
+        {
+          error:
+            intent === "pause"
+              ? "Thành viên đang tạm dừng hoặc ngày bắt đầu không sau lần tạm dừng trước"
+              : "Thành viên không tạm dừng",
+        },
+        { status: 400 }
+      );
+    }
     return redirect(`/826264/customers/${customerId}`);
   } else if (intent === "deleteCustomer") {
-    await deleteCustomerWithPayments(customerId);
+    await deleteCustomerWithPayments(customerId, writeOptions);
     return redirect("/826264");
   } else if (intent === "deletePayment") {
     const paymentId = String(formData.get("paymentId") || "");
     if (paymentId && ObjectId.isValid(paymentId)) {
-      await deletePayment(paymentId);
+      await deletePayment(paymentId, writeOptions);
+    }
+    return redirect(`/826264/customers/${customerId}`);
+  } else if (intent === "adjustBalance") {
+    const currency = parseCurrency(formData.get("currency"));
+    const amountStr = String(formData.get("amount") || "").trim();
+    const note = String(formData.get("note") || "").trim();
+    const amount = parseFloat(amountStr);
+    if (!amountStr || isNaN(amount) || amount === 0) {
+      return json({ error: "Số tiền điều chỉnh phải khác 0" }, { status: 400 });
+    }
+    if (!hasValidMinorUnits(amount, currency)) {
+      return json({ error: getAmountPrecisionMessage(currency) }, { status: 400 });
+    }
+    await createBalanceAdjustment(
+      {
+        customerId,
+        currency,
+        amount,
+        entryDate: getTodayDateOnly(),
+        note: note || undefined,
+      },
+      writeOptions
+    );
+    return redirect(`/826264/customers/${customerId}`);
+  } else if (intent === "deleteRefund") {
+    const refundId = String(formData.get("refundId") || "");
+    if (refundId && ObjectId.isValid(refundId)) {
+      await deleteRefund(refundId, customerId, writeOptions);
     }
     return redirect(`/826264/customers/${customerId}`);
   }
@@ -104,6 +282,7 @@ function StatusBadge({
     due: "bg-yellow-100 text-yellow-800 border border-yellow-600",
     grace: "bg-orange-100 text-orange-800 border border-orange-600",
     expired: "bg-red-100 text-red-800 border border-red-600",
+    paused: "bg-sky-100 text-sky-800 border border-sky-600",
     none: "bg-gray-100 text-gray-800 border border-gray-400",
   };
 
@@ -116,16 +295,22 @@ function StatusBadge({
   );
 }
 
-function formatCurrency(amount: number, currency: string): string {
-  if (currency === "VND") {
-    return `${amount.toLocaleString("vi-VN")} ₫`;
-  }
-  return `$${amount.toFixed(2)}`;
-}
-
 export default function AdminCustomerDetail() {
   const outlet = useOutlet();
-  const { customer, payments, latestStatus } = useLoaderData<typeof loader>();
+  const {
+    customer,
+    payments,
+    coverage,
+    pausePeriods,
+    today,
+    balances,
+    balanceEntries,
+    reminders,
+    latestStatus,
+    thresholds,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const { can } = useAdmin();
 
   if (outlet) {
     return outlet;
@@ -151,6 +336,8 @@ export default function AdminCustomerDetail() {
                 ? "border-l-4 border-l-yellow-500"
                 : latestStatus.status === "grace"
                   ? "border-l-4 border-l-orange-500"
+                  : latestStatus.status === "paused"
+                    ? "border-l-4 border-l-sky-500"
                   : "border-l-4 border-l-red-500"
           }`}
       >
@@ -174,10 +361,29 @@ export default function AdminCustomerDetail() {
               </div>
               <div className="mt-2 flex flex-wrap items-center gap-2">
                 <StatusBadge status={latestStatus.status} label={latestStatus.label} />
+                {customer.pinnedStatus && (
+                  <span className="text-xs text-gray-500">
+                    Đã ghim &quot;{getStatusLabel(customer.pinnedStatus)}&quot;
+                    {customer.pinnedStatusUntil
+                      ? ` đến hết ${customer.pinnedStatusUntil}`
+                      : ""}
+                  </span>
+                )}
+                {latestStatus.effectiveEndDate &&
+                  latestStatus.effectiveEndDate !== coverage.endDate && (
+                    <span className="text-xs text-gray-500">
+                      Hết hạn thực tế (sau tạm dừng): {latestStatus.effectiveEndDate}
+                    </span>
+                  )}
+                {customer.customGraceDays !== null && (
+                  <span className="text-xs text-gray-500">
+                    Cao su riêng: {customer.customGraceDays} ngày
+                  </span>
+                )}
               </div>
             </div>
             <div className="flex gap-2 sm:gap-3 flex-wrap items-center">
-              {customer.renewalCancelled ? (
+              {can("customer.renewal") && (customer.renewalCancelled ? (
                 <Form method="post" className="inline">
                   <input type="hidden" name="intent" value="resumeRenewal" />
                   <button
@@ -199,9 +405,9 @@ export default function AdminCustomerDetail() {
                     Hủy gia hạn
                   </button>
                 </Form>
-              )}
+              ))}
 
-              {customer.isPublicHidden ? (
+              {can("customer.hide") && (customer.isPublicHidden ? (
                 <Form method="post" className="inline">
                   <input type="hidden" name="intent" value="unhide" />
                   <button
@@ -222,39 +428,62 @@ export default function AdminCustomerDetail() {
                     Ẩn công khai
                   </button>
                 </Form>
+              ))}
+              {can("audit.view") && (
+                <Link
+                  to={`/826264/audit?customerId=${customer._id}`}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Lịch sử thay đổi
+                </Link>
               )}
-              <Link
-                to={`/826264/customers/${customer._id}/edit`}
-                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-              >
-                Sửa thành viên
-              </Link>
-              <Link
-                to={`/826264/payments/new?customerId=${customer._id}`}
-                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-              >
-                Thêm thanh toán
-              </Link>
-              <Form
-                method="post"
-                className="inline"
-                onSubmit={(e) => {
-                  if (!confirm("Bạn có chắc muốn xóa thành viên này và toàn bộ thanh toán của họ không? Thao tác này không thể hoàn tác.")) {
-                    e.preventDefault();
-                  }
-                }}
-              >
-                <input type="hidden" name="intent" value="deleteCustomer" />
-                <button
-                  type="submit"
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+              {can("customer.edit") && (
+                <Link
+                  to={`/826264/customers/${customer._id}/edit`}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
                 >
-                  Xóa thành viên
-                </button>
-              </Form>
+                  Sửa thành viên
+                </Link>
+              )}
+              {can("payment.create") && (
+                <Link
+                  to={`/826264/payments/new?customerId=${customer._id}`}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  Thêm thanh toán
+                </Link>
+              )}
+              {can("customer.delete") && (
+                <Form
+                  method="post"
+                  className="inline"
+                  onSubmit={(e) => {
+                    if (!confirm("Chuyển thành viên này và toàn bộ thanh toán của họ vào thùng rác?")) {
+                      e.preventDefault();
+                    }
+                  }}
+                >
+                  <input type="hidden" name="intent" value="deleteCustomer" />
+                  <button
+                    type="submit"
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+                  >
+                    Xóa thành viên
+                  </button>
+                </Form>
+              )}
             </div>
           </div>
 
+          {customer.email && (
+            <p className="mt-4 text-sm text-gray-600">
+              Email:{" "}
+              <a href={`mailto:${customer.email}`} className="text-blue-600 hover:text-blue-900">
+                {customer.email}
+              </a>
+            </p>
+          )}
+
           {customer.note && (
             <div className="mt-4 bg-gray-50 rounded-md p-4">
               <h3 className="text-sm font-medium text-gray-700">Ghi chú</h3>
@@ -266,6 +495,256 @@ export default function AdminCustomerDetail() {
         </div>
       </div>
 
+      {(can("customer.renewal") || pausePeriods.length > 0) && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Tạm dừng</h2>
+              <p className="mt-1 text-sm text-gray-500">
+                {customer.openPauseStart
+                  ? `Đang tạm dừng từ ${customer.openPauseStart}. Ngày hết hạn lùi thêm mỗi ngày tạm dừng.`
+                  : "Các ngày tạm dừng không tính vào thời hạn thành viên."}
+              </p>
+            </div>
+            {can("customer.renewal") && (
+              <Form method="post" className="flex items-center gap-2">
+                <input
+                  type="hidden"
+                  name="intent"
+                  value={customer.openPauseStart ? "resume" : "pause"}
+                />
+                <input
+                  type="date"
+                  name="date"
+                  defaultValue={today}
+                  className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  required
+                />
+                <button
+                  type="submit"
+                  className={`inline-flex items-center px-4 py-2 border text-sm font-medium rounded-md whitespace-nowrap ${customer.openPauseStart
+                      ? "border-transparent text-white bg-green-600 hover:bg-green-700"
+                      : "border-sky-300 text-sky-700 bg-sky-50 hover:bg-sky-100"
+                    }`}
+                >
+                  {customer.openPauseStart ? "Tiếp tục" : "Tạm dừng"}
+                </button>
+              </Form>
+            )}
+          </div>
+          {actionData && "error" in actionData && (
+            <div className="px-4 sm:px-6 pt-4">
+              <p className="text-sm text-red-600">{actionData.error}</p>
+            </div>
+          )}
+          {pausePeriods.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Từ ngày
+                    </th>
+                    <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tiếp tục ngày
+                    </th>
+                    <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Số ngày
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {pausePeriods.map((period, index) => (
+                    <tr key={`${period.startDate}-${index}`}>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {period.startDate}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {period.endDate || "Đang tạm dừng"}
+                      </td>
+                      <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {period.days}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {coverage.segments.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Dòng thời gian</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Thanh toán trả trước được nối tiếp vào cuối thời hạn hiện có.
+              {coverage.endDate && ` Hết hạn: ${coverage.endDate}.`}
+            </p>
+          </div>
+          <div className="p-4 sm:p-6 space-y-4">
+            <CoverageTimeline
+              segments={coverage.segments}
+              gaps={coverage.gaps}
+              today={today}
+            />
+            {coverage.gaps.length > 0 && (
+              <ul className="text-sm text-gray-600 space-y-1">
+                {coverage.gaps.map((gap) => (
+                  <li key={gap.start}>
+                    Gián đoạn {gap.days} ngày: {gap.start} → {gap.end}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {reminders.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Email nhắc gia hạn</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {reminders.map((reminder) => (
+              <li key={reminder._id} className="px-4 sm:px-6 py-3 text-sm text-gray-600">
+                {reminder.sentDate}: nhắc {getStatusLabel(reminder.stage).toLowerCase()} (hết hạn{" "}
+                {reminder.endDate}) gửi tới {reminder.email}
+                <span className="ml-2 text-xs text-gray-400">qua {reminder.transport}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(balanceEntries.length > 0 || can("payment.update")) && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Số dư tài khoản</h2>
+            <div className="mt-1 flex flex-wrap gap-3 text-sm">
+              {CURRENCY_CODES.filter((code) => (balances[code] || 0) !== 0).length === 0 ? (
+                <span className="text-gray-500">Không có tín dụng hay công nợ.</span>
+              ) : (
+                CURRENCY_CODES.filter((code) => (balances[code] || 0) !== 0).map((code) => {
+                  const amount = balances[code] || 0;
+                  return (
+                    <span
+                      key={code}
+                      className={amount > 0 ? "text-green-700 font-medium" : "text-red-700 font-medium"}
+                    >
+                      {amount > 0 ? "Tín dụng" : "Công nợ"}: {formatMoney(Math.abs(amount), code)}
+                    </span>
+                  );
+                })
+              )}
+            </div>
+          </div>
+          {balanceEntries.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Ngày
+                    </th>
+                    <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Loại
+                    </th>
+                    <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Số tiền
+                    </th>
+                    <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Ghi chú
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {balanceEntries.map((entry) => (
+                    <tr key={entry._id}>
+                      <td className="px-4 sm:px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {entry.entryDate}
+                      </td>
+                      <td className="px-4 sm:px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {entry.kind === "adjustment"
+                          ? "Điều chỉnh"
+                          : entry.amount > 0
+                            ? "Thanh toán thừa"
+                            : "Thanh toán thiếu"}
+                      </td>
+                      <td
+                        className={`px-4 sm:px-6 py-3 whitespace-nowrap text-sm text-right font-medium ${entry.amount > 0 ? "text-green-700" : "text-red-700"
+                          }`}
+                      >
+                        {entry.amount > 0 ? "+" : "-"}
+                        {formatMoney(Math.abs(entry.amount), entry.currency)}
+                      </td>
+                      <td className="px-4 sm:px-6 py-3 text-sm text-gray-500 max-w-xs truncate">
+                        {entry.note || "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {can("payment.update") && (
+            <Form method="post" className="px-4 sm:px-6 py-4 border-t border-gray-200 flex flex-col sm:flex-row sm:items-end gap-3">
+              <input type="hidden" name="intent" value="adjustBalance" />
+              <div>
+                <label htmlFor="balanceCurrency" className="block text-xs font-medium text-gray-700">
+                  Tiền tệ
+                </label>
+                <select
+                  name="currency"
+                  id="balanceCurrency"
+                  defaultValue={DEFAULT_CURRENCY}
+                  className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {CURRENCY_CODES.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="balanceAmount" className="block text-xs font-medium text-gray-700">
+                  Số tiền (+ ghi có, - ghi nợ)
+                </label>
+                <input
+                  type="number"
+                  name="amount"
+                  id="balanceAmount"
+                  step="any"
+                  className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+              <div className="flex-1">
+                <label htmlFor="balanceNote" className="block text-xs font-medium text-gray-700">
+                  Ghi chú
+                </label>
+                <input
+                  type="text"
+                  name="note"
+                  id="balanceNote"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="VD: Xóa nợ, tặng tín dụng..."
+                />
+              </div>
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 whitespace-nowrap"
+              >
+                Điều chỉnh
+              </button>
+            </Form>
+          )}
+        </div>
+      )}
+
       <div className="bg-white shadow rounded-lg">
         <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
           <h2 className="text-lg font-medium text-gray-900">Lịch sử thanh toán</h2>
@@ -274,14 +753,16 @@ export default function AdminCustomerDetail() {
           {payments.length === 0 ? (
             <div className="px-6 py-12 text-center">
               <p className="text-gray-500">Chưa có thanh toán</p>
-              <div className="mt-4">
-                <Link
-                  to={`/826264/payments/new?customerId=${customer._id}`}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-                >
-                  Thêm thanh toán đầu tiên
-                </Link>
-              </div>
+              {can("payment.create") && (
+                <div className="mt-4">
+                  <Link
+                    to={`/826264/payments/new?customerId=${customer._id}`}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    Thêm thanh toán đầu tiên
+                  </Link>
+                </div>
+              )}
             </div>
           ) : (
             <div className="overflow-x-auto -mx-4 sm:mx-0">
@@ -314,71 +795,149 @@ export default function AdminCustomerDetail() {
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {payments.map((payment, index) => {
-                      const paymentStatus = computeStatus(payment.endDate);
+                      const paymentStatus = computeStatus(payment.coverageEnd, thresholds);
                       const isLatest = index === 0;
 
                       return (
-                        <tr
-                          key={payment._id}
-                          className={isLatest ? "bg-blue-50" : ""}
-                        >
-                          <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {payment.paidDate}
-                          </td>
-                          <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {payment.endDate}
-                          </td>
-                          <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {formatCurrency(payment.amount, payment.currency)}
-                          </td>
-                          <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {payment.months}
-                          </td>
-                          <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
-                            <div className="flex items-center gap-2">
-                              <StatusBadge
-                                status={paymentStatus.status}
-                                label={paymentStatus.label}
-                              />
-                              {isLatest && (
-                                <span className="text-xs text-blue-600 font-medium">
-                                  (hiện tại)
-                                </span>
+                        <Fragment key={payment._id}>
+                          <tr className={isLatest ? "bg-blue-50" : ""}>
+                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {payment.paidDate}
+                            </td>
+                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {payment.coverageEnd}
+                              {payment.stacked && (
+                                <div className="text-xs text-blue-600">
+                                  Nối tiếp từ {payment.coverageStart}
+                                </div>
                               )}
-                            </div>
-                          </td>
-                          <td className="px-4 sm:px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
-                            {payment.note || "-"}
-                          </td>
-                          <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
-                            <div className="flex items-center justify-end gap-2">
-                              <Link
-                                to={`/826264/payments/${payment._id}/edit`}
-                                className="text-blue-600 hover:text-blue-900 font-medium"
-                              >
-                                Sửa
-                              </Link>
-                              <Form
-                                method="post"
-                                className="inline"
-                                onSubmit={(e) => {
-                                  if (!confirm("Bạn có chắc muốn xóa thanh toán này không?")) {
-                                    e.preventDefault();
-                                  }
-                                }}
-                              >
-                                <input type="hidden" name="intent" value="deletePayment" />
-                                <input type="hidden" name="paymentId" value={payment._id} />
-                                <button
-                                  type="submit"
-                                  className="text-red-600 hover:text-red-900 font-medium"
+                              {payment.overlapDays > 0 && (
+                                <div className="text-xs text-orange-600">
+                                  Trùng {payment.overlapDays} ngày với thời hạn trước
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {formatMoney(payment.amount, payment.currency)}
+                              {payment.planName && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  {payment.planName}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {payment.months}
+                            </td>
+                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                              <div className="flex items-center gap-2">
+                                <StatusBadge
+                                  status={paymentStatus.status}
+                                  label={paymentStatus.label}
+                                />
+                                {isLatest && (
+                                  <span className="text-xs text-blue-600 font-medium">
+                                    (hiện tại)
+                                  </span>
+                                )}
+                              </div>
+                            </td>
+                            <td className="px-4 sm:px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
+                              {payment.note || "-"}
+                            </td>
+                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                              <div className="flex items-center justify-end gap-2">
+                                <Link
+                                  to={`/826264/payments/${payment._id}/receipt`}
+                                  className="text-gray-600 hover:text-gray-900 font-medium"
                                 >
-                                  Xóa
-                                </button>
-                              </Form>
-                            </div>
-                          </td>
-                        </tr>
+                                  Biên lai
+                                </Link>
+                                {can("payment.update") && (
+                                  <Link
+                                    to={`/826264/payments/${payment._id}/edit`}
+                                    className="text-blue-600 hover:text-blue-900 font-medium"
+                                  >
+                                    Sửa
+                                  </Link>
+                                )}
+                                {can("payment.refund") && (
+                                  <Link
+                                    to={`/826264/payments/${payment._id}/refund`}
+                                    className="text-orange-600 hover:text-orange-900 font-medium"
+                                  >
+                                    Hoàn tiền
+                                  </Link>
+                                )}
+                                {can("payment.delete") && (
+                                  <Form
+                                    method="post"
+                                    className="inline"
+                                    onSubmit={(e) => {
+                                      if (!confirm("Chuyển thanh toán này vào thùng rác?")) {
+                                        e.preventDefault();
+                                      }
+                                    }}
+                                  >
+                                    <input type="hidden" name="intent" value="deletePayment" />
+                                    <input type="hidden" name="paymentId" value={payment._id} />
+                                    <button
+                                      type="submit"
+                                      className="text-red-600 hover:text-red-900 font-medium"
+                                    >
+                                      Xóa
+                                    </button>
+                                  </Form>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                          {payment.refunds.map((refund) => (
+                            <tr key={refund._id} className="bg-red-50">
+                              <td className="px-4 sm:px-6 py-2 whitespace-nowrap text-sm text-gray-900">
+                                {refund.refundDate}
+                              </td>
+                              <td className="px-4 sm:px-6 py-2 whitespace-nowrap text-xs text-gray-500">
+                                {refund.coverageDays > 0
+                                  ? `Rút ngắn ${refund.coverageDays} ngày`
+                                  : "Giữ nguyên thời hạn"}
+                              </td>
+                              <td className="px-4 sm:px-6 py-2 whitespace-nowrap text-sm font-medium text-red-700">
+                                -{formatMoney(refund.amount, payment.currency)}
+                              </td>
+                              <td className="px-4 sm:px-6 py-2" />
+                              <td className="px-4 sm:px-6 py-2 whitespace-nowrap">
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-600">
+                                  Hoàn tiền
+                                </span>
+                              </td>
+                              <td className="px-4 sm:px-6 py-2 text-sm text-gray-500 max-w-xs truncate">
+                                {refund.reason || "-"}
+                              </td>
+                              <td className="px-4 sm:px-6 py-2 whitespace-nowrap text-sm text-right">
+                                {can("payment.refund") && (
+                                  <Form
+                                    method="post"
+                                    className="inline"
+                                    onSubmit={(e) => {
+                                      if (!confirm("Xóa khoản hoàn tiền này?")) {
+                                        e.preventDefault();
+                                      }
+                                    }}
+                                  >
+                                    <input type="hidden" name="intent" value="deleteRefund" />
+                                    <input type="hidden" name="refundId" value={refund._id} />
+                                    <button
+                                      type="submit"
+                                      className="text-red-600 hover:text-red-900 font-medium"
+                                    >
+                                      Xóa
+                                    </button>
+                                  </Form>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </Fragment>
                       );
                     })}
                   </tbody>
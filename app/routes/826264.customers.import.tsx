@@ -0,0 +1,281 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, useLoaderData, useActionData, useNavigation, Form, Link } from "@remix-run/react";
+import {
+  MAX_IMPORT_ROWS,
+  commitCustomerImport,
+  hasImportErrors,
+  previewCustomerImport,
+  type ImportPreview,
+  type ImportReport,
+} from "~/models/customerImport.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { formatMoney } from "~/utils/currency";
+import { requirePermission } from "~/utils/session.server";
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+export const meta: MetaFunction = () => [
+  { title: "Nhập CSV - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  error?: string;
+  csvText?: string;
+  preview?: ImportPreview;
+  canCommit?: boolean;
+  report?: ImportReport;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "customer.import");
+  return json({ maxRows: MAX_IMPORT_ROWS });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "customer.import");
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  const file = formData.get("file");
+  let csvText = String(formData.get("csvText") || "");
+  if (intent === "preview" && file instanceof File && file.size > 0) {
+    if (file.size > MAX_IMPORT_BYTES) {
+      return json<ActionData>({ error: "Tệp quá lớn (tối đa 2 MB)" }, { status: 400 });
+    }
+    csvText = await file.text();
+  }
+
+  if (!csvText.trim()) {
+    return json<ActionData>({ error: "Vui lòng chọn tệp hoặc dán nội dung CSV" }, { status: 400 });
+  }
+
+  const preview = await previewCustomerImport(csvText);
+  const canCommit = !hasImportErrors(preview);
+
+  if (intent !== "commit" || !canCommit) {
+    return json<ActionData>(
+      { csvText, preview, canCommit },
+      { status: intent === "commit" ? 400 : 200 }
+    );
+  }
+
+  try {
+    const report = await commitCustomerImport(preview, { actor: actorFromAdmin(user) });
+    return json<ActionData>({ report });
+  } catch (error) {
+    console.error("Error importing customers:", error);
+    return json<ActionData>(
+      { csvText, preview, canCommit, error: "Nhập dữ liệu thất bại. Vui lòng thử lại." },
+      { status: 500 }
+    );
+  }
+}
+
+export default function AdminImportCustomers() {
+  const { maxRows } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const preview = actionData?.preview;
+  const report = actionData?.report;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Nhập thành viên từ CSV
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Mỗi dòng là một thành viên, có thể kèm một thanh toán cũ. Nhiều dòng cùng tên
+          được gộp thành một thành viên với nhiều thanh toán.
+        </p>
+      </div>
+
+      {actionData?.error && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {actionData.error}
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Kết quả nhập</h2>
+            <p className="mt-1 text-sm text-green-700">
+              Đã tạo {report.customers.length} thành viên và {report.paymentCount} thanh toán.
+            </p>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {report.customers.map((customer) => (
+              <li key={customer.id} className="px-4 sm:px-6 py-3 flex justify-between text-sm">
+                <Link
+                  to={`/826264/customers/${customer.id}`}
+                  className="text-blue-600 hover:text-blue-900"
+                >
+                  {customer.displayName}
+                </Link>
+                <span className="text-gray-500">{customer.paymentCount} thanh toán</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Tệp CSV</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Cột bắt buộc: <code>displayName</code>. Cột tùy chọn: <code>note</code>, <code>email</code>,{" "}
+            <code>paidDate</code>, <code>amount</code>, <code>months</code>,{" "}
+            <code>currency</code> (mặc định VND), <code>plan</code>,{" "}
+            <code>periodStart</code>, <code>paymentNote</code>. Tối đa {maxRows} dòng.
+          </p>
+        </div>
+        <Form method="post" encType="multipart/form-data" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value="preview" />
+
+          <div>
+            <label htmlFor="file" className="block text-sm font-medium text-gray-700">
+              Chọn tệp
+            </label>
+            <input
+              type="file"
+              name="file"
+              id="file"
+              accept=".csv,text/csv"
+              className="mt-1 block w-full text-sm text-gray-700"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="csvText" className="block text-sm font-medium text-gray-700">
+              Hoặc dán nội dung CSV
+            </label>
+            <textarea
+              name="csvText"
+              id="csvText"
+              rows={6}
+              defaultValue={actionData?.csvText || ""}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+              placeholder={"displayName,paidDate,amount,months\nNguyễn Văn A,2025-01-06,150000,3"}
+            />
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Xem trước
+            </button>
+          </div>
+        </Form>
+      </div>
+
+      {preview && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Xem trước</h2>
+              <p className="mt-1 text-sm text-gray-500">
+                {preview.customerCount} thành viên, {preview.paymentCount} thanh toán
+                {!actionData?.canCommit && (
+                  <span className="text-red-600"> — sửa các dòng lỗi rồi xem trước lại</span>
+                )}
+              </p>
+            </div>
+            {actionData?.canCommit && (
+              <Form method="post">
+                <input type="hidden" name="intent" value="commit" />
+                <input type="hidden" name="csvText" value={actionData?.csvText || ""} />
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? "Đang nhập..." : "Nhập dữ liệu"}
+                </button>
+              </Form>
+            )}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <ul className="px-4 sm:px-6 py-3 text-sm text-red-600 space-y-0.5">
+              {preview.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {preview.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Dòng
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tên
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Ngày thanh toán
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Số tiền
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Số tháng
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Gói
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Kiểm tra
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                  {preview.rows.map((row) => (
+                    <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <td className="px-4 py-2 text-gray-500">{row.line}</td>
+                      <td className="px-4 py-2 text-gray-900">{row.displayName}</td>
+                      <td className="px-4 py-2 text-gray-700">{row.payment?.paidDate || "—"}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">
+                        {row.payment && Number.isFinite(row.payment.amount)
+                          ? formatMoney(row.payment.amount, row.payment.currency)
+                          : "—"}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-700">
+                        {row.payment && Number.isFinite(row.payment.months) ? row.payment.months : "—"}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">{row.planName || "—"}</td>
+                      <td className="px-4 py-2">
+                        {row.errors.length > 0 ? (
+                          <ul className="text-red-600 space-y-0.5">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-green-700">Hợp lệ</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
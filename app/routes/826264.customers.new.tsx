@@ -1,18 +1,32 @@
-import type { ActionFunctionArgs, MetaFunction } from "@remix-run/node";
-import { redirect, json, useActionData, Form, Link } from "@remix-run/react";
-import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
 import { ObjectId } from "mongodb";
 import { MongoError } from "mongodb";
-import { createCustomer, deleteCustomer } from "~/models/customer.server";
-import { createPayment } from "~/models/payment.server";
+import { createCustomerWithInitialPayment } from "~/models/customer.server";
+import { getPlanById, listPlans, toPlanOption } from "~/models/plan.server";
 import {
   calculateRecommendedMonths,
-  BASE_PRICE_VND,
-  BASE_PRICE_USD,
+  getPlanPricing,
 } from "~/models/subscriptionStatus";
 import { getTodayDateOnly } from "~/utils/date";
-
-const VND_AMOUNT_PRESETS = [50000, 100000, 150000, 200000, 250000, 300000] as const;
+import { parseCurrency, type Currency } from "~/utils/currency";
+import {
+  validateAmount,
+  validateDateOnly,
+  validateDisplayName,
+  validateEmail,
+  validateMonths,
+} from "~/utils/validation";
+import { requirePermission } from "~/utils/session.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { PaymentAmountFields } from "~/components/PaymentAmountFields";
 
 export const meta: MetaFunction = () => [
   { title: "Thêm thành viên - Quản trị - Kana Box V2" },
@@ -21,6 +35,8 @@ export const meta: MetaFunction = () => [
 interface ActionData {
   errors?: {
     displayName?: string;
+    email?: string;
+    planId?: string;
     amount?: string;
     months?: string;
     paidDate?: string;
@@ -29,6 +45,8 @@ interface ActionData {
   values?: {
     displayName: string;
     note: string;
+    email: string;
+    planId: string;
     currency: string;
     amount: string;
     months: string;
@@ -38,11 +56,21 @@ interface ActionData {
   recommendedMonths?: number;
 }
 
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "customer.create");
+  const plans = await listPlans({ activeOnly: true });
+  return json({ plans: plans.map(toPlanOption) });
+}
+
 export async function action({ request }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "customer.create");
+  const writeOptions = { actor: actorFromAdmin(user) };
   const formData = await request.formData();
   const displayName = String(formData.get("name") || "").trim();
   const note = String(formData.get("note") || "").trim();
-  const currency = String(formData.get("currency") || "VND") as "VND" | "USD";
+  const email = String(formData.get("email") || "").trim();
+  const planId = String(formData.get("planId") || "").trim();
+  const currency = parseCurrency(formData.get("currency"));
   const amountStr = String(formData.get("amount") || "").trim();
   const monthsStr = String(formData.get("months") || "").trim();
   const paidDate = String(formData.get("paidDate") || "").trim();
@@ -50,34 +78,41 @@ export async function action({ request }: ActionFunctionArgs) {
 
   const errors: ActionData["errors"] = {};
 
-  if (!displayName) {
-    errors.displayName = "Tên là bắt buộc";
-  } else if (displayName.length < 1) {
-    errors.displayName = "Tên tối thiểu 1 ký tự";
-  } else if (displayName.length > 60) {
-    errors.displayName = "Tên tối đa 60 ký tự";
+  const displayNameError = validateDisplayName(displayName);
+  if (displayNameError) {
+    errors.displayName = displayNameError;
+  }
+
+  const emailError = validateEmail(email);
+  if (emailError) {
+    errors.email = emailError;
+  }
+
+  const plan = await getPlanById(planId);
+  if (!plan || !plan.active) {
+    errors.planId = "Vui lòng chọn gói hợp lệ";
   }
 
   const amount = parseFloat(amountStr);
-  if (!amountStr || isNaN(amount) || amount <= 0) {
-    errors.amount = "Số tiền phải là số dương";
-  } else if (currency === "VND" && !Number.isInteger(amount)) {
-    errors.amount = "Số tiền VND phải là số nguyên (không có phần thập phân)";
+  const amountError = validateAmount(amountStr, currency);
+  if (amountError) {
+    errors.amount = amountError;
   }
 
   const months = parseInt(monthsStr, 10);
-  if (!monthsStr || isNaN(months) || months < 1) {
-    errors.months = "Số tháng tối thiểu là 1";
+  const monthsError = validateMonths(monthsStr);
+  if (monthsError) {
+    errors.months = monthsError;
   }
 
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!paidDate || !dateRegex.test(paidDate)) {
-    errors.paidDate = "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
+  const paidDateError = validateDateOnly(paidDate);
+  if (paidDateError) {
+    errors.paidDate = paidDateError;
   }
 
   const recommendedMonths =
     amount > 0 && !isNaN(amount)
-      ? calculateRecommendedMonths(amount, currency)
+      ? calculateRecommendedMonths(amount, getPlanPricing(plan, currency))
       : 1;
 
   if (Object.keys(errors).length > 0) {
@@ -87,6 +122,8 @@ export async function action({ request }: ActionFunctionArgs) {
         values: {
           displayName,
           note,
+          email,
+          planId,
           currency,
           amount: amountStr,
           months: monthsStr,
@@ -99,31 +136,22 @@ export async function action({ request }: ActionFunctionArgs) {
     );
   }
 
-  let customerId: string | null = null;
-
   try {
-    const customer = await createCustomer({ displayName, note: note || undefined });
-    customerId = customer._id.toString();
-
-    await createPayment({
-      customerId,
-      paidDate,
-      currency,
-      amount,
-      months,
-      note: paymentNote || undefined,
-    });
+    const { customer } = await createCustomerWithInitialPayment(
+      { displayName, note: note || undefined, email: email || undefined },
+      {
+        paidDate,
+        currency,
+        amount,
+        months,
+        planId,
+        note: paymentNote || undefined,
+      },
+      writeOptions
+    );
 
-    return redirect(`/826264/customers/${customerId}`);
+    return redirect(`/826264/customers/${customer._id.toString()}`);
   } catch (error) {
-    if (customerId) {
-      try {
-        await deleteCustomer(customerId);
-      } catch (deleteError) {
-        console.error("Failed to rollback customer creation:", deleteError);
-      }
-    }
-
     if (error instanceof MongoError && error.code === 11000) {
       return json<ActionData>(
         {
@@ -133,6 +161,8 @@ export async function action({ request }: ActionFunctionArgs) {
           values: {
             displayName,
             note,
+            email,
+            planId,
             currency,
             amount: amountStr,
             months: monthsStr,
@@ -154,6 +184,8 @@ export async function action({ request }: ActionFunctionArgs) {
         values: {
           displayName,
           note,
+          email,
+          planId,
           currency,
           amount: amountStr,
           months: monthsStr,
@@ -168,29 +200,9 @@ export async function action({ request }: ActionFunctionArgs) {
 }
 
 export default function AdminAddCustomer() {
+  const { plans } = useLoaderData<typeof loader>();
   const actionData = useActionData<ActionData>();
 
-  const initialCurrency = (actionData?.values?.currency as "VND" | "USD") || "VND";
-  const [currency, setCurrency] = useState<"VND" | "USD">(initialCurrency);
-  const [amount, setAmount] = useState(() => {
-    const parsed = actionData?.values?.amount
-      ? parseFloat(actionData.values.amount)
-      : Number.NaN;
-    if (Number.isFinite(parsed) && parsed > 0) {
-      return parsed;
-    }
-    return initialCurrency === "USD" ? BASE_PRICE_USD : VND_AMOUNT_PRESETS[0];
-  });
-  const [monthsManuallyEdited, setMonthsManuallyEdited] = useState(false);
-
-  const recommendedMonths = calculateRecommendedMonths(amount, currency);
-  const [months, setMonths] = useState(
-    parseInt(
-      actionData?.values?.months || String(recommendedMonths) || "1",
-      10
-    ) || 1
-  );
-
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-6">
@@ -262,140 +274,48 @@ export default function AdminAddCustomer() {
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Email liên hệ
+            </label>
+            <input
+              type="email"
+              name="email"
+              id="email"
+              autoComplete="off"
+              defaultValue={actionData?.values?.email || ""}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.email ? "border-red-300" : ""
+                }`}
+              placeholder="ten@example.com"
+            />
+            {actionData?.errors?.email ? (
+              <p className="mt-1 text-sm text-red-600">{actionData.errors.email}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                Tùy chọn. Dùng để gửi email nhắc gia hạn.
+              </p>
+            )}
+          </div>
+
           <div className="border-t border-gray-200 pt-6">
             <h2 className="text-lg font-medium text-gray-900 mb-4">
               Thanh toán ban đầu
             </h2>
 
-            <div className="mb-4">
-              <label
-                htmlFor="currency"
-                className="block text-sm font-medium text-gray-700"
-              >
-                Tiền tệ <span className="text-red-500">*</span>
-              </label>
-              <select
-                name="currency"
-                id="currency"
-                value={currency}
-                onChange={(e) => setCurrency(e.target.value as "VND" | "USD")}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                required
-              >
-                <option value="VND">VND (₫)</option>
-                <option value="USD">USD ($)</option>
-              </select>
-              <p className="mt-1 text-xs text-gray-500">
-                Giá cơ bản: {BASE_PRICE_VND.toLocaleString("vi-VN")} ₫/tháng hoặc
-                ${BASE_PRICE_USD}/tháng
-              </p>
-            </div>
-
-            <div className="mb-4">
-              <label
-                htmlFor="amount"
-                className="block text-sm font-medium text-gray-700"
-              >
-                Số tiền <span className="text-red-500">*</span>
-              </label>
-              <div className="mt-1 grid grid-cols-1 gap-2 sm:grid-cols-2">
-                {currency === "VND" && (
-                  <select
-                    id="amountPreset"
-                    value={
-                      VND_AMOUNT_PRESETS.includes(
-                        Math.round(amount) as (typeof VND_AMOUNT_PRESETS)[number]
-                      )
-                        ? String(Math.round(amount))
-                        : "custom"
-                    }
-                    onChange={(e) => {
-                      const next = e.target.value;
-                      if (next === "custom") return;
-                      const nextAmount = parseInt(next, 10) || 0;
-                      setAmount(nextAmount);
-                      if (!monthsManuallyEdited) {
-                        setMonths(calculateRecommendedMonths(nextAmount, currency));
-                      }
-                    }}
-                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                  >
-                    <option value="50000">50k</option>
-                    <option value="100000">100k</option>
-                    <option value="150000">150k</option>
-                    <option value="200000">200k</option>
-                    <option value="250000">250k</option>
-                    <option value="300000">300k</option>
-                    <option value="custom">Tùy chỉnh</option>
-                  </select>
-                )}
-
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <span className="text-gray-500 sm:text-sm">
-                      {currency === "VND" ? "₫" : "$"}
-                    </span>
-                  </div>
-                  <input
-                    type="number"
-                    name="amount"
-                    id="amount"
-                    min="1"
-                    step={currency === "VND" ? "1" : "0.01"}
-                    value={amount || ""}
-                    onChange={(e) => {
-                      const val = parseFloat(e.target.value) || 0;
-                      setAmount(val);
-                      if (!monthsManuallyEdited) {
-                        setMonths(calculateRecommendedMonths(val, currency));
-                      }
-                    }}
-                    className={`block w-full pl-7 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.amount ? "border-red-300" : ""
-                      }`}
-                    placeholder={currency === "VND" ? "50000" : "2.00"}
-                    required
-                  />
-                </div>
-              </div>
-              {currency === "VND" && (
-                <p className="mt-1 text-xs text-gray-500">
-                  VND phải là số nguyên (không có phần thập phân)
-                </p>
-              )}
-              {actionData?.errors?.amount && (
-                <p className="mt-1 text-sm text-red-600">
-                  {actionData.errors.amount}
-                </p>
-              )}
-            </div>
-
-            <div className="mb-4">
-              <label
-                htmlFor="months"
-                className="block text-sm font-medium text-gray-700"
-              >
-                Số tháng <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="number"
-                name="months"
-                id="months"
-                min="1"
-                step="1"
-                value={months}
-                onChange={(e) => {
-                  const val = parseInt(e.target.value, 10) || 1;
-                  setMonths(val);
-                  setMonthsManuallyEdited(true);
-                }}
-                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.months ? "border-red-300" : ""
-                  }`}
-                required
-              />
-              <p className="mt-1 text-sm text-gray-600">
-                Gợi ý: <strong>{recommendedMonths}</strong> tháng (theo số tiền)
-              </p>
-            </div>
+            <PaymentAmountFields
+              plans={plans}
+              defaultPlanId={actionData?.values?.planId}
+              defaultCurrency={
+                (actionData?.values?.currency as Currency) || undefined
+              }
+              defaultAmount={parseFloat(actionData?.values?.amount || "") || undefined}
+              defaultMonths={parseInt(actionData?.values?.months || "", 10) || undefined}
+              errors={actionData?.errors}
+              fieldClassName="mb-4"
+            />
 
             <div className="mb-4">
               <label
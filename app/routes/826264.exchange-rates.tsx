@@ -0,0 +1,377 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import {
+  FOREIGN_CURRENCIES,
+  deleteExchangeRate,
+  isForeignCurrency,
+  listExchangeRates,
+  parseExchangeRateImport,
+  upsertExchangeRate,
+} from "~/models/exchangeRate.server";
+import { getTodayDateOnly, isValidDateOnly } from "~/utils/date";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Tỷ giá - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  errors?: {
+    currency?: string;
+    effectiveDate?: string;
+    rateToVnd?: string;
+    import?: string[];
+    form?: string;
+  };
+  values?: {
+    currency: string;
+    effectiveDate: string;
+    rateToVnd: string;
+  };
+  importText?: string;
+  imported?: number;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "exchangeRate.manage");
+  const rates = await listExchangeRates();
+
+  return json({
+    currencies: FOREIGN_CURRENCIES,
+    today: getTodayDateOnly(),
+    rates: rates.map((r) => ({
+      _id: r._id.toString(),
+      currency: r.currency,
+      effectiveDate: r.effectiveDate,
+      rateToVnd: r.rateToVnd,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requirePermission(request, "exchangeRate.manage");
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  if (intent === "delete") {
+    await deleteExchangeRate(String(formData.get("id") || ""));
+    return redirect("/826264/exchange-rates");
+  }
+
+  if (intent === "import") {
+    const importText = String(formData.get("importText") || "");
+    const { rates, errors } = parseExchangeRateImport(importText);
+
+    if (errors.length > 0 || rates.length === 0) {
+      return json<ActionData>(
+        {
+          errors: {
+            import: errors.length > 0 ? errors : ["Không có dòng tỷ giá nào"],
+          },
+          importText,
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const rate of rates) {
+      await upsertExchangeRate(rate);
+    }
+
+    return json<ActionData>({ imported: rates.length });
+  }
+
+  const currency = String(formData.get("currency") || "");
+  const effectiveDate = String(formData.get("effectiveDate") || "").trim();
+  const rateStr = String(formData.get("rateToVnd") || "").trim();
+
+  const errors: ActionData["errors"] = {};
+
+  if (!isForeignCurrency(currency)) {
+    errors.currency = "Tiền tệ không hợp lệ";
+  }
+
+  if (!effectiveDate || !isValidDateOnly(effectiveDate)) {
+    errors.effectiveDate = "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
+  }
+
+  const rateToVnd = parseFloat(rateStr);
+  if (!rateStr || isNaN(rateToVnd) || rateToVnd <= 0) {
+    errors.rateToVnd = "Tỷ giá phải là số dương";
+  }
+
+  if (Object.keys(errors).length > 0 || !isForeignCurrency(currency)) {
+    return json<ActionData>(
+      { errors, values: { currency, effectiveDate, rateToVnd: rateStr } },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await upsertExchangeRate({ currency, effectiveDate, rateToVnd });
+    return redirect("/826264/exchange-rates");
+  } catch (error) {
+    console.error("Error saving exchange rate:", error);
+    return json<ActionData>(
+      {
+        errors: { form: "Lưu tỷ giá thất bại. Vui lòng thử lại." },
+        values: { currency, effectiveDate, rateToVnd: rateStr },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export default function AdminExchangeRates() {
+  const { currencies, today, rates } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Tỷ giá
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Doanh thu quy đổi dùng tỷ giá có hiệu lực vào ngày thanh toán. Thanh toán mới lưu lại tỷ giá lúc ghi nhận.
+        </p>
+      </div>
+
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.errors.form}</p>
+        </div>
+      )}
+
+      {actionData?.imported !== undefined && (
+        <div className="rounded-md bg-green-50 p-4">
+          <p className="text-sm text-green-700">
+            Đã nhập {actionData.imported} tỷ giá.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Thêm tỷ giá</h2>
+          </div>
+          <Form method="post" className="space-y-6 p-6">
+            <input type="hidden" name="intent" value="save" />
+
+            <div>
+              <label
+                htmlFor="currency"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Tiền tệ <span className="text-red-500">*</span>
+              </label>
+              <select
+                name="currency"
+                id="currency"
+                defaultValue={actionData?.values?.currency || currencies[0]}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                required
+              >
+                {currencies.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+              {actionData?.errors?.currency && (
+                <p className="mt-1 text-sm text-red-600">
+                  {actionData.errors.currency}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="effectiveDate"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Có hiệu lực từ <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                name="effectiveDate"
+                id="effectiveDate"
+                defaultValue={actionData?.values?.effectiveDate || today}
+                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.effectiveDate ? "border-red-300" : ""
+                  }`}
+                required
+              />
+              {actionData?.errors?.effectiveDate && (
+                <p className="mt-1 text-sm text-red-600">
+                  {actionData.errors.effectiveDate}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="rateToVnd"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Tỷ giá (VND) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                name="rateToVnd"
+                id="rateToVnd"
+                min="0"
+                step="any"
+                defaultValue={actionData?.values?.rateToVnd || ""}
+                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.rateToVnd ? "border-red-300" : ""
+                  }`}
+                placeholder="25800"
+                required
+              />
+              {actionData?.errors?.rateToVnd && (
+                <p className="mt-1 text-sm text-red-600">
+                  {actionData.errors.rateToVnd}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                Nhập lại cùng ngày sẽ ghi đè tỷ giá cũ.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-end">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                Lưu tỷ giá
+              </button>
+            </div>
+          </Form>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Nhập hàng loạt</h2>
+          </div>
+          <Form method="post" className="space-y-6 p-6">
+            <input type="hidden" name="intent" value="import" />
+
+            <div>
+              <label
+                htmlFor="importText"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Mỗi dòng: <code>USD,YYYY-MM-DD,tỷ giá</code> hoặc{" "}
+                <code>YYYY-MM-DD,tỷ giá</code> (mặc định USD)
+              </label>
+              <textarea
+                name="importText"
+                id="importText"
+                rows={8}
+                defaultValue={actionData?.importText || ""}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+                placeholder={"2026-01-01,25800\n2026-02-01,25950"}
+              />
+              {actionData?.errors?.import && (
+                <ul className="mt-1 text-sm text-red-600 space-y-0.5">
+                  {actionData.errors.import.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex items-center justify-end">
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                Nhập tỷ giá
+              </button>
+            </div>
+          </Form>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {rates.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Chưa có tỷ giá nào. Doanh thu ngoại tệ sẽ được đánh dấu là thiếu tỷ giá.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tiền tệ
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Có hiệu lực từ
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tỷ giá (VND)
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thao tác
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rates.map((rate) => (
+                <tr key={rate._id}>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {rate.currency}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rate.effectiveDate}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {rate.rateToVnd.toLocaleString("vi-VN")} ₫
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                    <Form
+                      method="post"
+                      className="inline"
+                      onSubmit={(e) => {
+                        if (!confirm("Xóa tỷ giá này?")) {
+                          e.preventDefault();
+                        }
+                      }}
+                    >
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="id" value={rate._id} />
+                      <button
+                        type="submit"
+                        className="text-red-600 hover:text-red-900 font-medium"
+                      >
+                        Xóa
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
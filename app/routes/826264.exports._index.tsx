@@ -0,0 +1,137 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, useLoaderData, Form, Link } from "@remix-run/react";
+import { getSettings } from "~/models/settings.server";
+import { getRecentMonthBuckets, getRevenueBucketRange } from "~/utils/date";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Xuất dữ liệu - Quản trị - Kana Box V2" },
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "data.export");
+  const { revenueCycleStartDay } = await getSettings();
+
+  return json({
+    buckets: getRecentMonthBuckets(12, revenueCycleStartDay).map((bucket) => ({
+      value: bucket,
+      ...getRevenueBucketRange(bucket, revenueCycleStartDay),
+    })),
+  });
+}
+
+export default function AdminExports() {
+  const { buckets } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Xuất dữ liệu
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Tệp CSV dùng mã hóa UTF-8 (có BOM) để mở đúng tên tiếng Việt trong Excel.
+        </p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Thành viên</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Trạng thái, ngày hết hạn, ẩn công khai và hủy gia hạn của từng thành viên.
+          </p>
+        </div>
+        <div className="p-6">
+          <a
+            href="/826264/exports/customers.csv"
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Tải CSV thành viên
+          </a>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Thanh toán</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Lọc theo tháng doanh thu hoặc khoảng ngày thanh toán. Để trống để xuất tất cả.
+          </p>
+        </div>
+        <div className="p-6 space-y-6">
+          <Form
+            method="get"
+            action="/826264/exports/payments.csv"
+            reloadDocument
+            className="flex flex-col sm:flex-row sm:items-end gap-3"
+          >
+            <div className="flex-1">
+              <label htmlFor="bucket" className="block text-sm font-medium text-gray-700">
+                Tháng doanh thu
+              </label>
+              <select
+                name="bucket"
+                id="bucket"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {buckets.map((bucket) => (
+                  <option key={bucket.value} value={bucket.value}>
+                    {bucket.value} ({bucket.start} → {bucket.end})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Tải CSV theo tháng
+            </button>
+          </Form>
+
+          <Form
+            method="get"
+            action="/826264/exports/payments.csv"
+            reloadDocument
+            className="flex flex-col sm:flex-row sm:items-end gap-3"
+          >
+            <div className="flex-1">
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700">
+                Từ ngày
+              </label>
+              <input
+                type="date"
+                name="from"
+                id="from"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700">
+                Đến ngày
+              </label>
+              <input
+                type="date"
+                name="to"
+                id="to"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Tải CSV theo ngày
+            </button>
+          </Form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { listCustomers } from "~/models/customer.server";
+import { listPaymentsByCustomer } from "~/models/payment.server";
+import { getStatusThresholds } from "~/models/settings.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import { computeCustomerStatus } from "~/models/subscriptionStatus";
+import { createCsvResponse, type CsvValue } from "~/utils/csv.server";
+import { getTodayDateOnly } from "~/utils/date";
+import { requireResourceAccess } from "~/utils/api.server";
+
+const HEADER = [
+  "customerId",
+  "displayName",
+  "status",
+  "statusLabel",
+  "endDate",
+  "latestPaidDate",
+  "isPublicHidden",
+  "renewalCancelled",
+  "cancelledAt",
+  "comped",
+  "note",
+  "email",
+  "createdAt",
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireResourceAccess(request, "data.export");
+
+  const [customers, paymentsByCustomer, thresholds] = await Promise.all([
+    listCustomers(),
+    listPaymentsByCustomer(),
+    getStatusThresholds(),
+  ]);
+
+  const rows = customers.map((customer): CsvValue[] => {
+    const payments = paymentsByCustomer.get(customer._id.toString()) || [];
+    const status = computeCustomerStatus(
+      getCurrentCoverage(buildCoverageTimeline(payments)),
+      thresholds,
+      customer
+    );
+
+    return [
+      customer._id.toString(),
+      customer.displayName,
+      status.status,
+      status.label,
+      status.effectiveEndDate,
+      payments[0]?.paidDate,
+      customer.isPublicHidden || false,
+      customer.renewalCancelled || false,
+      customer.cancelledAt,
+      customer.comped || false,
+      customer.note,
+      customer.email,
+      customer.createdAt.toISOString(),
+    ];
+  });
+
+  return createCsvResponse(`customers-${getTodayDateOnly()}.csv`, HEADER, rows);
+}
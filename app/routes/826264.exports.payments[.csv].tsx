@@ -0,0 +1,93 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { listCustomers } from "~/models/customer.server";
+import { streamPaymentsByPaidDate } from "~/models/payment.server";
+import { convertToVnd, getExchangeRateTable } from "~/models/exchangeRate.server";
+import { getSettings } from "~/models/settings.server";
+import { formatReceiptNumber } from "~/models/receipt";
+import { createCsvResponse, type CsvValue } from "~/utils/csv.server";
+import {
+  getRevenueBucketRange,
+  isValidDateOnly,
+  isValidMonthBucket,
+} from "~/utils/date";
+import { requireResourceAccess } from "~/utils/api.server";
+
+const HEADER = [
+  "receiptNumber",
+  "paymentId",
+  "customerId",
+  "customerName",
+  "paidDate",
+  "periodStart",
+  "endDate",
+  "planName",
+  "currency",
+  "amount",
+  "months",
+  "vndRate",
+  "amountVnd",
+  "note",
+  "createdAt",
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireResourceAccess(request, "data.export");
+
+  const url = new URL(request.url);
+  const bucket = url.searchParams.get("bucket") || "";
+  const from = url.searchParams.get("from") || "";
+  const to = url.searchParams.get("to") || "";
+
+  let range: { startDate?: string; endDate?: string } = {};
+  let label = "all";
+
+  if (bucket) {
+    if (!isValidMonthBucket(bucket)) {
+      throw new Response("Tháng không hợp lệ (YYYY-MM)", { status: 400 });
+    }
+    const { revenueCycleStartDay } = await getSettings();
+    const { start, end } = getRevenueBucketRange(bucket, revenueCycleStartDay);
+    range = { startDate: start, endDate: end };
+    label = bucket;
+  } else if (from || to) {
+    if ((from && !isValidDateOnly(from)) || (to && !isValidDateOnly(to))) {
+      throw new Response("Ngày không hợp lệ (YYYY-MM-DD)", { status: 400 });
+    }
+    range = { startDate: from || undefined, endDate: to || undefined };
+    label = `${from || "start"}_${to || "now"}`;
+  }
+
+  const [customers, rates, payments] = await Promise.all([
+    listCustomers(),
+    getExchangeRateTable(),
+    streamPaymentsByPaidDate(range),
+  ]);
+  const customerNames = new Map(
+    customers.map((c) => [c._id.toString(), c.displayName])
+  );
+
+  async function* rows(): AsyncGenerator<CsvValue[]> {
+    for await (const payment of payments) {
+      const customerId = payment.customerId.toString();
+      yield [
+        payment.receiptNumber ? formatReceiptNumber(payment.receiptNumber) : "",
+        payment._id.toString(),
+        customerId,
+        customerNames.get(customerId),
+        payment.paidDate,
+        payment.periodStart,
+        payment.endDate,
+        payment.planName,
+        payment.currency,
+        payment.amount,
+        payment.months,
+        payment.vndRate,
+        convertToVnd(payment, rates),
+        payment.note,
+        payment.createdAt.toISOString(),
+      ];
+    }
+  }
+
+  return createCsvResponse(`payments-${label}.csv`, HEADER, rows());
+}
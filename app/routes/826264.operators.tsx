@@ -0,0 +1,337 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import { MongoError } from "mongodb";
+import {
+  countAdminUsersWithRole,
+  createAdminUser,
+  getAdminUserById,
+  listAdminUsers,
+  updateAdminUserRole,
+} from "~/models/adminUser.server";
+import {
+  ADMIN_ROLES,
+  ADMIN_ROLE_LABELS,
+  isAdminRole,
+} from "~/models/permissions";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Người vận hành - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  errors?: {
+    username?: string;
+    password?: string;
+    role?: string;
+    form?: string;
+  };
+  values?: {
+    username: string;
+    role: string;
+  };
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const currentUser = await requirePermission(request, "operator.manage");
+  const users = await listAdminUsers();
+
+  return json({
+    currentUserId: currentUser._id.toString(),
+    operators: users.map((u) => ({
+      _id: u._id.toString(),
+      username: u.username,
+      role: u.role,
+      lastLoginAt: u.lastLoginAt ? u.lastLoginAt.toISOString() : null,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requirePermission(request, "operator.manage");
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  if (intent === "updateRole") {
+    const userId = String(formData.get("userId") || "");
+    const role = String(formData.get("role") || "");
+
+    if (!isAdminRole(role)) {
+      return json<ActionData>(
+        { errors: { form: "Vai trò không hợp lệ" } },
+        { status: 400 }
+      );
+    }
+
+    const target = await getAdminUserById(userId);
+    if (!target) {
+      return json<ActionData>(
+        { errors: { form: "Không tìm thấy người vận hành" } },
+        { status: 404 }
+      );
+    }
+
+    if (target.role === "owner" && role !== "owner") {
+      const ownerCount = await countAdminUsersWithRole("owner");
+      if (ownerCount <= 1) {
+        return json<ActionData>(
+          { errors: { form: "Phải còn ít nhất một chủ sở hữu" } },
+          { status: 400 }
+        );
+      }
+    }
+
+    await updateAdminUserRole(userId, role);
+    return redirect("/826264/operators");
+  }
+
+  if (intent === "create") {
+    const username = String(formData.get("username") || "").trim();
+    const password = String(formData.get("password") || "");
+    const role = String(formData.get("role") || "");
+
+    const errors: ActionData["errors"] = {};
+
+    if (!username) {
+      errors.username = "Tên đăng nhập là bắt buộc";
+    } else if (!/^[a-zA-Z0-9._-]{3,32}$/.test(username)) {
+      errors.username = "Tên đăng nhập 3–32 ký tự: chữ, số, . _ -";
+    }
+
+    if (password.length < 8) {
+      errors.password = "Mật khẩu tối thiểu 8 ký tự";
+    }
+
+    if (!isAdminRole(role)) {
+      errors.role = "Vai trò không hợp lệ";
+    }
+
+    if (Object.keys(errors).length > 0 || !isAdminRole(role)) {
+      return json<ActionData>(
+        { errors, values: { username, role } },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await createAdminUser({ username, password, role });
+      return redirect("/826264/operators");
+    } catch (error) {
+      if (error instanceof MongoError && error.code === 11000) {
+        return json<ActionData>(
+          {
+            errors: { username: "Tên đăng nhập đã tồn tại" },
+            values: { username, role },
+          },
+          { status: 400 }
+        );
+      }
+
+      console.error("Error creating operator:", error);
+      return json<ActionData>(
+        {
+          errors: { form: "Tạo người vận hành thất bại. Vui lòng thử lại." },
+          values: { username, role },
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  return redirect("/826264/operators");
+}
+
+export default function AdminOperators() {
+  const { operators, currentUserId } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Người vận hành
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Chủ sở hữu có toàn quyền; thu ngân thêm thành viên và thanh toán; chỉ xem không thể thay đổi dữ liệu.
+        </p>
+      </div>
+
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.errors.form}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Tên đăng nhập
+              </th>
+              <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Đăng nhập gần nhất
+              </th>
+              <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Vai trò
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {operators.map((operator) => (
+              <tr key={operator._id}>
+                <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {operator.username}
+                  {operator._id === currentUserId && (
+                    <span className="ml-2 text-xs text-blue-600">(bạn)</span>
+                  )}
+                </td>
+                <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {operator.lastLoginAt
+                    ? new Date(operator.lastLoginAt).toLocaleString("vi-VN")
+                    : "-"}
+                </td>
+                <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                  <Form method="post" className="inline-flex items-center gap-2">
+                    <input type="hidden" name="intent" value="updateRole" />
+                    <input type="hidden" name="userId" value={operator._id} />
+                    <select
+                      name="role"
+                      defaultValue={operator.role}
+                      className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                    >
+                      {ADMIN_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {ADMIN_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      className="text-blue-600 hover:text-blue-900 font-medium"
+                    >
+                      Lưu
+                    </button>
+                  </Form>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white shadow rounded-lg max-w-2xl">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Thêm người vận hành
+          </h2>
+        </div>
+        <Form method="post" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value="create" />
+
+          <div>
+            <label
+              htmlFor="username"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tên đăng nhập <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              name="username"
+              id="username"
+              autoComplete="off"
+              defaultValue={actionData?.values?.username || ""}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.username ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.username && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.username}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Mật khẩu <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="password"
+              name="password"
+              id="password"
+              autoComplete="new-password"
+              minLength={8}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.password ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.password && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.password}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="role"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Vai trò <span className="text-red-500">*</span>
+            </label>
+            <select
+              name="role"
+              id="role"
+              defaultValue={actionData?.values?.role || "cashier"}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              required
+            >
+              {ADMIN_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ADMIN_ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            {actionData?.errors?.role && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.role}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Thêm người vận hành
+            </button>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
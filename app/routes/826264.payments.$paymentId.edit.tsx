@@ -4,17 +4,31 @@ import type {
   MetaFunction,
 } from "@remix-run/node";
 import { redirect, json, useLoaderData, useActionData, Form, Link } from "@remix-run/react";
-import { useState } from "react";
 import { ObjectId } from "mongodb";
 import { getPaymentById, updatePayment } from "~/models/payment.server";
 import { getCustomerById } from "~/models/customer.server";
+import {
+  listBalanceEntriesForCustomer,
+  sumBalances,
+  type CurrencyBalances,
+} from "~/models/balance.server";
+import { getPlanById, listPlans, toPlanOption } from "~/models/plan.server";
 import {
   calculateRecommendedMonths,
-  BASE_PRICE_VND,
-  BASE_PRICE_USD,
+  getPlanPricing,
 } from "~/models/subscriptionStatus";
-
-const VND_AMOUNT_PRESETS = [50000, 100000, 150000, 200000, 250000, 300000] as const;
+import { parseCurrency, type Currency } from "~/utils/currency";
+import {
+  validateAmount,
+  validateDateOnly,
+  validateMonths,
+} from "~/utils/validation";
+import { requirePermission } from "~/utils/session.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import {
+  PaymentAmountFields,
+  type PaymentPlanOption,
+} from "~/components/PaymentAmountFields";
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => [
   { title: `Sửa thanh toán - ${data?.customer.name || "Thành viên"} - Quản trị - Kana Box V2` },
@@ -25,35 +39,44 @@ interface LoaderData {
     _id: string;
     customerId: string;
     paidDate: string;
-    currency: "VND" | "USD";
+    periodStart: string;
+    currency: Currency;
     amount: number;
     months: number;
+    planId?: string;
     note?: string;
   };
   customer: {
     _id: string;
     name: string;
   };
+  balances: CurrencyBalances;
+  plans: PaymentPlanOption[];
 }
 
 interface ActionData {
   errors?: {
+    planId?: string;
     amount?: string;
     months?: string;
     paidDate?: string;
+    periodStart?: string;
     form?: string;
   };
   values?: {
+    planId: string;
     currency: string;
     amount: string;
     months: string;
     paidDate: string;
+    periodStart: string;
     note: string;
   };
   recommendedMonths?: number;
 }
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requirePermission(request, "payment.update");
   const { paymentId } = params;
 
   if (!paymentId || !ObjectId.isValid(paymentId)) {
@@ -70,24 +93,39 @@ export async function loader({ params }: LoaderFunctionArgs) {
     throw new Response("Không tìm thấy thành viên", { status: 404 });
   }
 
+  const [plans, balanceEntries] = await Promise.all([
+    listPlans(),
+    listBalanceEntriesForCustomer(customer._id.toString()),
+  ]);
+  const paymentPlanId = payment.planId?.toString();
+
   return json<LoaderData>({
     payment: {
       _id: payment._id.toString(),
       customerId: payment.customerId.toString(),
       paidDate: payment.paidDate,
+      periodStart: payment.periodStart,
       currency: payment.currency,
       amount: payment.amount,
       months: payment.months,
+      planId: paymentPlanId,
       note: payment.note,
     },
     customer: {
       _id: customer._id.toString(),
       name: customer.displayName,
     },
+    balances: sumBalances(
+      balanceEntries.filter((entry) => !entry.paymentId?.equals(payment._id))
+    ),
+    plans: plans
+      .filter((p) => p.active || p._id.toString() === paymentPlanId)
+      .map(toPlanOption),
   });
 }
 
 export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "payment.update");
   const { paymentId } = params;
 
   if (!paymentId || !ObjectId.isValid(paymentId)) {
@@ -95,34 +133,53 @@ export async function action({ request, params }: ActionFunctionArgs) {
   }
 
   const formData = await request.formData();
-  const currency = String(formData.get("currency") || "VND") as "VND" | "USD";
+  const planId = String(formData.get("planId") || "").trim();
+  const currency = parseCurrency(formData.get("currency"));
   const amountStr = String(formData.get("amount") || "").trim();
   const monthsStr = String(formData.get("months") || "").trim();
   const paidDate = String(formData.get("paidDate") || "").trim();
+  const periodStart = String(formData.get("periodStart") || "").trim();
   const note = String(formData.get("note") || "").trim();
 
   const errors: ActionData["errors"] = {};
 
+  const payment = await getPaymentById(paymentId);
+  if (!payment) {
+    return json<ActionData>(
+      { errors: { form: "Không tìm thấy thanh toán" }, values: { planId, currency, amount: amountStr, months: monthsStr, paidDate, periodStart, note } },
+      { status: 404 }
+    );
+  }
+
+  const plan = await getPlanById(planId);
+  if (!plan || (!plan.active && plan._id.toString() !== payment.planId?.toString())) {
+    errors.planId = "Vui lòng chọn gói hợp lệ";
+  }
+
   const amount = parseFloat(amountStr);
-  if (!amountStr || isNaN(amount) || amount <= 0) {
-    errors.amount = "Số tiền phải là số dương";
-  } else if (currency === "VND" && !Number.isInteger(amount)) {
-    errors.amount = "Số tiền VND phải là số nguyên (không có phần thập phân)";
+  const amountError = validateAmount(amountStr, currency);
+  if (amountError) {
+    errors.amount = amountError;
   }
 
   const months = parseInt(monthsStr, 10);
-  if (!monthsStr || isNaN(months) || months < 1) {
-    errors.months = "Số tháng tối thiểu là 1";
+  const monthsError = validateMonths(monthsStr);
+  if (monthsError) {
+    errors.months = monthsError;
   }
 
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!paidDate || !dateRegex.test(paidDate)) {
-    errors.paidDate = "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
+  const paidDateError = validateDateOnly(paidDate);
+  if (paidDateError) {
+    errors.paidDate = paidDateError;
+  }
+  const periodStartError = validateDateOnly(periodStart, { required: false });
+  if (periodStartError) {
+    errors.periodStart = periodStartError;
   }
 
   const recommendedMonths =
     amount > 0 && !isNaN(amount)
-      ? calculateRecommendedMonths(amount, currency)
+      ? calculateRecommendedMonths(amount, getPlanPricing(plan, currency))
       : 1;
 
   if (Object.keys(errors).length > 0) {
@@ -130,10 +187,12 @@ export async function action({ request, params }: ActionFunctionArgs) {
       {
         errors,
         values: {
+          planId,
           currency,
           amount: amountStr,
           months: monthsStr,
           paidDate,
+          periodStart,
           note,
         },
         recommendedMonths,
@@ -142,14 +201,6 @@ export async function action({ request, params }: ActionFunctionArgs) {
     );
   }
 
-  const payment = await getPaymentById(paymentId);
-  if (!payment) {
-    return json<ActionData>(
-      { errors: { form: "Không tìm thấy thanh toán" }, values: { currency, amount: amountStr, months: monthsStr, paidDate, note } },
-      { status: 404 }
-    );
-  }
-
   try {
     await updatePayment({
       id: paymentId,
@@ -157,8 +208,10 @@ export async function action({ request, params }: ActionFunctionArgs) {
       currency,
       amount,
       months,
+      periodStart: periodStart || undefined,
+      planId,
       note: note || undefined,
-    });
+    }, { actor: actorFromAdmin(user) });
 
     return redirect(`/826264/customers/${payment.customerId.toString()}`);
   } catch (error) {
@@ -166,7 +219,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return json<ActionData>(
       {
         errors: { form: "Cập nhật thanh toán thất bại. Vui lòng thử lại." },
-        values: { currency, amount: amountStr, months: monthsStr, paidDate, note },
+        values: { planId, currency, amount: amountStr, months: monthsStr, paidDate, periodStart, note },
         recommendedMonths,
       },
       { status: 500 }
@@ -175,25 +228,9 @@ export async function action({ request, params }: ActionFunctionArgs) {
 }
 
 export default function AdminEditPayment() {
-  const { payment, customer } = useLoaderData<LoaderData>();
+  const { payment, customer, balances, plans } = useLoaderData<LoaderData>();
   const actionData = useActionData<ActionData>();
 
-  const [currency, setCurrency] = useState<"VND" | "USD">(
-    (actionData?.values?.currency as "VND" | "USD") || payment.currency
-  );
-  const [amount, setAmount] = useState(
-    parseFloat(actionData?.values?.amount || String(payment.amount)) || 0
-  );
-  const [monthsManuallyEdited, setMonthsManuallyEdited] = useState(false);
-
-  const recommendedMonths = calculateRecommendedMonths(amount, currency);
-  const [months, setMonths] = useState(
-    parseInt(
-      actionData?.values?.months || String(payment.months),
-      10
-    ) || 1
-  );
-
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-6">
@@ -215,164 +252,66 @@ export default function AdminEditPayment() {
             </div>
           )}
 
-          <div>
-            <label
-              htmlFor="currency"
-              className="block text-sm font-medium text-gray-700"
-            >
-              Tiền tệ <span className="text-red-500">*</span>
-            </label>
-            <select
-              name="currency"
-              id="currency"
-              value={currency}
-              onChange={(e) => setCurrency(e.target.value as "VND" | "USD")}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              required
-            >
-              <option value="VND">VND (₫)</option>
-              <option value="USD">USD ($)</option>
-            </select>
-            <p className="mt-1 text-xs text-gray-500">
-              Base price: {BASE_PRICE_VND.toLocaleString("en-US")} ₫/month or $
-              {BASE_PRICE_USD}/month
-            </p>
-          </div>
-
-          <div>
-            <label
-              htmlFor="amount"
-              className="block text-sm font-medium text-gray-700"
-            >
-              Số tiền <span className="text-red-500">*</span>
-            </label>
-            <div className="mt-1 grid grid-cols-1 gap-2 sm:grid-cols-2">
-              {currency === "VND" && (
-                <select
-                  id="amountPreset"
-                  value={
-                    VND_AMOUNT_PRESETS.includes(
-                      Math.round(amount) as (typeof VND_AMOUNT_PRESETS)[number]
-                    )
-                      ? String(Math.round(amount))
-                      : "custom"
-                  }
-                  onChange={(e) => {
-                    const next = e.target.value;
-                    if (next === "custom") return;
-                    const nextAmount = parseInt(next, 10) || 0;
-                    setAmount(nextAmount);
-                    if (!monthsManuallyEdited) {
-                      setMonths(calculateRecommendedMonths(nextAmount, currency));
-                    }
-                  }}
-                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                >
-                  <option value="50000">50k</option>
-                  <option value="100000">100k</option>
-                  <option value="150000">150k</option>
-                  <option value="200000">200k</option>
-                  <option value="250000">250k</option>
-                  <option value="300000">300k</option>
-                  <option value="custom">Tùy chỉnh</option>
-                </select>
-              )}
-
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <span className="text-gray-500 sm:text-sm">
-                    {currency === "VND" ? "₫" : "$"}
-                  </span>
-                </div>
-                <input
-                  type="number"
-                  name="amount"
-                  id="amount"
-                  min={currency === "VND" ? "1" : "0.01"}
-                  step={currency === "VND" ? "1" : "0.01"}
-                  value={amount || ""}
-                  onChange={(e) => {
-                    const val = parseFloat(e.target.value) || 0;
-                    setAmount(val);
-                    if (!monthsManuallyEdited) {
-                      setMonths(calculateRecommendedMonths(val, currency));
-                    }
-                  }}
-                  className={`block w-full pl-7 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.amount ? "border-red-300" : ""
-                    }`}
-                  placeholder={currency === "VND" ? "50000" : "2.00"}
-                  required
-                />
-              </div>
-            </div>
-            {currency === "VND" && (
-              <p className="mt-1 text-xs text-gray-500">
-                VND phải là số nguyên (không có phần thập phân)
-              </p>
-            )}
-            {actionData?.errors?.amount && (
-              <p className="mt-1 text-sm text-red-600">
-                {actionData.errors.amount}
-              </p>
-            )}
-          </div>
+          <PaymentAmountFields
+            plans={plans}
+            defaultPlanId={actionData?.values?.planId || payment.planId}
+            defaultCurrency={
+              (actionData?.values?.currency as Currency) || payment.currency
+            }
+            defaultAmount={parseFloat(actionData?.values?.amount || "") || payment.amount}
+            defaultMonths={parseInt(actionData?.values?.months || "", 10) || payment.months}
+            balances={balances}
+            errors={actionData?.errors}
+          />
 
           <div>
             <label
-              htmlFor="months"
+              htmlFor="paidDate"
               className="block text-sm font-medium text-gray-700"
             >
-              Số tháng <span className="text-red-500">*</span>
+              Ngày thanh toán <span className="text-red-500">*</span>
             </label>
             <input
-              type="number"
-              name="months"
-              id="months"
-              min="1"
-              step="1"
-              value={months}
-              onChange={(e) => {
-                const val = parseInt(e.target.value, 10) || 1;
-                setMonths(val);
-                setMonthsManuallyEdited(true);
-              }}
-              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.months ? "border-red-300" : ""
+              type="date"
+              name="paidDate"
+              id="paidDate"
+              defaultValue={actionData?.values?.paidDate || payment.paidDate}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.paidDate ? "border-red-300" : ""
                 }`}
               required
             />
-            <p className="mt-1 text-sm text-gray-600">
-              Gợi ý: <strong>{recommendedMonths}</strong> tháng (theo số tiền)
-            </p>
-            {actionData?.errors?.months && (
+            {actionData?.errors?.paidDate && (
               <p className="mt-1 text-sm text-red-600">
-                {actionData.errors.months}
+                {actionData.errors.paidDate}
               </p>
             )}
           </div>
 
           <div>
             <label
-              htmlFor="paidDate"
+              htmlFor="periodStart"
               className="block text-sm font-medium text-gray-700"
             >
-              Ngày thanh toán <span className="text-red-500">*</span>
+              Ngày bắt đầu gia hạn
             </label>
             <input
               type="date"
-              name="paidDate"
-              id="paidDate"
-              defaultValue={actionData?.values?.paidDate || payment.paidDate}
-              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.paidDate ? "border-red-300" : ""
+              name="periodStart"
+              id="periodStart"
+              defaultValue={
+                actionData?.values ? actionData.values.periodStart : payment.periodStart
+              }
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.periodStart ? "border-red-300" : ""
                 }`}
-              required
             />
-            {actionData?.errors?.paidDate && (
+            {actionData?.errors?.periodStart && (
               <p className="mt-1 text-sm text-red-600">
-                {actionData.errors.paidDate}
+                {actionData.errors.periodStart}
               </p>
             )}
             <p className="mt-1 text-xs text-gray-500">
-              Ngày hết hạn = ngày thanh toán + số tháng (theo lịch)
+              Để trống để tính lại: bắt đầu từ ngày hết hạn của thanh toán trước nếu còn hạn, ngược lại từ ngày thanh toán.
+              Ngày hết hạn = ngày bắt đầu gia hạn + số tháng (theo lịch).
             </p>
           </div>
 
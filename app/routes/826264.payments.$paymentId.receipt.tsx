@@ -0,0 +1,91 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, useLoaderData, Link } from "@remix-run/react";
+import { ObjectId } from "mongodb";
+import { getReceiptForPayment } from "~/models/receipt.server";
+import { formatReceiptNumber, getReceiptRows } from "~/models/receipt";
+import { getPublicStrings, normalizePublicLang } from "~/i18n/public";
+import { requireAdmin } from "~/utils/session.server";
+import PublicLanguageSelect from "~/components/PublicLanguageSelect";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  {
+    title: data
+      ? `${formatReceiptNumber(data.receipt.receiptNumber)} - ${data.receipt.customerName} - Kana Box V2`
+      : "Biên lai - Kana Box V2",
+  },
+];
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireAdmin(request);
+  const { paymentId } = params;
+
+  if (!paymentId || !ObjectId.isValid(paymentId)) {
+    throw new Response("ID thanh toán không hợp lệ", { status: 400 });
+  }
+
+  const receipt = await getReceiptForPayment(paymentId);
+  if (!receipt) {
+    throw new Response("Không tìm thấy thanh toán", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const lang = normalizePublicLang(url.searchParams.get("lang"));
+
+  return json({ receipt, lang });
+}
+
+export default function AdminPaymentReceipt() {
+  const { receipt, lang } = useLoaderData<typeof loader>();
+  const publicStrings = getPublicStrings(lang);
+  const strings = publicStrings.receipt;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 print:hidden">
+        <Link
+          to={`/826264/customers/${receipt.customerId}`}
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại {receipt.customerName}
+        </Link>
+        <div className="flex flex-wrap items-center gap-3">
+          <PublicLanguageSelect
+            lang={lang}
+            label={publicStrings.languageLabel}
+            optionVi={publicStrings.languageOptions.vi}
+            optionEn={publicStrings.languageOptions.en}
+          />
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {strings.print}
+          </button>
+          <a
+            href={`/826264/payments/${receipt.paymentId}/receipt.pdf?lang=${lang}`}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            {strings.downloadPdf}
+          </a>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 sm:p-10 print:shadow-none print:p-0">
+        <p className="text-sm font-semibold text-gray-500">Kana Box V2</p>
+        <h1 className="mt-1 text-2xl font-bold text-gray-900">{strings.title}</h1>
+        <dl className="mt-6 border-t border-b border-gray-200 divide-y divide-gray-100">
+          {getReceiptRows(receipt, strings).map((row) => (
+            <div key={row.label} className="grid grid-cols-3 gap-4 py-3">
+              <dt className="text-sm font-medium text-gray-700">{row.label}</dt>
+              <dd className="col-span-2 text-sm text-gray-900 whitespace-pre-wrap">
+                {row.value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="mt-6 text-sm text-gray-600">{strings.thanks}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { ObjectId } from "mongodb";
+import { getReceiptForPayment, renderReceiptPdf } from "~/models/receipt.server";
+import { formatReceiptNumber } from "~/models/receipt";
+import { normalizePublicLang } from "~/i18n/public";
+import { requireResourceAccess } from "~/utils/api.server";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireResourceAccess(request);
+  const { paymentId } = params;
+
+  if (!paymentId || !ObjectId.isValid(paymentId)) {
+    throw new Response("ID thanh toán không hợp lệ", { status: 400 });
+  }
+
+  const receipt = await getReceiptForPayment(paymentId);
+  if (!receipt) {
+    throw new Response("Không tìm thấy thanh toán", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const lang = normalizePublicLang(url.searchParams.get("lang"));
+  const pdf = renderReceiptPdf(receipt, lang);
+
+  return new Response(pdf, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${formatReceiptNumber(receipt.receiptNumber)}.pdf"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,323 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import { redirect, json, useLoaderData, useActionData, Form, Link } from "@remix-run/react";
+import { ObjectId } from "mongodb";
+import { getPaymentById } from "~/models/payment.server";
+import { getCustomerById } from "~/models/customer.server";
+import {
+  createRefund,
+  getRefundableAmount,
+  listRefundsForPayment,
+} from "~/models/refund.server";
+import { getTodayDateOnly, isValidDateOnly } from "~/utils/date";
+import {
+  formatMoney,
+  getAmountPrecisionMessage,
+  getAmountStep,
+  hasValidMinorUnits,
+} from "~/utils/currency";
+import { requirePermission } from "~/utils/session.server";
+import { actorFromAdmin } from "~/models/audit.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  { title: `Hoàn tiền - ${data?.customer.name || "Thành viên"} - Quản trị - Kana Box V2` },
+];
+
+interface ActionData {
+  errors?: {
+    amount?: string;
+    refundDate?: string;
+    form?: string;
+  };
+  values?: {
+    amount: string;
+    refundDate: string;
+    reason: string;
+    shortensCoverage: boolean;
+  };
+}
+
+async function loadRefundContext(paymentId: string | undefined) {
+  if (!paymentId || !ObjectId.isValid(paymentId)) {
+    throw new Response("ID thanh toán không hợp lệ", { status: 400 });
+  }
+
+  const payment = await getPaymentById(paymentId);
+  if (!payment) {
+    throw new Response("Không tìm thấy thanh toán", { status: 404 });
+  }
+
+  const customer = await getCustomerById(payment.customerId.toString());
+  if (!customer) {
+    throw new Response("Không tìm thấy thành viên", { status: 404 });
+  }
+
+  const refunds = await listRefundsForPayment(paymentId);
+
+  return {
+    payment,
+    customer,
+    refunds,
+    refundableAmount: getRefundableAmount(payment, refunds),
+  };
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requirePermission(request, "payment.refund");
+  const { payment, customer, refunds, refundableAmount } = await loadRefundContext(
+    params.paymentId
+  );
+
+  return json({
+    payment: {
+      _id: payment._id.toString(),
+      paidDate: payment.paidDate,
+      periodStart: payment.periodStart,
+      endDate: payment.endDate,
+      currency: payment.currency,
+      amount: payment.amount,
+      months: payment.months,
+      planName: payment.planName || null,
+    },
+    customer: {
+      _id: customer._id.toString(),
+      name: customer.displayName,
+    },
+    refunds: refunds.map((r) => ({
+      _id: r._id.toString(),
+      refundDate: r.refundDate,
+      amount: r.amount,
+      reason: r.reason,
+      coverageDays: r.coverageDays,
+    })),
+    refundableAmount,
+    today: getTodayDateOnly(),
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "payment.refund");
+  const { payment, refundableAmount } = await loadRefundContext(params.paymentId);
+
+  const formData = await request.formData();
+  const amountStr = String(formData.get("amount") || "").trim();
+  const refundDate = String(formData.get("refundDate") || "").trim();
+  const reason = String(formData.get("reason") || "").trim();
+  const shortensCoverage = formData.get("shortensCoverage") === "on";
+  const values = { amount: amountStr, refundDate, reason, shortensCoverage };
+
+  const errors: ActionData["errors"] = {};
+
+  const amount = parseFloat(amountStr);
+  if (!amountStr || isNaN(amount) || amount <= 0) {
+    errors.amount = "Số tiền phải là số dương";
+  } else if (!hasValidMinorUnits(amount, payment.currency)) {
+    errors.amount = getAmountPrecisionMessage(payment.currency);
+  } else if (amount > refundableAmount) {
+    errors.amount = `Số tiền hoàn tối đa là ${formatMoney(refundableAmount, payment.currency)}`;
+  }
+
+  if (!isValidDateOnly(refundDate)) {
+    errors.refundDate = "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
+  } else if (refundDate < payment.paidDate) {
+    errors.refundDate = "Ngày hoàn tiền không được trước ngày thanh toán";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return json<ActionData>({ errors, values }, { status: 400 });
+  }
+
+  try {
+    const refund = await createRefund(
+      {
+        paymentId: payment._id.toString(),
+        amount,
+        refundDate,
+        reason: reason || undefined,
+        shortensCoverage,
+      },
+      { actor: actorFromAdmin(user) }
+    );
+    if (!refund) {
+      return json<ActionData>(
+        {
+          errors: { amount: "Số tiền hoàn vượt quá số tiền còn có thể hoàn. Vui lòng tải lại trang." },
+          values,
+        },
+        { status: 409 }
+      );
+    }
+
+    return redirect(`/826264/customers/${payment.customerId.toString()}`);
+  } catch (error) {
+    console.error("Error creating refund:", error);
+    return json<ActionData>(
+      {
+        errors: { form: "Hoàn tiền thất bại. Vui lòng thử lại." },
+        values,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export default function AdminRefundPayment() {
+  const { payment, customer, refunds, refundableAmount, today } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="mb-6">
+        <Link
+          to={`/826264/customers/${customer._id}`}
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại {customer.name}
+        </Link>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">Hoàn tiền</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Thanh toán ngày {payment.paidDate}:{" "}
+          {formatMoney(payment.amount, payment.currency)} / {payment.months} tháng
+          {payment.planName ? ` (${payment.planName})` : ""}, hiệu lực{" "}
+          {payment.periodStart} → {payment.endDate}
+        </p>
+      </div>
+
+      {refunds.length > 0 && (
+        <div className="mb-6 bg-white shadow rounded-lg p-4 sm:p-6">
+          <h2 className="text-sm font-medium text-gray-700">Đã hoàn</h2>
+          <ul className="mt-2 space-y-1 text-sm text-gray-600">
+            {refunds.map((refund) => (
+              <li key={refund._id}>
+                {refund.refundDate}: {formatMoney(refund.amount, payment.currency)}
+                {refund.coverageDays > 0 && ` (rút ngắn ${refund.coverageDays} ngày)`}
+                {refund.reason && ` - ${refund.reason}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        {refundableAmount <= 0 ? (
+          <div className="p-6">
+            <p className="text-sm text-gray-500">Thanh toán này đã được hoàn toàn bộ.</p>
+          </div>
+        ) : (
+          <Form method="post" className="space-y-6 p-6">
+            {actionData?.errors?.form && (
+              <div className="rounded-md bg-red-50 p-4">
+                <p className="text-sm text-red-700">{actionData.errors.form}</p>
+              </div>
+            )}
+
+            <div>
+              <label
+                htmlFor="amount"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Số tiền hoàn ({payment.currency}) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                name="amount"
+                id="amount"
+                min="0"
+                max={refundableAmount}
+                step={getAmountStep(payment.currency)}
+                defaultValue={actionData?.values?.amount || refundableAmount}
+                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.amount ? "border-red-300" : ""
+                  }`}
+                required
+              />
+              {actionData?.errors?.amount && (
+                <p className="mt-1 text-sm text-red-600">{actionData.errors.amount}</p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                Có thể hoàn tối đa {formatMoney(refundableAmount, payment.currency)}.
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="refundDate"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Ngày hoàn tiền <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                name="refundDate"
+                id="refundDate"
+                defaultValue={actionData?.values?.refundDate || today}
+                className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.refundDate ? "border-red-300" : ""
+                  }`}
+                required
+              />
+              {actionData?.errors?.refundDate && (
+                <p className="mt-1 text-sm text-red-600">
+                  {actionData.errors.refundDate}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                Doanh thu tháng chứa ngày này sẽ bị trừ số tiền hoàn.
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="reason"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Lý do
+              </label>
+              <textarea
+                name="reason"
+                id="reason"
+                rows={3}
+                defaultValue={actionData?.values?.reason || ""}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="Lý do hoàn tiền (tùy chọn)..."
+              />
+            </div>
+
+            <div className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                name="shortensCoverage"
+                id="shortensCoverage"
+                defaultChecked={actionData?.values?.shortensCoverage ?? true}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="shortensCoverage" className="text-sm text-gray-700">
+                Rút ngắn thời hạn
+                <span className="block text-xs text-gray-500">
+                  Ngày hết hạn lùi lại theo tỷ lệ số tiền hoàn trên số tiền thanh toán.
+                </span>
+              </label>
+            </div>
+
+            <div className="flex items-center justify-end gap-4">
+              <Link
+                to={`/826264/customers/${customer._id}`}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Hủy
+              </Link>
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700"
+              >
+                Hoàn tiền
+              </button>
+            </div>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
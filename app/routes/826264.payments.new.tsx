@@ -11,18 +11,33 @@ import {
   Form,
   Link,
 } from "@remix-run/react";
-import { useState } from "react";
 import { ObjectId } from "mongodb";
 import { getCustomerById, listCustomers } from "~/models/customer.server";
-import { createPayment, getLatestPaymentForCustomer } from "~/models/payment.server";
+import { createPayment, listPaymentsForCustomer } from "~/models/payment.server";
+import { buildCoverageTimeline } from "~/models/coverage";
+import {
+  listBalanceEntriesForCustomer,
+  sumBalances,
+  type CurrencyBalances,
+} from "~/models/balance.server";
+import { getPlanById, listPlans, toPlanOption } from "~/models/plan.server";
 import {
   calculateRecommendedMonths,
-  BASE_PRICE_VND,
-  BASE_PRICE_USD,
+  getPlanPricing,
 } from "~/models/subscriptionStatus";
 import { getTodayDateOnly } from "~/utils/date";
-
-const VND_AMOUNT_PRESETS = [50000, 100000, 150000, 200000, 250000, 300000] as const;
+import { parseCurrency, type Currency } from "~/utils/currency";
+import {
+  validateAmount,
+  validateDateOnly,
+  validateMonths,
+} from "~/utils/validation";
+import { requirePermission } from "~/utils/session.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import {
+  PaymentAmountFields,
+  type PaymentPlanOption,
+} from "~/components/PaymentAmountFields";
 
 export const meta: MetaFunction = () => [
   { title: "Thêm thanh toán - Quản trị - Kana Box V2" },
@@ -38,35 +53,45 @@ interface LoaderData {
     name: string;
   }>;
   defaultPaidDate: string;
-  basePriceVnd: number;
-  basePriceUsd: number;
+  previousEndDate: string | null;
+  balances: CurrencyBalances;
+  defaultPlanId?: string;
+  plans: PaymentPlanOption[];
 }
 
 interface ActionData {
   errors?: {
     customerId?: string;
+    planId?: string;
     amount?: string;
     months?: string;
     paidDate?: string;
+    periodStart?: string;
     form?: string;
   };
   values?: {
     customerId: string;
+    planId: string;
     currency: string;
     amount: string;
     months: string;
     paidDate: string;
+    periodStart: string;
     note: string;
   };
   recommendedMonths?: number;
 }
 
 export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "payment.create");
   const url = new URL(request.url);
   const customerId = url.searchParams.get("customerId");
 
   let customer = null;
-  let defaultPaidDate = getTodayDateOnly();
+  const defaultPaidDate = getTodayDateOnly();
+  let previousEndDate: string | null = null;
+  let balances: CurrencyBalances = {};
+  let defaultPlanId: string | undefined;
 
   if (customerId && ObjectId.isValid(customerId)) {
     const c = await getCustomerById(customerId);
@@ -75,14 +100,23 @@ export async function loader({ request }: LoaderFunctionArgs) {
         _id: c._id.toString(),
         name: c.displayName,
       };
-      const latestPayment = await getLatestPaymentForCustomer(customerId);
-      if (latestPayment) {
-        defaultPaidDate = latestPayment.endDate;
+      const [payments, balanceEntries] = await Promise.all([
+        listPaymentsForCustomer(customerId),
+        listBalanceEntriesForCustomer(customerId),
+      ]);
+      balances = sumBalances(balanceEntries);
+      const { endDate } = buildCoverageTimeline(payments);
+      if (endDate) {
+        previousEndDate = endDate;
+        defaultPlanId = payments[0].planId?.toString();
       }
     }
   }
 
-  const allCustomers = await listCustomers();
+  const [allCustomers, plans] = await Promise.all([
+    listCustomers(),
+    listPlans({ activeOnly: true }),
+  ]);
 
   return json<LoaderData>({
     customer,
@@ -91,19 +125,24 @@ export async function loader({ request }: LoaderFunctionArgs) {
       name: c.displayName,
     })),
     defaultPaidDate,
-    basePriceVnd: BASE_PRICE_VND,
-    basePriceUsd: BASE_PRICE_USD,
+    previousEndDate,
+    balances,
+    defaultPlanId,
+    plans: plans.map(toPlanOption),
   });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "payment.create");
   const formData = await request.formData();
 
   const customerId = String(formData.get("customerId") || "").trim();
-  const currency = String(formData.get("currency") || "VND") as "VND" | "USD";
+  const planId = String(formData.get("planId") || "").trim();
+  const currency = parseCurrency(formData.get("currency"));
   const amountStr = String(formData.get("amount") || "").trim();
   const monthsStr = String(formData.get("months") || "").trim();
   const paidDate = String(formData.get("paidDate") || "").trim();
+  const periodStart = String(formData.get("periodStart") || "").trim();
   const note = String(formData.get("note") || "").trim();
 
   const errors: ActionData["errors"] = {};
@@ -117,26 +156,35 @@ export async function action({ request }: ActionFunctionArgs) {
     }
   }
 
+  const plan = await getPlanById(planId);
+  if (!plan || !plan.active) {
+    errors.planId = "Vui lòng chọn gói hợp lệ";
+  }
+
   const amount = parseFloat(amountStr);
-  if (!amountStr || isNaN(amount) || amount <= 0) {
-    errors.amount = "Số tiền phải là số dương";
-  } else if (currency === "VND" && !Number.isInteger(amount)) {
-    errors.amount = "Số tiền VND phải là số nguyên (không có phần thập phân)";
+  const amountError = validateAmount(amountStr, currency);
+  if (amountError) {
+    errors.amount = amountError;
   }
 
   const months = parseInt(monthsStr, 10);
-  if (!monthsStr || isNaN(months) || months < 1) {
-    errors.months = "Số tháng tối thiểu là 1";
+  const monthsError = validateMonths(monthsStr);
+  if (monthsError) {
+    errors.months = monthsError;
   }
 
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!paidDate || !dateRegex.test(paidDate)) {
-    errors.paidDate = "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
+  const paidDateError = validateDateOnly(paidDate);
+  if (paidDateError) {
+    errors.paidDate = paidDateError;
+  }
+  const periodStartError = validateDateOnly(periodStart, { required: false });
+  if (periodStartError) {
+    errors.periodStart = periodStartError;
   }
 
   const recommendedMonths =
     amount > 0 && !isNaN(amount)
-      ? calculateRecommendedMonths(amount, currency)
+      ? calculateRecommendedMonths(amount, getPlanPricing(plan, currency))
       : 1;
 
   if (Object.keys(errors).length > 0) {
@@ -145,10 +193,12 @@ export async function action({ request }: ActionFunctionArgs) {
         errors,
         values: {
           customerId,
+          planId,
           currency,
           amount: amountStr,
           months: monthsStr,
           paidDate,
+          periodStart,
           note,
         },
         recommendedMonths,
@@ -164,8 +214,10 @@ export async function action({ request }: ActionFunctionArgs) {
       currency,
       amount,
       months,
+      periodStart: periodStart || undefined,
+      planId,
       note: note || undefined,
-    });
+    }, { actor: actorFromAdmin(user) });
 
     return redirect(`/826264/customers/${customerId}`);
   } catch (error) {
@@ -177,10 +229,12 @@ export async function action({ request }: ActionFunctionArgs) {
         },
         values: {
           customerId,
+          planId,
           currency,
           amount: amountStr,
           months: monthsStr,
           paidDate,
+          periodStart,
           note,
         },
         recommendedMonths,
@@ -191,28 +245,17 @@ export async function action({ request }: ActionFunctionArgs) {
 }
 
 export default function AdminAddPayment() {
-  const { customer, customers, defaultPaidDate, basePriceVnd, basePriceUsd } =
-    useLoaderData<LoaderData>();
+  const {
+    customer,
+    customers,
+    defaultPaidDate,
+    previousEndDate,
+    balances,
+    defaultPlanId,
+    plans,
+  } = useLoaderData<LoaderData>();
   const actionData = useActionData<ActionData>();
 
-  const initialCurrency = (actionData?.values?.currency as "VND" | "USD") || "VND";
-  const [currency, setCurrency] = useState<"VND" | "USD">(initialCurrency);
-  const [amount, setAmount] = useState(() => {
-    const parsed = actionData?.values?.amount
-      ? parseFloat(actionData.values.amount)
-      : Number.NaN;
-    if (Number.isFinite(parsed) && parsed > 0) {
-      return parsed;
-    }
-    return initialCurrency === "USD" ? BASE_PRICE_USD : VND_AMOUNT_PRESETS[0];
-  });
-  const [monthsManuallyEdited, setMonthsManuallyEdited] = useState(false);
-
-  const recommendedMonths = calculateRecommendedMonths(amount, currency);
-  const [months, setMonths] = useState(
-    parseInt(actionData?.values?.months || String(recommendedMonths) || "1", 10) || 1
-  );
-
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-6">
@@ -287,159 +330,65 @@ export default function AdminAddPayment() {
             )}
           </div>
 
-          <div>
-            <label
-              htmlFor="currency"
-              className="block text-sm font-medium text-gray-700"
-            >
-              Tiền tệ <span className="text-red-500">*</span>
-            </label>
-            <select
-              name="currency"
-              id="currency"
-              value={currency}
-              onChange={(e) => setCurrency(e.target.value as "VND" | "USD")}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              required
-            >
-              <option value="VND">VND (₫)</option>
-              <option value="USD">USD ($)</option>
-            </select>
-            <p className="mt-1 text-xs text-gray-500">
-              Giá cơ bản: {basePriceVnd.toLocaleString("vi-VN")} ₫/tháng hoặc $
-              {basePriceUsd}/tháng
-            </p>
-          </div>
-
-          <div>
-            <label
-              htmlFor="amount"
-              className="block text-sm font-medium text-gray-700"
-            >
-              Số tiền <span className="text-red-500">*</span>
-            </label>
-            <div className="mt-1 grid grid-cols-1 gap-2 sm:grid-cols-2">
-              {currency === "VND" && (
-                <select
-                  id="amountPreset"
-                  value={
-                    VND_AMOUNT_PRESETS.includes(
-                      Math.round(amount) as (typeof VND_AMOUNT_PRESETS)[number]
-                    )
-                      ? String(Math.round(amount))
-                      : "custom"
-                  }
-                  onChange={(e) => {
-                    const next = e.target.value;
-                    if (next === "custom") return;
-                    const nextAmount = parseInt(next, 10) || 0;
-                    setAmount(nextAmount);
-                    if (!monthsManuallyEdited) {
-                      setMonths(calculateRecommendedMonths(nextAmount, currency));
-                    }
-                  }}
-                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                >
-                  <option value="50000">50k</option>
-                  <option value="100000">100k</option>
-                  <option value="150000">150k</option>
-                  <option value="200000">200k</option>
-                  <option value="250000">250k</option>
-                  <option value="300000">300k</option>
-                  <option value="custom">Tùy chỉnh</option>
-                </select>
-              )}
-
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <span className="text-gray-500 sm:text-sm">
-                    {currency === "VND" ? "₫" : "$"}
-                  </span>
-                </div>
-                <input
-                  type="number"
-                  name="amount"
-                  id="amount"
-                  min={currency === "VND" ? "1" : "0.01"}
-                  step={currency === "VND" ? "1" : "0.01"}
-                  value={amount || ""}
-                  onChange={(e) => {
-                    const val = parseFloat(e.target.value) || 0;
-                    setAmount(val);
-                    if (!monthsManuallyEdited) {
-                      setMonths(calculateRecommendedMonths(val, currency));
-                    }
-                  }}
-                  className={`block w-full pl-7 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.amount ? "border-red-300" : ""
-                    }`}
-                  placeholder={currency === "VND" ? "50000" : "2.00"}
-                  required
-                />
-              </div>
-            </div>
-            {actionData?.errors?.amount && (
-              <p className="mt-1 text-sm text-red-600">
-                {actionData.errors.amount}
-              </p>
-            )}
-          </div>
+          <PaymentAmountFields
+            plans={plans}
+            defaultPlanId={actionData?.values?.planId || defaultPlanId}
+            defaultCurrency={
+              (actionData?.values?.currency as Currency) || undefined
+            }
+            defaultAmount={parseFloat(actionData?.values?.amount || "") || undefined}
+            defaultMonths={parseInt(actionData?.values?.months || "", 10) || undefined}
+            balances={balances}
+            errors={actionData?.errors}
+          />
 
           <div>
             <label
-              htmlFor="months"
+              htmlFor="paidDate"
               className="block text-sm font-medium text-gray-700"
             >
-              Số tháng <span className="text-red-500">*</span>
+              Ngày thanh toán <span className="text-red-500">*</span>
             </label>
             <input
-              type="number"
-              name="months"
-              id="months"
-              min="1"
-              step="1"
-              value={months}
-              onChange={(e) => {
-                const val = parseInt(e.target.value, 10) || 1;
-                setMonths(val);
-                setMonthsManuallyEdited(true);
-              }}
-              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.months ? "border-red-300" : ""
+              type="date"
+              name="paidDate"
+              id="paidDate"
+              defaultValue={actionData?.values?.paidDate || defaultPaidDate}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.paidDate ? "border-red-300" : ""
                 }`}
               required
             />
-            <p className="mt-1 text-sm text-gray-600">
-              Gợi ý: <strong>{recommendedMonths}</strong> tháng (theo số tiền)
-            </p>
-            {actionData?.errors?.months && (
+            {actionData?.errors?.paidDate && (
               <p className="mt-1 text-sm text-red-600">
-                {actionData.errors.months}
+                {actionData.errors.paidDate}
               </p>
             )}
           </div>
 
           <div>
             <label
-              htmlFor="paidDate"
+              htmlFor="periodStart"
               className="block text-sm font-medium text-gray-700"
             >
-              Ngày thanh toán <span className="text-red-500">*</span>
+              Ngày bắt đầu gia hạn
             </label>
             <input
               type="date"
-              name="paidDate"
-              id="paidDate"
-              defaultValue={actionData?.values?.paidDate || defaultPaidDate}
-              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.paidDate ? "border-red-300" : ""
+              name="periodStart"
+              id="periodStart"
+              defaultValue={actionData?.values?.periodStart || ""}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.periodStart ? "border-red-300" : ""
                 }`}
-              required
             />
-            {actionData?.errors?.paidDate && (
+            {actionData?.errors?.periodStart && (
               <p className="mt-1 text-sm text-red-600">
-                {actionData.errors.paidDate}
+                {actionData.errors.periodStart}
               </p>
             )}
             <p className="mt-1 text-xs text-gray-500">
-              Ngày hết hạn = ngày thanh toán + số tháng (theo lịch)
+              Để trống để tự động nối tiếp: bắt đầu từ ngày hết hạn trước
+              {previousEndDate ? ` (${previousEndDate})` : ""} nếu còn hạn, ngược lại từ ngày thanh toán.
+              Ngày hết hạn = ngày bắt đầu gia hạn + số tháng (theo lịch).
             </p>
           </div>
 
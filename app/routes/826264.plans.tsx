@@ -0,0 +1,417 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import {
+  createPlan,
+  listPlans,
+  setPlanActive,
+  toPlanOption,
+  updatePlan,
+} from "~/models/plan.server";
+import type { PlanPrices } from "~/models/subscriptionStatus";
+import {
+  CURRENCY_CODES,
+  formatMoney,
+  getAmountPrecisionMessage,
+  getAmountStep,
+  hasValidMinorUnits,
+  type Currency,
+} from "~/utils/currency";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Gói - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  errors?: {
+    name?: string;
+    prices?: string;
+    billingPeriodMonths?: string;
+    form?: string;
+  };
+  values?: {
+    planId: string;
+    name: string;
+    prices: Partial<Record<Currency, string>>;
+    billingPeriodMonths: string;
+    active: boolean;
+  };
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "plan.manage");
+
+  const url = new URL(request.url);
+  const editId = url.searchParams.get("edit") || "";
+
+  const plans = await listPlans();
+  const editing = plans.find((p) => p._id.toString() === editId) || null;
+
+  return json({
+    plans: plans.map(toPlanOption),
+    editing: editing ? toPlanOption(editing) : null,
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requirePermission(request, "plan.manage");
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const planId = String(formData.get("planId") || "");
+
+  if (intent === "toggleActive") {
+    const active = formData.get("active") === "true";
+    await setPlanActive(planId, active);
+    return redirect("/826264/plans");
+  }
+
+  if (intent !== "create" && intent !== "update") {
+    return redirect("/826264/plans");
+  }
+
+  const name = String(formData.get("name") || "").trim();
+  const periodStr = String(formData.get("billingPeriodMonths") || "").trim();
+  const active = formData.get("active") === "on";
+
+  const errors: ActionData["errors"] = {};
+  const priceValues: Partial<Record<Currency, string>> = {};
+  const prices: PlanPrices = {};
+
+  if (!name) {
+    errors.name = "Tên gói là bắt buộc";
+  } else if (name.length > 60) {
+    errors.name = "Tên gói tối đa 60 ký tự";
+  }
+
+  for (const currency of CURRENCY_CODES) {
+    const raw = String(formData.get(`price_${currency}`) || "").trim();
+    priceValues[currency] = raw;
+    if (!raw) continue;
+
+    const price = parseFloat(raw);
+    if (isNaN(price) || price <= 0) {
+      errors.prices = `Giá ${currency} phải là số dương`;
+    } else if (!hasValidMinorUnits(price, currency)) {
+      errors.prices = getAmountPrecisionMessage(currency);
+    } else {
+      prices[currency] = price;
+    }
+  }
+
+  if (!errors.prices && Object.keys(prices).length === 0) {
+    errors.prices = "Cần ít nhất một mức giá";
+  }
+
+  const billingPeriodMonths = parseInt(periodStr, 10);
+  if (!periodStr || isNaN(billingPeriodMonths) || billingPeriodMonths < 1) {
+    errors.billingPeriodMonths = "Chu kỳ tối thiểu là 1 tháng";
+  }
+
+  const values = {
+    planId,
+    name,
+    prices: priceValues,
+    billingPeriodMonths: periodStr,
+    active,
+  };
+
+  if (Object.keys(errors).length > 0) {
+    return json<ActionData>({ errors, values }, { status: 400 });
+  }
+
+  const input = { name, prices, billingPeriodMonths, active };
+
+  try {
+    if (intent === "update") {
+      const updated = await updatePlan(planId, input);
+      if (!updated) {
+        return json<ActionData>(
+          { errors: { form: "Không tìm thấy gói" }, values },
+          { status: 404 }
+        );
+      }
+    } else {
+      await createPlan(input);
+    }
+
+    return redirect("/826264/plans");
+  } catch (error) {
+    console.error("Error saving plan:", error);
+    return json<ActionData>(
+      { errors: { form: "Lưu gói thất bại. Vui lòng thử lại." }, values },
+      { status: 500 }
+    );
+  }
+}
+
+function formatPrice(amount: number | undefined, currency: Currency): string {
+  if (amount === undefined) {
+    return "-";
+  }
+  return formatMoney(amount, currency);
+}
+
+export default function AdminPlans() {
+  const { plans, editing } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+
+  const values = actionData?.values;
+  const isEditing = Boolean(values?.planId || editing);
+  const formKey = values?.planId || editing?._id || "new";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Gói
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Đổi giá chỉ áp dụng cho thanh toán mới; thanh toán cũ giữ nguyên giá lúc ghi nhận.
+        </p>
+      </div>
+
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.errors.form}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {plans.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Chưa có gói nào
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tên gói
+                </th>
+                {CURRENCY_CODES.map((currency) => (
+                  <th
+                    key={currency}
+                    className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    Giá {currency}
+                  </th>
+                ))}
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Chu kỳ
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Trạng thái
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thao tác
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {plans.map((plan) => (
+                <tr key={plan._id} className={plan.active ? "" : "bg-gray-50"}>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {plan.name}
+                  </td>
+                  {CURRENCY_CODES.map((currency) => (
+                    <td
+                      key={currency}
+                      className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900"
+                    >
+                      {formatPrice(plan.prices[currency], currency)}
+                    </td>
+                  ))}
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {plan.billingPeriodMonths} tháng
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
+                    {plan.active ? (
+                      <span className="text-green-700">Đang bán</span>
+                    ) : (
+                      <span className="text-gray-500">Ngừng bán</span>
+                    )}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                    <div className="flex items-center justify-end gap-3">
+                      <Link
+                        to={`/826264/plans?edit=${plan._id}`}
+                        className="text-blue-600 hover:text-blue-900 font-medium"
+                      >
+                        Sửa
+                      </Link>
+                      <Form method="post" className="inline">
+                        <input type="hidden" name="intent" value="toggleActive" />
+                        <input type="hidden" name="planId" value={plan._id} />
+                        <input
+                          type="hidden"
+                          name="active"
+                          value={plan.active ? "false" : "true"}
+                        />
+                        <button
+                          type="submit"
+                          className="text-gray-600 hover:text-gray-900 font-medium"
+                        >
+                          {plan.active ? "Ngừng bán" : "Bán lại"}
+                        </button>
+                      </Form>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg max-w-2xl">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">
+            {isEditing ? "Sửa gói" : "Thêm gói"}
+          </h2>
+          {isEditing && (
+            <Link
+              to="/826264/plans"
+              className="text-sm text-blue-600 hover:text-blue-900"
+            >
+              Thêm gói mới
+            </Link>
+          )}
+        </div>
+        <Form key={formKey} method="post" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value={isEditing ? "update" : "create"} />
+          <input
+            type="hidden"
+            name="planId"
+            value={values?.planId || editing?._id || ""}
+          />
+
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tên gói <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              name="name"
+              id="name"
+              maxLength={60}
+              defaultValue={values?.name ?? editing?.name ?? ""}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.name ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.name && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.name}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {CURRENCY_CODES.map((currency) => (
+              <div key={currency}>
+                <label
+                  htmlFor={`price_${currency}`}
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Giá {currency} mỗi chu kỳ
+                </label>
+                <input
+                  type="number"
+                  name={`price_${currency}`}
+                  id={`price_${currency}`}
+                  min={getAmountStep(currency)}
+                  step={getAmountStep(currency)}
+                  defaultValue={
+                    values?.prices[currency] ??
+                    (editing?.prices[currency] !== undefined
+                      ? String(editing.prices[currency])
+                      : "")
+                  }
+                  className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.prices ? "border-red-300" : ""
+                    }`}
+                />
+              </div>
+            ))}
+          </div>
+          {actionData?.errors?.prices ? (
+            <p className="-mt-4 text-sm text-red-600">{actionData.errors.prices}</p>
+          ) : (
+            <p className="-mt-4 text-xs text-gray-500">
+              Để trống nếu gói không bán bằng tiền tệ đó.
+            </p>
+          )}
+
+          <div>
+            <label
+              htmlFor="billingPeriodMonths"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Chu kỳ (tháng) <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="number"
+              name="billingPeriodMonths"
+              id="billingPeriodMonths"
+              min="1"
+              step="1"
+              defaultValue={
+                values?.billingPeriodMonths ?? String(editing?.billingPeriodMonths ?? 1)
+              }
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.billingPeriodMonths ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.billingPeriodMonths && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.billingPeriodMonths}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              name="active"
+              id="active"
+              defaultChecked={values?.active ?? editing?.active ?? true}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="active" className="text-sm text-gray-700">
+              Đang bán (hiện trong form thanh toán)
+            </label>
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              {isEditing ? "Lưu gói" : "Thêm gói"}
+            </button>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
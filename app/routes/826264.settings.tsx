@@ -0,0 +1,306 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import { getSettings, updateSettings } from "~/models/settings.server";
+import {
+  MAX_CYCLE_START_DAY,
+  isValidCycleStartDay,
+  isValidMonthBucket,
+} from "~/utils/date";
+import {
+  MAX_STATUS_THRESHOLD_DAYS,
+  isValidStatusThreshold,
+} from "~/models/subscriptionStatus";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Cài đặt - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  intent?: string;
+  errors?: {
+    revenueCycleStartDay?: string;
+    reportingStartMonth?: string;
+    dueSoonDays?: string;
+    graceDays?: string;
+    form?: string;
+  };
+  values?: {
+    revenueCycleStartDay?: string;
+    reportingStartMonth?: string;
+    dueSoonDays?: string;
+    graceDays?: string;
+  };
+  saved?: boolean;
+}
+
+function parseDays(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "settings.manage");
+  const settings = await getSettings();
+
+  return json({ settings });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requirePermission(request, "settings.manage");
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  const errors: ActionData["errors"] = {};
+  let values: ActionData["values"];
+  let updates: Parameters<typeof updateSettings>[0];
+
+  if (intent === "status") {
+    const dueSoonStr = String(formData.get("dueSoonDays") || "").trim();
+    const graceStr = String(formData.get("graceDays") || "").trim();
+    values = { dueSoonDays: dueSoonStr, graceDays: graceStr };
+
+    const dueSoonDays = parseDays(dueSoonStr);
+    const graceDays = parseDays(graceStr);
+
+    if (!isValidStatusThreshold(dueSoonDays)) {
+      errors.dueSoonDays = `Số ngày sắp đến hạn phải từ 0 đến ${MAX_STATUS_THRESHOLD_DAYS}`;
+    }
+    if (!isValidStatusThreshold(graceDays)) {
+      errors.graceDays = `Số ngày cao su phải từ 0 đến ${MAX_STATUS_THRESHOLD_DAYS}`;
+    }
+
+    updates = { dueSoonDays, graceDays };
+  } else {
+    const cycleStr = String(formData.get("revenueCycleStartDay") || "").trim();
+    const reportingStartMonth = String(
+      formData.get("reportingStartMonth") || ""
+    ).trim();
+    values = { revenueCycleStartDay: cycleStr, reportingStartMonth };
+
+    const revenueCycleStartDay = parseDays(cycleStr);
+    if (!isValidCycleStartDay(revenueCycleStartDay)) {
+      errors.revenueCycleStartDay = `Ngày bắt đầu chu kỳ phải từ 1 đến ${MAX_CYCLE_START_DAY}`;
+    }
+
+    if (reportingStartMonth && !isValidMonthBucket(reportingStartMonth)) {
+      errors.reportingStartMonth = "Vui lòng nhập tháng hợp lệ (YYYY-MM)";
+    }
+
+    updates = {
+      revenueCycleStartDay,
+      reportingStartMonth: reportingStartMonth || null,
+    };
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return json<ActionData>({ intent, errors, values }, { status: 400 });
+  }
+
+  try {
+    await updateSettings(updates);
+    return json<ActionData>({ intent, saved: true });
+  } catch (error) {
+    console.error("Error saving settings:", error);
+    return json<ActionData>(
+      {
+        intent,
+        errors: { form: "Lưu cài đặt thất bại. Vui lòng thử lại." },
+        values,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export default function AdminSettings() {
+  const { settings } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+  const values = actionData?.values;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Cài đặt
+        </h1>
+      </div>
+
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.errors.form}</p>
+        </div>
+      )}
+
+      {actionData?.saved && (
+        <div className="rounded-md bg-green-50 p-4">
+          <p className="text-sm text-green-700">Đã lưu cài đặt.</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Báo cáo doanh thu</h2>
+        </div>
+        <Form method="post" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value="revenue" />
+
+          <div>
+            <label
+              htmlFor="revenueCycleStartDay"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Ngày bắt đầu chu kỳ <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="number"
+              name="revenueCycleStartDay"
+              id="revenueCycleStartDay"
+              min="1"
+              max={MAX_CYCLE_START_DAY}
+              step="1"
+              defaultValue={values?.revenueCycleStartDay ?? settings.revenueCycleStartDay}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.revenueCycleStartDay ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.revenueCycleStartDay && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.revenueCycleStartDay}
+              </p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Mỗi tháng doanh thu tính từ ngày này đến ngày liền trước của tháng sau.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="reportingStartMonth"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tháng bắt đầu báo cáo
+            </label>
+            <input
+              type="month"
+              name="reportingStartMonth"
+              id="reportingStartMonth"
+              defaultValue={values?.reportingStartMonth ?? settings.reportingStartMonth ?? ""}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.reportingStartMonth ? "border-red-300" : ""
+                }`}
+            />
+            {actionData?.errors?.reportingStartMonth && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.reportingStartMonth}
+              </p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Để trống để bắt đầu từ tháng có thanh toán đầu tiên.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Lưu cài đặt
+            </button>
+          </div>
+        </Form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Trạng thái thành viên</h2>
+        </div>
+        <Form method="post" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value="status" />
+
+          <div>
+            <label
+              htmlFor="dueSoonDays"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Số ngày sắp đến hạn <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="number"
+              name="dueSoonDays"
+              id="dueSoonDays"
+              min="0"
+              max={MAX_STATUS_THRESHOLD_DAYS}
+              step="1"
+              defaultValue={values?.dueSoonDays ?? settings.dueSoonDays}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.dueSoonDays ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.dueSoonDays && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.dueSoonDays}
+              </p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Hiển thị &quot;Sắp đến hạn&quot; khi còn từ số ngày này trở xuống.
+            </p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="graceDays"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Số ngày cao su <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="number"
+              name="graceDays"
+              id="graceDays"
+              min="0"
+              max={MAX_STATUS_THRESHOLD_DAYS}
+              step="1"
+              defaultValue={values?.graceDays ?? settings.graceDays}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.graceDays ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.graceDays && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.graceDays}
+              </p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Sau ngày hết hạn, thành viên ở trạng thái &quot;Quá hạn (cao su)&quot; trong số ngày này trước khi hết hạn hẳn.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Lưu cài đặt
+            </button>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
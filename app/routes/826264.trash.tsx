@@ -0,0 +1,339 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useActionData,
+  useLoaderData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import { ObjectId } from "mongodb";
+import {
+  listCustomers,
+  listTrashedCustomers,
+  purgeCustomer,
+  restoreCustomer,
+} from "~/models/customer.server";
+import {
+  listTrashedPayments,
+  purgePayment,
+  restorePayment,
+} from "~/models/payment.server";
+import {
+  TRASH_RETENTION_DAYS,
+  getTrashPurgeDate,
+  purgeExpiredTrash,
+} from "~/models/trash.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { formatDateOnly } from "~/utils/date";
+import { formatMoney } from "~/utils/currency";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Thùng rác - Quản trị - Kana Box V2" },
+];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "trash.manage");
+
+  const [trashedCustomers, trashedPayments, activeCustomers] = await Promise.all([
+    listTrashedCustomers(),
+    listTrashedPayments(),
+    listCustomers(),
+  ]);
+
+  const customerNames = new Map<string, string>();
+  for (const c of [...activeCustomers, ...trashedCustomers]) {
+    customerNames.set(c._id.toString(), c.displayName);
+  }
+
+  return json({
+    retentionDays: TRASH_RETENTION_DAYS,
+    customers: trashedCustomers.map((c) => ({
+      _id: c._id.toString(),
+      name: c.displayName,
+      deletedAt: c.deletedAt ? formatDateOnly(c.deletedAt) : null,
+      purgeOn: c.deletedAt ? formatDateOnly(getTrashPurgeDate(c.deletedAt)) : null,
+    })),
+    payments: trashedPayments.map((p) => ({
+      _id: p._id.toString(),
+      customerId: p.customerId.toString(),
+      customerName: customerNames.get(p.customerId.toString()) || null,
+      customerDeleted: trashedCustomers.some((c) => c._id.equals(p.customerId)),
+      paidDate: p.paidDate,
+      endDate: p.endDate,
+      currency: p.currency,
+      amount: p.amount,
+      deletedAt: p.deletedAt ? formatDateOnly(p.deletedAt) : null,
+      purgeOn: p.deletedAt ? formatDateOnly(getTrashPurgeDate(p.deletedAt)) : null,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requirePermission(request, "trash.manage");
+  const writeOptions = { actor: actorFromAdmin(user) };
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const id = String(formData.get("id") || "");
+
+  if (intent === "purgeExpired") {
+    await purgeExpiredTrash(writeOptions);
+    return redirect("/826264/trash");
+  }
+
+  if (!ObjectId.isValid(id)) {
+    return redirect("/826264/trash");
+  }
+
+  if (intent === "restoreCustomer") {
+    await restoreCustomer(id, writeOptions);
+    return redirect(`/826264/customers/${id}`);
+  } else if (intent === "purgeCustomer") {
+    await purgeCustomer(id, writeOptions);
+  } else if (intent === "restorePayment") {
+    const payment = await restorePayment(id, writeOptions);
+    if (!payment) {
+      return json(
+        {
+          error:
+            "Không thể khôi phục thanh toán. Nếu thành viên của thanh toán đang ở thùng rác, hãy khôi phục thành viên trước.",
+        },
+        { status: 409 }
+      );
+    }
+    return redirect(`/826264/customers/${payment.customerId.toString()}`);
+  } else if (intent === "purgePayment") {
+    await purgePayment(id, writeOptions);
+  }
+
+  return redirect("/826264/trash");
+}
+
+function TrashActions({ id, restoreIntent, purgeIntent, restoreBlocked }: {
+  id: string;
+  restoreIntent: string;
+  purgeIntent: string;
+  restoreBlocked?: boolean;
+}) {
+  return (
+    <div className="flex items-center justify-end gap-3">
+      {restoreBlocked ? (
+        <span className="text-gray-400" title="Thành viên của thanh toán này đang ở thùng rác">
+          Khôi phục thành viên trước
+        </span>
+      ) : (
+        <Form method="post" className="inline">
+          <input type="hidden" name="intent" value={restoreIntent} />
+          <input type="hidden" name="id" value={id} />
+          <button
+            type="submit"
+            className="text-blue-600 hover:text-blue-900 font-medium"
+          >
+            Khôi phục
+          </button>
+        </Form>
+      )}
+      <Form
+        method="post"
+        className="inline"
+        onSubmit={(e) => {
+          if (!confirm("Xóa vĩnh viễn? Thao tác này không thể hoàn tác.")) {
+            e.preventDefault();
+          }
+        }}
+      >
+        <input type="hidden" name="intent" value={purgeIntent} />
+        <input type="hidden" name="id" value={id} />
+        <button
+          type="submit"
+          className="text-red-600 hover:text-red-900 font-medium"
+        >
+          Xóa vĩnh viễn
+        </button>
+      </Form>
+    </div>
+  );
+}
+
+export default function AdminTrash() {
+  const { retentionDays, customers, payments } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Thùng rác
+        </h1>
+        <div className="mt-1 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-500">
+            Mục đã xóa được giữ {retentionDays} ngày, sau đó bị xóa vĩnh viễn khi chạy{" "}
+            <code>npm run purge:trash</code>.
+          </p>
+          <Form
+            method="post"
+            onSubmit={(e) => {
+              if (!confirm(`Xóa vĩnh viễn các mục đã quá ${retentionDays} ngày?`)) {
+                e.preventDefault();
+              }
+            }}
+          >
+            <input type="hidden" name="intent" value="purgeExpired" />
+            <button
+              type="submit"
+              className="inline-flex items-center px-3 py-1.5 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+            >
+              Xóa các mục quá hạn
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      {actionData?.error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Thành viên ({customers.length})
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Khôi phục thành viên cũng khôi phục các thanh toán bị xóa cùng lúc.
+          </p>
+        </div>
+        {customers.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">
+            Không có thành viên nào trong thùng rác
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tên
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ngày xóa
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Xóa vĩnh viễn vào
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Thao tác
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {customers.map((customer) => (
+                  <tr key={customer._id}>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {customer.name}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {customer.deletedAt || "-"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {customer.purgeOn || "-"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <TrashActions
+                        id={customer._id}
+                        restoreIntent="restoreCustomer"
+                        purgeIntent="purgeCustomer"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">
+            Thanh toán ({payments.length})
+          </h2>
+        </div>
+        {payments.length === 0 ? (
+          <div className="px-6 py-8 text-center text-gray-500">
+            Không có thanh toán nào trong thùng rác
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Thành viên
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ngày thanh toán
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Số tiền
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ngày xóa
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Xóa vĩnh viễn vào
+                  </th>
+                  <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Thao tác
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {payments.map((payment) => (
+                  <tr key={payment._id}>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {payment.customerName || payment.customerId}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {payment.paidDate} → {payment.endDate}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatMoney(payment.amount, payment.currency)}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {payment.deletedAt || "-"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {payment.purgeOn || "-"}
+                    </td>
+                    <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <TrashActions
+                        id={payment._id}
+                        restoreIntent="restorePayment"
+                        purgeIntent="purgePayment"
+                        restoreBlocked={payment.customerDeleted}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
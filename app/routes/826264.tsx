@@ -1,19 +1,65 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
 import {
+  json,
+  Form,
   Link,
   Outlet,
   useLocation,
 } from "@remix-run/react";
 import { useState } from "react";
+import { requireAdmin } from "~/utils/session.server";
+import { getRolePermissions, type Permission } from "~/models/permissions";
+import { useAdmin } from "~/utils/admin";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireAdmin(request);
+  return json({
+    admin: {
+      username: user.username,
+      role: user.role,
+      permissions: getRolePermissions(user.role),
+    },
+  });
+}
+
+function LogoutButton({ className }: { className: string }) {
+  return (
+    <Form method="post" action="/logout">
+      <button type="submit" className={className}>
+        Đăng xuất
+      </button>
+    </Form>
+  );
+}
+
+const NAV_ITEMS: Array<{ to: string; label: string; permission?: Permission }> = [
+  { to: "/826264", label: "Bảng điều khiển" },
+  { to: "/826264/customers/new", label: "Thêm thành viên", permission: "customer.create" },
+  { to: "/826264/customers/import", label: "Nhập CSV", permission: "customer.import" },
+  { to: "/826264/audit", label: "Nhật ký", permission: "audit.view" },
+  { to: "/826264/trash", label: "Thùng rác", permission: "trash.manage" },
+  { to: "/826264/plans", label: "Gói", permission: "plan.manage" },
+  { to: "/826264/exchange-rates", label: "Tỷ giá", permission: "exchangeRate.manage" },
+  { to: "/826264/exports", label: "Xuất dữ liệu", permission: "data.export" },
+  { to: "/826264/settings", label: "Cài đặt", permission: "settings.manage" },
+  { to: "/826264/operators", label: "Người vận hành", permission: "operator.manage" },
+  { to: "/826264/api-tokens", label: "API token", permission: "apiToken.manage" },
+  { to: "/826264/webhooks", label: "Webhook", permission: "webhook.manage" },
+];
 
 function AdminNavigation() {
+  const { username, can } = useAdmin();
   const location = useLocation();
   const currentPath = location.pathname;
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const isActive = (path: string) => currentPath === path;
+  const navItems = NAV_ITEMS.filter(
+    (item) => !item.permission || can(item.permission)
+  );
 
   return (
-    <nav className="bg-gray-900 text-white">
+    <nav className="bg-gray-900 text-white print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-14 sm:h-16">
           <div className="flex items-center">
@@ -21,24 +67,18 @@ function AdminNavigation() {
               Quản trị
             </Link>
             <div className="hidden md:flex ml-10 items-baseline space-x-4">
-              <Link
-                to="/826264"
-                className={`px-3 py-2 rounded-md text-sm font-medium ${isActive("/826264")
-                    ? "bg-gray-800 text-white"
-                    : "text-gray-300 hover:bg-gray-700 hover:text-white"
-                  }`}
-              >
-                Bảng điều khiển
-              </Link>
-              <Link
-                to="/826264/customers/new"
-                className={`px-3 py-2 rounded-md text-sm font-medium ${isActive("/826264/customers/new")
-                    ? "bg-gray-800 text-white"
-                    : "text-gray-300 hover:bg-gray-700 hover:text-white"
-                  }`}
-              >
-                Thêm thành viên
-              </Link>
+              {navItems.map((item) => (
+                <Link
+                  key={item.to}
+                  to={item.to}
+                  className={`px-3 py-2 rounded-md text-sm font-medium ${isActive(item.to)
+                      ? "bg-gray-800 text-white"
+                      : "text-gray-300 hover:bg-gray-700 hover:text-white"
+                    }`}
+                >
+                  {item.label}
+                </Link>
+              ))}
             </div>
           </div>
           <div className="hidden md:flex items-center gap-4">
@@ -48,6 +88,8 @@ function AdminNavigation() {
             >
               Xem trang công khai →
             </Link>
+            <span className="text-sm text-gray-300">{username}</span>
+            <LogoutButton className="text-sm text-gray-400 hover:text-white" />
           </div>
           <button
             type="button"
@@ -69,26 +111,19 @@ function AdminNavigation() {
       {mobileMenuOpen && (
         <div className="md:hidden border-t border-gray-700">
           <div className="px-2 py-3 space-y-1 sm:px-3">
-            <Link
-              to="/826264"
-              onClick={() => setMobileMenuOpen(false)}
-              className={`block px-3 py-2 rounded-md text-base font-medium ${isActive("/826264")
-                  ? "bg-gray-800 text-white"
-                  : "text-gray-300 hover:bg-gray-700 hover:text-white"
-                }`}
-            >
-              Bảng điều khiển
-            </Link>
-            <Link
-              to="/826264/customers/new"
-              onClick={() => setMobileMenuOpen(false)}
-              className={`block px-3 py-2 rounded-md text-base font-medium ${isActive("/826264/customers/new")
-                  ? "bg-gray-800 text-white"
-                  : "text-gray-300 hover:bg-gray-700 hover:text-white"
-                }`}
-            >
-              Thêm thành viên
-            </Link>
+            {navItems.map((item) => (
+              <Link
+                key={item.to}
+                to={item.to}
+                onClick={() => setMobileMenuOpen(false)}
+                className={`block px-3 py-2 rounded-md text-base font-medium ${isActive(item.to)
+                    ? "bg-gray-800 text-white"
+                    : "text-gray-300 hover:bg-gray-700 hover:text-white"
+                  }`}
+              >
+                {item.label}
+              </Link>
+            ))}
             <Link
               to="/"
               onClick={() => setMobileMenuOpen(false)}
@@ -96,6 +131,8 @@ function AdminNavigation() {
             >
               Xem trang công khai →
             </Link>
+            <div className="px-3 pt-2 text-sm text-gray-500">{username}</div>
+            <LogoutButton className="block w-full text-left px-3 py-2 rounded-md text-base font-medium text-gray-400 hover:text-white" />
           </div>
         </div>
       )}
@@ -105,9 +142,9 @@ function AdminNavigation() {
 
 export default function AdminLayout() {
   return (
-    <div className="min-h-screen bg-gray-100">
+    <div className="min-h-screen bg-gray-100 print:bg-white">
       <AdminNavigation />
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8 print:p-0">
         <Outlet />
       </main>
     </div>
@@ -0,0 +1,455 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useLoaderData,
+  useActionData,
+  Form,
+  Link,
+} from "@remix-run/react";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  enqueueWebhookPing,
+  isValidWebhookUrl,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  retryWebhookDelivery,
+  setWebhookEndpointActive,
+} from "~/models/webhook.server";
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  isWebhookEvent,
+} from "~/models/webhookEvents";
+import { requirePermission } from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Webhook - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  errors?: {
+    url?: string;
+    events?: string;
+    form?: string;
+  };
+  values?: {
+    url: string;
+    description: string;
+    events: string[];
+  };
+  created?: {
+    url: string;
+    secret: string;
+  };
+  message?: string;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requirePermission(request, "webhook.manage");
+  const [endpoints, deliveries] = await Promise.all([
+    listWebhookEndpoints(),
+    listWebhookDeliveries(),
+  ]);
+
+  return json({
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    endpoints: endpoints.map((endpoint) => ({
+      _id: endpoint._id.toString(),
+      url: endpoint.url,
+      description: endpoint.description || null,
+      events: endpoint.events,
+      active: endpoint.active,
+    })),
+    deliveries: deliveries.map((delivery) => ({
+      _id: delivery._id.toString(),
+      url: delivery.url,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus ?? null,
+      lastError: delivery.lastError || null,
+      nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+      createdAt: delivery.createdAt.toISOString(),
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requirePermission(request, "webhook.manage");
+
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const endpointId = String(formData.get("endpointId") || "");
+
+  if (intent === "toggle") {
+    const active = formData.get("active") === "true";
+    if (!(await setWebhookEndpointActive(endpointId, active))) {
+      return json<ActionData>(
+        { errors: { form: "Không tìm thấy endpoint" } },
+        { status: 404 }
+      );
+    }
+    return redirect("/826264/webhooks");
+  }
+
+  if (intent === "delete") {
+    if (!(await deleteWebhookEndpoint(endpointId))) {
+      return json<ActionData>(
+        { errors: { form: "Không tìm thấy endpoint" } },
+        { status: 404 }
+      );
+    }
+    return redirect("/826264/webhooks");
+  }
+
+  if (intent === "ping") {
+    if (!(await enqueueWebhookPing(endpointId))) {
+      return json<ActionData>(
+        { errors: { form: "Không tìm thấy endpoint" } },
+        { status: 404 }
+      );
+    }
+    return json<ActionData>({
+      message: "Đã xếp hàng một lần gửi thử. Chạy npm run webhooks:deliver để gửi.",
+    });
+  }
+
+  if (intent === "retry") {
+    const deliveryId = String(formData.get("deliveryId") || "");
+    if (!(await retryWebhookDelivery(deliveryId))) {
+      return json<ActionData>(
+        { errors: { form: "Chỉ có thể gửi lại lần gửi thất bại" } },
+        { status: 400 }
+      );
+    }
+    return redirect("/826264/webhooks");
+  }
+
+  if (intent === "create") {
+    const url = String(formData.get("url") || "").trim();
+    const description = String(formData.get("description") || "").trim();
+    const events = formData.getAll("events").map(String);
+
+    const errors: ActionData["errors"] = {};
+
+    if (!url) {
+      errors.url = "URL là bắt buộc";
+    } else if (!isValidWebhookUrl(url)) {
+      errors.url = "URL phải bắt đầu bằng http:// hoặc https://";
+    }
+
+    const selectedEvents = events.filter(isWebhookEvent);
+    if (selectedEvents.length === 0) {
+      errors.events = "Chọn ít nhất một sự kiện";
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return json<ActionData>(
+        { errors, values: { url, description, events } },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = await createWebhookEndpoint({
+      url,
+      description,
+      events: selectedEvents,
+    });
+    return json<ActionData>({ created: { url: endpoint.url, secret: endpoint.secret } });
+  }
+
+  return redirect("/826264/webhooks");
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("vi-VN");
+}
+
+const DELIVERY_STATUS_CLASSES = {
+  pending: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+} as const;
+
+export default function AdminWebhooks() {
+  const { endpoints, deliveries, maxAttempts } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionData>();
+  const selectedEvents = actionData?.values?.events;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          to="/826264"
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          ← Quay lại bảng điều khiển
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-2xl font-bold text-gray-900">
+          Webhook
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Mỗi sự kiện được gửi POST dạng JSON, ký HMAC-SHA256 trong header{" "}
+          <code>X-KanaBox-Signature</code>. Lần gửi lỗi được thử lại với thời gian chờ tăng
+          dần, tối đa {maxAttempts} lần. Hàng đợi được xử lý bởi{" "}
+          <code>npm run webhooks:deliver</code>.
+        </p>
+      </div>
+
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{actionData.errors.form}</p>
+        </div>
+      )}
+
+      {actionData?.message && (
+        <div className="rounded-md bg-blue-50 p-4">
+          <p className="text-sm text-blue-800">{actionData.message}</p>
+        </div>
+      )}
+
+      {actionData?.created && (
+        <div className="rounded-md bg-green-50 p-4 space-y-2">
+          <p className="text-sm text-green-800">
+            Đã thêm endpoint <strong>{actionData.created.url}</strong>. Khóa ký dưới đây chỉ
+            hiển thị một lần; dùng nó để kiểm tra chữ ký ở phía nhận.
+          </p>
+          <input
+            type="text"
+            readOnly
+            value={actionData.created.secret}
+            onFocus={(event) => event.currentTarget.select()}
+            className="block w-full rounded-md border-gray-300 bg-white font-mono text-sm"
+          />
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {endpoints.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Chưa có endpoint nào.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Endpoint
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sự kiện
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thao tác
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {endpoints.map((endpoint) => (
+                <tr key={endpoint._id} className={endpoint.active ? undefined : "opacity-60"}>
+                  <td className="px-4 sm:px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900 break-all">{endpoint.url}</div>
+                    {endpoint.description && (
+                      <div className="text-gray-500">{endpoint.description}</div>
+                    )}
+                    {!endpoint.active && <div className="text-xs text-gray-500">Đã tắt</div>}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 text-sm text-gray-500">
+                    {endpoint.events.map((event) => WEBHOOK_EVENT_LABELS[event]).join(", ")}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-right space-x-3">
+                    <Form method="post" className="inline">
+                      <input type="hidden" name="intent" value="ping" />
+                      <input type="hidden" name="endpointId" value={endpoint._id} />
+                      <button type="submit" className="text-blue-600 hover:text-blue-900 font-medium">
+                        Gửi thử
+                      </button>
+                    </Form>
+                    <Form method="post" className="inline">
+                      <input type="hidden" name="intent" value="toggle" />
+                      <input type="hidden" name="endpointId" value={endpoint._id} />
+                      <input type="hidden" name="active" value={endpoint.active ? "false" : "true"} />
+                      <button type="submit" className="text-gray-600 hover:text-gray-900 font-medium">
+                        {endpoint.active ? "Tắt" : "Bật"}
+                      </button>
+                    </Form>
+                    <Form
+                      method="post"
+                      className="inline"
+                      onSubmit={(event) => {
+                        if (!confirm(`Xóa endpoint ${endpoint.url}?`)) {
+                          event.preventDefault();
+                        }
+                      }}
+                    >
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="endpointId" value={endpoint._id} />
+                      <button type="submit" className="text-red-600 hover:text-red-900 font-medium">
+                        Xóa
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg max-w-2xl">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Thêm endpoint</h2>
+        </div>
+        <Form method="post" className="space-y-6 p-6">
+          <input type="hidden" name="intent" value="create" />
+
+          <div>
+            <label htmlFor="url" className="block text-sm font-medium text-gray-700">
+              URL <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="url"
+              name="url"
+              id="url"
+              defaultValue={actionData?.values?.url || ""}
+              placeholder="https://example.com/kanabox-webhook"
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.url ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.url && (
+              <p className="mt-1 text-sm text-red-600">{actionData.errors.url}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+              Mô tả
+            </label>
+            <input
+              type="text"
+              name="description"
+              id="description"
+              defaultValue={actionData?.values?.description || ""}
+              placeholder="Bot Discord"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700">
+              Sự kiện <span className="text-red-500">*</span>
+            </legend>
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    name="events"
+                    value={event}
+                    defaultChecked={selectedEvents ? selectedEvents.includes(event) : true}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {WEBHOOK_EVENT_LABELS[event]} <code className="text-xs text-gray-400">{event}</code>
+                </label>
+              ))}
+            </div>
+            {actionData?.errors?.events && (
+              <p className="mt-1 text-sm text-red-600">{actionData.errors.events}</p>
+            )}
+          </fieldset>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Thêm endpoint
+            </button>
+          </div>
+        </Form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Nhật ký gửi</h2>
+        </div>
+        {deliveries.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            Chưa có lần gửi nào.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Thời gian
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sự kiện
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Endpoint
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Trạng thái
+                </th>
+                <th className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Kết quả
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {deliveries.map((delivery) => (
+                <tr key={delivery._id}>
+                  <td className="px-4 sm:px-6 py-3 whitespace-nowrap text-gray-500">
+                    {formatDateTime(delivery.createdAt)}
+                  </td>
+                  <td className="px-4 sm:px-6 py-3 whitespace-nowrap text-gray-900">
+                    {WEBHOOK_EVENT_LABELS[delivery.event]}
+                  </td>
+                  <td className="px-4 sm:px-6 py-3 text-gray-500 break-all">{delivery.url}</td>
+                  <td className="px-4 sm:px-6 py-3 whitespace-nowrap">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_CLASSES[delivery.status]}`}
+                    >
+                      {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {delivery.attempts}/{maxAttempts} lần
+                    </span>
+                  </td>
+                  <td className="px-4 sm:px-6 py-3 text-gray-500">
+                    {delivery.lastError || (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "-")}
+                    {delivery.status === "pending" && delivery.attempts > 0 && (
+                      <div className="text-xs">
+                        Thử lại lúc {formatDateTime(delivery.nextAttemptAt)}
+                      </div>
+                    )}
+                    {delivery.status === "failed" && (
+                      <Form method="post" className="inline ml-2">
+                        <input type="hidden" name="intent" value="retry" />
+                        <input type="hidden" name="deliveryId" value={delivery._id} />
+                        <button type="submit" className="text-blue-600 hover:text-blue-900 font-medium">
+                          Gửi lại
+                        </button>
+                      </Form>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,10 @@ import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
 import { json, useLoaderData } from "@remix-run/react";
 import { useState, useRef, useEffect } from "react";
 import { listCustomers } from "~/models/customer.server";
-import {
-  computeStatus,
-  listLatestPaymentsForAllCustomers,
-} from "~/models/payment.server";
+import { listPaymentsByCustomer } from "~/models/payment.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import { getStatusThresholds } from "~/models/settings.server";
+import { computeCustomerStatus } from "~/models/subscriptionStatus";
 import { getTodayDateOnly } from "~/utils/date";
 import CustomerTable from "~/components/CustomerTable";
 import PublicLanguageSelect from "~/components/PublicLanguageSelect";
@@ -24,10 +24,18 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const strings = getPublicStrings(lang);
   const customers = await listCustomers(searchQuery, { publicOnly: false });
   const today = getTodayDateOnly();
-  const latestPaymentsMap = await listLatestPaymentsForAllCustomers();
+  const [paymentsByCustomer, thresholds] = await Promise.all([
+    listPaymentsByCustomer(),
+    getStatusThresholds(),
+  ]);
   const customersWithStatus = customers.map((customer) => {
-    const latestPayment = latestPaymentsMap.get(customer._id.toString());
-    const computedStatus = computeStatus(latestPayment?.endDate || null);
+    const payments = paymentsByCustomer.get(customer._id.toString()) || [];
+    const latestPayment = payments[0];
+    const computedStatus = computeCustomerStatus(
+      getCurrentCoverage(buildCoverageTimeline(payments)),
+      thresholds,
+      customer
+    );
     const status = {
       ...computedStatus,
       label: strings.statusLabels[computedStatus.status],
@@ -35,8 +43,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
     const isHidden =
       customer.isPublicHidden ||
       (customer.renewalCancelled &&
-        latestPayment?.endDate &&
-        today > latestPayment.endDate);
+        computedStatus.effectiveEndDate &&
+        today > computedStatus.effectiveEndDate);
     return {
       customer: {
         _id: customer._id.toString(),
@@ -47,7 +55,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
         ? {
           _id: latestPayment._id.toString(),
           paidDate: latestPayment.paidDate,
-          endDate: latestPayment.endDate,
+          endDate: computedStatus.effectiveEndDate || latestPayment.endDate,
           currency: latestPayment.currency,
           amount: latestPayment.amount,
           months: latestPayment.months,
@@ -60,7 +68,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   });
   const publicCustomers = customersWithStatus.filter((c) => !c.isHidden);
 
-  const statusCounts = { active: 0, due: 0, grace: 0, expired: 0 };
+  const statusCounts = { active: 0, due: 0, grace: 0, expired: 0, paused: 0 };
   for (const c of publicCustomers) {
     const s = c.status.status;
     if (s in statusCounts) {
@@ -155,7 +163,7 @@ export default function PublicHome() {
           optionEn={strings.languageOptions.en}
         />
       </div>
-      <div className="grid grid-cols-2 gap-3 sm:gap-4 lg:grid-cols-5">
+      <div className="grid grid-cols-2 gap-3 sm:gap-4 lg:grid-cols-6">
         <StatusCard
           title={strings.membersHeading}
           count={totalCount}
@@ -201,6 +209,15 @@ export default function PublicHome() {
           onClick={() => setStatusFilter(statusFilter === "expired" ? null : "expired")}
           isSelected={statusFilter === "expired"}
         />
+        <StatusCard
+          title={strings.statusLabels.paused}
+          count={statusCounts.paused}
+          bgClass="bg-sky-100"
+          borderClass="border-sky-600"
+          textClass="text-sky-900"
+          onClick={() => setStatusFilter(statusFilter === "paused" ? null : "paused")}
+          isSelected={statusFilter === "paused"}
+        />
       </div>
       <div>
         <input
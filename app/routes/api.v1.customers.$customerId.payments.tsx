@@ -0,0 +1,63 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/react";
+import { getCustomerById } from "~/models/customer.server";
+import {
+  createPayment,
+  listPaymentsForCustomer,
+  serializePayment,
+} from "~/models/payment.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { parsePaymentBody } from "~/models/apiResources.server";
+import {
+  apiError,
+  apiMethodNotAllowed,
+  apiNotFound,
+  apiValidationError,
+  readJsonObject,
+  requireApiPermission,
+  requireApiUser,
+} from "~/utils/api.server";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireApiUser(request);
+  const customerId = params.customerId || "";
+
+  if (!(await getCustomerById(customerId))) {
+    return apiNotFound("Không tìm thấy thành viên");
+  }
+
+  const payments = await listPaymentsForCustomer(customerId);
+  return json({ data: payments.map(serializePayment) });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return apiMethodNotAllowed(["GET", "POST"]);
+  }
+
+  const user = await requireApiPermission(request, "payment.create");
+  const customerId = params.customerId || "";
+
+  if (!(await getCustomerById(customerId))) {
+    return apiNotFound("Không tìm thấy thành viên");
+  }
+
+  const { input, errors } = await parsePaymentBody(await readJsonObject(request));
+  if (Object.keys(errors).length > 0) {
+    return apiValidationError(errors);
+  }
+
+  try {
+    const payment = await createPayment(
+      { ...input, customerId },
+      { actor: actorFromAdmin(user) }
+    );
+    return json(
+      { data: serializePayment(payment) },
+      { status: 201, headers: { Location: `/api/v1/payments/${payment._id.toString()}` } }
+    );
+  } catch (error) {
+    console.error("Error creating payment via API:", error);
+    return apiError(500, "internal_error", "Tạo thanh toán thất bại");
+  }
+}
@@ -0,0 +1,98 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/react";
+import {
+  customerExistsByDisplayName,
+  deleteCustomerWithPayments,
+  getCustomerById,
+  updateCustomer,
+} from "~/models/customer.server";
+import { listPaymentsForCustomer } from "~/models/payment.server";
+import { getStatusThresholds } from "~/models/settings.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { parseCustomerBody, serializeCustomer } from "~/models/apiResources.server";
+import {
+  apiError,
+  apiMethodNotAllowed,
+  apiNotFound,
+  apiValidationError,
+  isDuplicateKeyError,
+  readJsonObject,
+  requireApiPermission,
+  requireApiUser,
+} from "~/utils/api.server";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireApiUser(request);
+  const customerId = params.customerId || "";
+
+  const customer = await getCustomerById(customerId);
+  if (!customer) {
+    return apiNotFound("Không tìm thấy thành viên");
+  }
+
+  const [payments, thresholds] = await Promise.all([
+    listPaymentsForCustomer(customerId),
+    getStatusThresholds(),
+  ]);
+
+  return json({ data: serializeCustomer(customer, payments, thresholds) });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const customerId = params.customerId || "";
+
+  if (request.method === "DELETE") {
+    const user = await requireApiPermission(request, "customer.delete");
+    const deleted = await deleteCustomerWithPayments(customerId, {
+      actor: actorFromAdmin(user),
+    });
+    return deleted
+      ? new Response(null, { status: 204 })
+      : apiNotFound("Không tìm thấy thành viên");
+  }
+
+  if (request.method !== "PATCH") {
+    return apiMethodNotAllowed(["GET", "PATCH", "DELETE"]);
+  }
+
+  const user = await requireApiPermission(request, "customer.edit");
+  const customer = await getCustomerById(customerId);
+  if (!customer) {
+    return apiNotFound("Không tìm thấy thành viên");
+  }
+
+  const { input, errors } = parseCustomerBody(await readJsonObject(request), customer);
+  if (Object.keys(errors).length > 0) {
+    return apiValidationError(errors);
+  }
+
+  const duplicateMessage = "Đã có thành viên với tên này";
+  const renamed =
+    input.displayName.toLocaleLowerCase("vi") !== customer.displayName.toLocaleLowerCase("vi");
+  if (renamed && (await customerExistsByDisplayName(input.displayName))) {
+    return apiError(409, "conflict", duplicateMessage, { displayName: duplicateMessage });
+  }
+
+  try {
+    const updated = await updateCustomer(
+      customerId,
+      { displayName: input.displayName, note: input.note, email: input.email },
+      { actor: actorFromAdmin(user) }
+    );
+    if (!updated) {
+      return apiNotFound("Không tìm thấy thành viên");
+    }
+
+    const [payments, thresholds] = await Promise.all([
+      listPaymentsForCustomer(customerId),
+      getStatusThresholds(),
+    ]);
+    return json({ data: serializeCustomer(updated, payments, thresholds) });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return apiError(409, "conflict", duplicateMessage, { displayName: duplicateMessage });
+    }
+    console.error("Error updating customer via API:", error);
+    return apiError(500, "internal_error", "Cập nhật thành viên thất bại");
+  }
+}
@@ -0,0 +1,72 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/react";
+import {
+  createCustomer,
+  customerExistsByDisplayName,
+  listCustomers,
+} from "~/models/customer.server";
+import { listPaymentsByCustomer } from "~/models/payment.server";
+import { getStatusThresholds } from "~/models/settings.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { parseCustomerBody, serializeCustomer } from "~/models/apiResources.server";
+import {
+  apiError,
+  apiMethodNotAllowed,
+  apiValidationError,
+  isDuplicateKeyError,
+  readJsonObject,
+  requireApiPermission,
+  requireApiUser,
+} from "~/utils/api.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireApiUser(request);
+  const query = new URL(request.url).searchParams.get("q") || undefined;
+
+  const [customers, paymentsByCustomer, thresholds] = await Promise.all([
+    listCustomers(query),
+    listPaymentsByCustomer(),
+    getStatusThresholds(),
+  ]);
+
+  return json({
+    data: customers.map((customer) =>
+      serializeCustomer(
+        customer,
+        paymentsByCustomer.get(customer._id.toString()) || [],
+        thresholds
+      )
+    ),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return apiMethodNotAllowed(["GET", "POST"]);
+  }
+
+  const user = await requireApiPermission(request, "customer.create");
+  const { input, errors } = parseCustomerBody(await readJsonObject(request));
+  if (Object.keys(errors).length > 0) {
+    return apiValidationError(errors);
+  }
+
+  const duplicateMessage = "Đã có thành viên với tên này";
+  if (await customerExistsByDisplayName(input.displayName)) {
+    return apiError(409, "conflict", duplicateMessage, { displayName: duplicateMessage });
+  }
+
+  try {
+    const customer = await createCustomer(input, { actor: actorFromAdmin(user) });
+    return json(
+      { data: serializeCustomer(customer, [], await getStatusThresholds()) },
+      { status: 201, headers: { Location: `/api/v1/customers/${customer._id.toString()}` } }
+    );
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return apiError(409, "conflict", duplicateMessage, { displayName: duplicateMessage });
+    }
+    console.error("Error creating customer via API:", error);
+    return apiError(500, "internal_error", "Tạo thành viên thất bại");
+  }
+}
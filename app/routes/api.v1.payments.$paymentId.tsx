@@ -0,0 +1,71 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/react";
+import {
+  deletePayment,
+  getPaymentById,
+  serializePayment,
+  updatePayment,
+} from "~/models/payment.server";
+import { actorFromAdmin } from "~/models/audit.server";
+import { parsePaymentBody } from "~/models/apiResources.server";
+import {
+  apiError,
+  apiMethodNotAllowed,
+  apiNotFound,
+  apiValidationError,
+  readJsonObject,
+  requireApiPermission,
+  requireApiUser,
+} from "~/utils/api.server";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireApiUser(request);
+
+  const payment = await getPaymentById(params.paymentId || "");
+  if (!payment) {
+    return apiNotFound("Không tìm thấy thanh toán");
+  }
+
+  return json({ data: serializePayment(payment) });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const paymentId = params.paymentId || "";
+
+  if (request.method === "DELETE") {
+    const user = await requireApiPermission(request, "payment.delete");
+    const deleted = await deletePayment(paymentId, { actor: actorFromAdmin(user) });
+    return deleted
+      ? new Response(null, { status: 204 })
+      : apiNotFound("Không tìm thấy thanh toán");
+  }
+
+  if (request.method !== "PATCH") {
+    return apiMethodNotAllowed(["GET", "PATCH", "DELETE"]);
+  }
+
+  const user = await requireApiPermission(request, "payment.update");
+  const payment = await getPaymentById(paymentId);
+  if (!payment) {
+    return apiNotFound("Không tìm thấy thanh toán");
+  }
+
+  const { input, errors } = await parsePaymentBody(await readJsonObject(request), payment);
+  if (Object.keys(errors).length > 0) {
+    return apiValidationError(errors);
+  }
+
+  try {
+    const updated = await updatePayment(
+      { ...input, id: paymentId },
+      { actor: actorFromAdmin(user) }
+    );
+    if (!updated) {
+      return apiNotFound("Không tìm thấy thanh toán");
+    }
+    return json({ data: serializePayment(updated) });
+  } catch (error) {
+    console.error("Error updating payment via API:", error);
+    return apiError(500, "internal_error", "Cập nhật thanh toán thất bại");
+  }
+}
@@ -2,8 +2,11 @@ import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
 import { json, useLoaderData } from "@remix-run/react";
 import { ObjectId } from "mongodb";
 import { getCustomerById } from "~/models/customer.server";
-import { getLatestPaymentForCustomer } from "~/models/payment.server";
-import { computeStatus } from "~/models/subscriptionStatus";
+import { listPaymentsForCustomer } from "~/models/payment.server";
+import { buildCoverageTimeline, getCurrentCoverage } from "~/models/coverage";
+import { getStatusThresholds } from "~/models/settings.server";
+import { computeCustomerStatus } from "~/models/subscriptionStatus";
+import { formatMoney } from "~/utils/currency";
 import PublicLanguageSelect from "~/components/PublicLanguageSelect";
 import { getPublicStrings, normalizePublicLang } from "~/i18n/public";
 
@@ -28,8 +31,16 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
     throw new Response("Không tìm thấy thành viên", { status: 404 });
   }
 
-  const latestPayment = await getLatestPaymentForCustomer(customerId);
-  const computedStatus = computeStatus(latestPayment?.endDate || null);
+  const [payments, thresholds] = await Promise.all([
+    listPaymentsForCustomer(customerId),
+    getStatusThresholds(),
+  ]);
+  const latestPayment = payments[0] || null;
+  const computedStatus = computeCustomerStatus(
+    getCurrentCoverage(buildCoverageTimeline(payments)),
+    thresholds,
+    customer
+  );
   const status = {
     ...computedStatus,
     label: strings.statusLabels[computedStatus.status],
@@ -45,7 +56,7 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
       ? {
           _id: latestPayment._id.toString(),
           paidDate: latestPayment.paidDate,
-          endDate: latestPayment.endDate,
+          endDate: computedStatus.effectiveEndDate || latestPayment.endDate,
           currency: latestPayment.currency,
           amount: latestPayment.amount,
           months: latestPayment.months,
@@ -69,6 +80,7 @@ function StatusBadge({
     due: "bg-yellow-100 text-yellow-800 border border-yellow-600",
     grace: "bg-orange-100 text-orange-800 border border-orange-600",
     expired: "bg-red-100 text-red-800 border border-red-600",
+    paused: "bg-sky-100 text-sky-800 border border-sky-600",
     none: "bg-gray-100 text-gray-800 border border-gray-400",
   };
 
@@ -81,13 +93,6 @@ function StatusBadge({
   );
 }
 
-function formatCurrency(amount: number, currency: string): string {
-  if (currency === "VND") {
-    return `${amount.toLocaleString("vi-VN")} ₫`;
-  }
-  return `$${amount.toFixed(2)}`;
-}
-
 export default function PublicCustomerDetail() {
   const { customer, latestPayment, status, lang } = useLoaderData<typeof loader>();
   const strings = getPublicStrings(lang);
@@ -113,6 +118,8 @@ export default function PublicCustomerDetail() {
             ? "border-l-4 border-l-yellow-500"
             : status.status === "grace"
             ? "border-l-4 border-l-orange-500"
+            : status.status === "paused"
+            ? "border-l-4 border-l-sky-500"
             : "border-l-4 border-l-red-500"
         }`}
       >
@@ -169,7 +176,7 @@ export default function PublicCustomerDetail() {
                   {strings.customerDetail.latestPayment}
                 </dt>
                 <dd className="mt-1 text-lg font-semibold text-gray-900">
-                  {formatCurrency(latestPayment.amount, latestPayment.currency)}
+                  {formatMoney(latestPayment.amount, latestPayment.currency)}
                 </dd>
               </div>
               <div>
@@ -0,0 +1,160 @@
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/node";
+import {
+  redirect,
+  json,
+  useActionData,
+  useSearchParams,
+  Form,
+} from "@remix-run/react";
+import { verifyAdminLogin } from "~/models/adminUser.server";
+import {
+  createAdminSession,
+  getAdminFromSession,
+  getSafeRedirectTo,
+} from "~/utils/session.server";
+
+export const meta: MetaFunction = () => [
+  { title: "Đăng nhập - Quản trị - Kana Box V2" },
+];
+
+interface ActionData {
+  errors?: {
+    username?: string;
+    password?: string;
+    form?: string;
+  };
+  values?: {
+    username: string;
+  };
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getAdminFromSession(request);
+  if (user) {
+    const url = new URL(request.url);
+    return redirect(getSafeRedirectTo(url.searchParams.get("redirectTo")));
+  }
+  return json({});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const username = String(formData.get("username") || "").trim();
+  const password = String(formData.get("password") || "");
+  const redirectTo = getSafeRedirectTo(formData.get("redirectTo"));
+
+  const errors: ActionData["errors"] = {};
+
+  if (!username) {
+    errors.username = "Tên đăng nhập là bắt buộc";
+  }
+
+  if (!password) {
+    errors.password = "Mật khẩu là bắt buộc";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return json<ActionData>({ errors, values: { username } }, { status: 400 });
+  }
+
+  const user = await verifyAdminLogin(username, password);
+  if (!user) {
+    return json<ActionData>(
+      {
+        errors: { form: "Tên đăng nhập hoặc mật khẩu không đúng" },
+        values: { username },
+      },
+      { status: 401 }
+    );
+  }
+
+  return createAdminSession(user, redirectTo);
+}
+
+export default function AdminLogin() {
+  const actionData = useActionData<ActionData>();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get("redirectTo") || "/826264";
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="mb-6">
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          Đăng nhập quản trị
+        </h1>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <Form method="post" className="space-y-6 p-6">
+          <input type="hidden" name="redirectTo" value={redirectTo} />
+
+          {actionData?.errors?.form && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-700">{actionData.errors.form}</p>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="username"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Tên đăng nhập <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              name="username"
+              id="username"
+              autoComplete="username"
+              defaultValue={actionData?.values?.username || ""}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.username ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.username && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.username}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Mật khẩu <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="password"
+              name="password"
+              id="password"
+              autoComplete="current-password"
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${actionData?.errors?.password ? "border-red-300" : ""
+                }`}
+              required
+            />
+            {actionData?.errors?.password && (
+              <p className="mt-1 text-sm text-red-600">
+                {actionData.errors.password}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end">
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Đăng nhập
+            </button>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { redirect, type ActionFunctionArgs } from "@remix-run/node";
+import { logout } from "~/utils/session.server";
+
+export function loader() {
+  return redirect("/");
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  return logout(request);
+}
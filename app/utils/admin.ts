@@ -0,0 +1,18 @@
+import { useRouteLoaderData } from "@remix-run/react";
+import type { loader as adminLayoutLoader } from "~/routes/826264";
+import type { Permission } from "~/models/permissions";
+
+export function useAdmin() {
+  const data = useRouteLoaderData<typeof adminLayoutLoader>("routes/826264");
+  if (!data) {
+    throw new Error("useAdmin must be used inside the admin layout.");
+  }
+
+  const { username, role, permissions } = data.admin;
+
+  return {
+    username,
+    role,
+    can: (permission: Permission) => permissions.includes(permission),
+  };
+}
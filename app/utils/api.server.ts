@@ -0,0 +1,121 @@
+import { json } from "@remix-run/node";
+import { getAdminUserById, type AdminUser } from "~/models/adminUser.server";
+import { authenticateApiToken } from "~/models/apiToken.server";
+import { hasPermission, type Permission } from "~/models/permissions";
+import {
+  getAdminFromSession,
+  requireAdmin,
+  requirePermission,
+} from "~/utils/session.server";
+
+const READ_ONLY_METHODS = ["GET", "HEAD"];
+
+export type ApiErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "method_not_allowed"
+  | "invalid_json"
+  | "validation_failed"
+  | "conflict"
+  | "internal_error";
+
+export type FieldErrors = Record<string, string>;
+
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  fields?: FieldErrors
+): Response {
+  return json({ error: { code, message, ...(fields ? { fields } : {}) } }, { status });
+}
+
+export function apiNotFound(message = "Không tìm thấy tài nguyên"): Response {
+  return apiError(404, "not_found", message);
+}
+
+export function apiValidationError(fields: FieldErrors): Response {
+  return apiError(422, "validation_failed", "Dữ liệu không hợp lệ", fields);
+}
+
+export function apiMethodNotAllowed(allowed: string[]): Response {
+  return json(
+    { error: { code: "method_not_allowed", message: "Phương thức không được hỗ trợ" } },
+    { status: 405, headers: { Allow: allowed.join(", ") } }
+  );
+}
+
+// A token acts as the operator who minted it; read-only tokens are further limited
+// to safe methods regardless of that operator's role.
+async function requireTokenUser(request: Request): Promise<AdminUser> {
+  const match = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  const token = match ? await authenticateApiToken(match[1]) : null;
+  const user = token ? await getAdminUserById(token.userId.toString()) : null;
+  if (!token || !user) {
+    throw apiError(401, "unauthorized", "Token không hợp lệ hoặc đã bị thu hồi");
+  }
+
+  if (token.scope === "read" && !READ_ONLY_METHODS.includes(request.method)) {
+    throw apiError(403, "forbidden", "Token chỉ có quyền đọc");
+  }
+  return user;
+}
+
+export async function requireApiUser(request: Request): Promise<AdminUser> {
+  if (request.headers.has("Authorization")) {
+    return requireTokenUser(request);
+  }
+
+  const user = await getAdminFromSession(request);
+  if (!user) {
+    throw apiError(401, "unauthorized", "Cần đăng nhập");
+  }
+  return user;
+}
+
+export async function requireApiPermission(
+  request: Request,
+  permission: Permission
+): Promise<AdminUser> {
+  const user = await requireApiUser(request);
+  if (!hasPermission(user.role, permission)) {
+    throw apiError(403, "forbidden", "Bạn không có quyền thực hiện thao tác này");
+  }
+  return user;
+}
+
+// For downloads (CSV, PDF) that browsers reach through the admin UI: a bearer token
+// is checked like the JSON API, anything else falls back to the login redirect.
+export async function requireResourceAccess(
+  request: Request,
+  permission?: Permission
+): Promise<AdminUser> {
+  if (request.headers.has("Authorization")) {
+    return permission ? requireApiPermission(request, permission) : requireApiUser(request);
+  }
+  return permission ? requirePermission(request, permission) : requireAdmin(request);
+}
+
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw apiError(400, "invalid_json", "Nội dung phải là JSON hợp lệ");
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw apiError(400, "invalid_json", "Nội dung phải là một đối tượng JSON");
+  }
+  return body as Record<string, unknown>;
+}
+
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: unknown }).code === 11000
+  );
+}
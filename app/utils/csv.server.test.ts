@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvValue, parseCsv, toCsvLine, unescapeCsvFormula } from "~/utils/csv.server";
+
+describe("escapeCsvValue", () => {
+  it("leaves plain values as they are", () => {
+    expect(escapeCsvValue("Nguyễn Văn A")).toBe("Nguyễn Văn A");
+    expect(escapeCsvValue(1250.5)).toBe("1250.5");
+    expect(escapeCsvValue(true)).toBe("true");
+  });
+
+  it("writes null and undefined as empty cells", () => {
+    expect(escapeCsvValue(null)).toBe("");
+    expect(escapeCsvValue(undefined)).toBe("");
+  });
+
+  it("quotes values containing separators, quotes or line breaks", () => {
+    expect(escapeCsvValue("a,b")).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue("line\nbreak")).toBe('"line\nbreak"');
+  });
+
+  it("neutralizes text that a spreadsheet would run as a formula", () => {
+    expect(escapeCsvValue("=SUM(A1:A2)")).toBe("'=SUM(A1:A2)");
+    expect(escapeCsvValue("+84901234567")).toBe("'+84901234567");
+    expect(escapeCsvValue("-1")).toBe("'-1");
+    expect(escapeCsvValue("@user")).toBe("'@user");
+    expect(escapeCsvValue('=HYPERLINK("x","y")')).toBe('"\'=HYPERLINK(""x"",""y"")"');
+  });
+
+  it("keeps negative numbers numeric", () => {
+    expect(escapeCsvValue(-1)).toBe("-1");
+  });
+});
+
+describe("unescapeCsvFormula", () => {
+  it("restores values neutralized on export", () => {
+    for (const value of ["=SUM(A1:A2)", "+84901234567", "-1", "@user", "\tindent"]) {
+      expect(unescapeCsvFormula(escapeCsvValue(value))).toBe(value);
+    }
+  });
+
+  it("keeps a leading apostrophe that was not added on export", () => {
+    expect(unescapeCsvFormula("'quoted")).toBe("'quoted");
+    expect(unescapeCsvFormula("plain")).toBe("plain");
+  });
+});
+
+describe("toCsvLine", () => {
+  it("joins escaped values and ends with CRLF", () => {
+    expect(toCsvLine(["a", 1, null, "b,c"])).toBe('a,1,,"b,c"\r\n');
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads back what the exports write", () => {
+    const text =
+      "\uFEFF" +
+      toCsvLine(["Tên", "Ghi chú"]) +
+      toCsvLine(["A, B", 'nói "xin chào"']) +
+      toCsvLine(["C", "hai\ndòng"]);
+
+    expect(parseCsv(text)).toEqual([
+      ["Tên", "Ghi chú"],
+      ["A, B", 'nói "xin chào"'],
+      ["C", "hai\ndòng"],
+    ]);
+  });
+
+  it("detects semicolon-separated files and skips blank lines", () => {
+    expect(parseCsv("name;amount\n\nA;1,5\n")).toEqual([
+      ["name", "amount"],
+      ["A", "1,5"],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+const UTF8_BOM = "\uFEFF";
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  // Spreadsheets run text cells starting with these characters as formulas.
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function toCsvLine(values: CsvValue[]): string {
+  return `${values.map(escapeCsvValue).join(",")}\r\n`;
+}
+
+export function createCsvResponse(
+  filename: string,
+  header: string[],
+  rows: AsyncIterable<CsvValue[]> | Iterable<CsvValue[]>
+): Response {
+  const encoder = new TextEncoder();
+  const iterator =
+    Symbol.asyncIterator in rows
+      ? rows[Symbol.asyncIterator]()
+      : (rows as Iterable<CsvValue[]>)[Symbol.iterator]();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(UTF8_BOM + toCsvLine(header)));
+    },
+    async pull(controller) {
+      const next = await iterator.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(toCsvLine(next.value)));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
+
+// Excel in locales with a decimal comma saves "CSV" with semicolons, so the
+// delimiter is picked from whichever candidate appears most in the header line.
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of [",", ";", "\t"]) {
+    const count = header.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const delimiter = detectDelimiter(input);
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
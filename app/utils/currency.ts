@@ -0,0 +1,98 @@
+export interface CurrencyDefinition {
+  code: string;
+  minorDigits: number;
+  symbol: string;
+  symbolPosition: "prefix" | "suffix";
+  locale: string;
+}
+
+export const CURRENCIES = {
+  VND: {
+    code: "VND",
+    minorDigits: 0,
+    symbol: "₫",
+    symbolPosition: "suffix",
+    locale: "vi-VN",
+  },
+  USD: {
+    code: "USD",
+    minorDigits: 2,
+    symbol: "$",
+    symbolPosition: "prefix",
+    locale: "en-US",
+  },
+  EUR: {
+    code: "EUR",
+    minorDigits: 2,
+    symbol: "€",
+    symbolPosition: "suffix",
+    locale: "de-DE",
+  },
+  JPY: {
+    code: "JPY",
+    minorDigits: 0,
+    symbol: "¥",
+    symbolPosition: "prefix",
+    locale: "ja-JP",
+  },
+} as const satisfies Record<string, CurrencyDefinition>;
+
+export type Currency = keyof typeof CURRENCIES;
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as Currency[];
+
+export const DEFAULT_CURRENCY: Currency = "VND";
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CURRENCIES, value);
+}
+
+export function parseCurrency(value: unknown): Currency {
+  return isCurrency(value) ? value : DEFAULT_CURRENCY;
+}
+
+export function getCurrency(currency: Currency): CurrencyDefinition {
+  return CURRENCIES[currency];
+}
+
+function minorFactor(currency: Currency): number {
+  return 10 ** CURRENCIES[currency].minorDigits;
+}
+
+export function toMinorUnits(amount: number, currency: Currency): number {
+  return Math.round(amount * minorFactor(currency));
+}
+
+export function fromMinorUnits(minorUnits: number, currency: Currency): number {
+  return minorUnits / minorFactor(currency);
+}
+
+export function roundMoney(amount: number, currency: Currency): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+export function hasValidMinorUnits(amount: number, currency: Currency): boolean {
+  return Math.abs(roundMoney(amount, currency) - amount) < 1e-9;
+}
+
+export function getAmountStep(currency: Currency): string {
+  const { minorDigits } = CURRENCIES[currency];
+  return minorDigits === 0 ? "1" : (1 / 10 ** minorDigits).toFixed(minorDigits);
+}
+
+export function getAmountPrecisionMessage(currency: Currency): string {
+  const { minorDigits } = CURRENCIES[currency];
+  return minorDigits === 0
+    ? `Số tiền ${currency} phải là số nguyên (không có phần thập phân)`
+    : `Số tiền ${currency} tối đa ${minorDigits} chữ số thập phân`;
+}
+
+export function formatMoney(amount: number, currency: Currency): string {
+  const { minorDigits, symbol, symbolPosition, locale } = CURRENCIES[currency];
+  const number = amount.toLocaleString(locale, {
+    minimumFractionDigits: minorDigits,
+    maximumFractionDigits: minorDigits,
+  });
+
+  return symbolPosition === "prefix" ? `${symbol}${number}` : `${number} ${symbol}`;
+}
@@ -1,3 +1,6 @@
+export const DEFAULT_CYCLE_START_DAY = 6;
+export const MAX_CYCLE_START_DAY = 28;
+
 export function parseDateOnly(dateString: string): Date {
   const match = dateString.match(/^(\d{4})-(\d{2})-(\d{2})$/);
   if (!match) {
@@ -69,11 +72,14 @@ export function addMonthsAsDays(dateString: string, months: number): string {
   return addMonthsDateOnly(dateString, months);
 }
 
-export function getMonthBucket(dateString: string): string {
+export function getMonthBucket(
+  dateString: string,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY
+): string {
   const date = parseDateOnly(dateString);
   const day = date.getDate();
 
-  if (day >= 6) {
+  if (day >= cycleStartDay) {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, "0");
     return `${year}-${month}`;
@@ -85,34 +91,73 @@ export function getMonthBucket(dateString: string): string {
   return `${year}-${month}`;
 }
 
-export function getRevenueBucketRange(monthBucket: string): { start: string; end: string } {
+export function getRevenueBucketRange(
+  monthBucket: string,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY
+): { start: string; end: string } {
   const [yearStr, monthStr] = monthBucket.split("-");
   const year = parseInt(yearStr, 10);
   const month = parseInt(monthStr, 10);
+  const day = String(cycleStartDay).padStart(2, "0");
 
-  const start = `${year}-${String(month).padStart(2, "0")}-06`;
+  const start = `${year}-${String(month).padStart(2, "0")}-${day}`;
 
   const nextMonth = month === 12 ? 1 : month + 1;
   const nextYear = month === 12 ? year + 1 : year;
-  const end = `${nextYear}-${String(nextMonth).padStart(2, "0")}-05`;
+  const nextStart = `${nextYear}-${String(nextMonth).padStart(2, "0")}-${day}`;
+  const end = addDaysDateOnly(nextStart, -1);
 
   return { start, end };
 }
 
-export function getRecentMonthBuckets(count: number): string[] {
+export function getMonthBucketsBetween(
+  startBucket: string,
+  endBucket: string
+): string[] {
   const buckets: string[] = [];
-  const today = new Date();
+  const [startYear, startMonth] = startBucket.split("-").map(Number);
+  const [endYear, endMonth] = endBucket.split("-").map(Number);
+
+  let y = startYear;
+  let m = startMonth;
+
+  while (y < endYear || (y === endYear && m <= endMonth)) {
+    buckets.push(`${y}-${String(m).padStart(2, "0")}`);
+    m++;
+    if (m > 12) {
+      m = 1;
+      y++;
+    }
+  }
+
+  return buckets;
+}
+
+export function getRecentMonthBuckets(
+  count: number,
+  cycleStartDay: number = DEFAULT_CYCLE_START_DAY
+): string[] {
+  const buckets: string[] = [];
+  const [year, month] = getMonthBucket(getTodayDateOnly(), cycleStartDay)
+    .split("-")
+    .map(Number);
 
   for (let i = 0; i < count; i++) {
-    const d = new Date(today.getFullYear(), today.getMonth() - i, 1);
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, "0");
-    buckets.push(`${year}-${month}`);
+    const d = new Date(year, month - 1 - i, 1);
+    buckets.push(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`);
   }
 
   return buckets;
 }
 
+export function isValidMonthBucket(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+export function isValidCycleStartDay(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_CYCLE_START_DAY;
+}
+
 export function isValidDateOnly(dateString: string): boolean {
   try {
     parseDateOnly(dateString);
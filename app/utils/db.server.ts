@@ -1,4 +1,4 @@
-import { MongoClient, Db } from "mongodb";
+import { MongoClient, MongoServerError, type ClientSession, type Db } from "mongodb";
 
 declare global {
   var __mongoClientPromise: Promise<MongoClient> | undefined;
@@ -11,6 +11,8 @@ if (!MONGODB_URI) {
   throw new Error("MONGODB_URI environment variable is required.");
 }
 
+export const NOT_DELETED = { deletedAt: { $exists: false } } as const;
+
 let clientPromise: Promise<MongoClient>;
 
 if (!global.__mongoClientPromise) {
@@ -29,6 +31,44 @@ export async function getDb(): Promise<Db> {
   return client.db(MONGODB_DB_NAME);
 }
 
+let transactionsSupported: boolean | undefined;
+
+function isTransactionUnsupportedError(error: unknown): boolean {
+  return (
+    error instanceof MongoServerError &&
+    error.code === 20 &&
+    /Transaction numbers are only allowed/i.test(error.message)
+  );
+}
+
+// Runs `work` inside a multi-document transaction. Standalone servers (no replica set)
+// reject transactions, so there `work` is called once more without a session and the
+// caller is responsible for cleaning up after a partial failure.
+export async function withTransaction<T>(
+  work: (session: ClientSession | undefined) => Promise<T>
+): Promise<T> {
+  if (transactionsSupported === false) {
+    return work(undefined);
+  }
+
+  const client = await clientPromise;
+  const session = client.startSession();
+
+  try {
+    const result = await session.withTransaction(() => work(session));
+    transactionsSupported = true;
+    return result;
+  } catch (error) {
+    if (isTransactionUnsupportedError(error)) {
+      transactionsSupported = false;
+      return work(undefined);
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+}
+
 export async function closeDbConnection(): Promise<void> {
   if (global.__mongoClientPromise) {
     const client = await clientPromise;
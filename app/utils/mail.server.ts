@@ -0,0 +1,97 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+export type MailTransportName = "smtp" | "file" | "console";
+
+const MAIL_TRANSPORT_NAMES: readonly MailTransportName[] = ["smtp", "file", "console"];
+
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || "Kana Box V2 <no-reply@localhost>";
+}
+
+function createSmtpTransport(): MailTransport {
+  const smtpUrl = process.env.SMTP_URL;
+  if (!smtpUrl) {
+    throw new Error("SMTP_URL environment variable is required when MAIL_TRANSPORT=smtp.");
+  }
+
+  const transporter = nodemailer.createTransport(smtpUrl);
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({ from: getMailFrom(), ...message });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+// Writes each message as an .eml file so reminders can be inspected locally without an
+// SMTP server.
+function createFileTransport(): MailTransport {
+  const directory = path.resolve(process.env.MAIL_DIR || "mail-outbox");
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({ from: getMailFrom(), ...message });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`;
+      await mkdir(directory, { recursive: true });
+      await writeFile(path.join(directory, fileName), info.message as Buffer);
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  let sequence = 0;
+  return {
+    name: "console",
+    async send(message) {
+      sequence++;
+      console.log(
+        [
+          "----- mail -----",
+          `From: ${getMailFrom()}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          "",
+          message.text,
+          "----------------",
+        ].join("\n")
+      );
+      return { messageId: `console-${Date.now()}-${sequence}` };
+    },
+  };
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || "console";
+    if (!MAIL_TRANSPORT_NAMES.includes(name as MailTransportName)) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}" (expected smtp, file or console).`);
+    }
+
+    transport =
+      name === "smtp"
+        ? createSmtpTransport()
+        : name === "file"
+          ? createFileTransport()
+          : createConsoleTransport();
+  }
+  return transport;
+}
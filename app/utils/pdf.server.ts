@@ -0,0 +1,77 @@
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+}
+
+export interface PdfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// The built-in Helvetica fonts only cover WinAnsi, so Vietnamese diacritics and
+// symbols outside Latin-1 are transliterated instead of embedding a font.
+function toPdfString(text: string): string {
+  const latin = text
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/₫/g, "VND")
+    .replace(/€/g, "EUR")
+    .replace(/→/g, "->")
+    .replace(/[\u00a0\u202f]/g, " ")
+    .replace(/[^\x20-\xff]/g, "?");
+
+  return `(${latin.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+export function createPdf(
+  content: { texts: PdfText[]; lines?: PdfLine[] },
+  options: { title?: string } = {}
+): Uint8Array<ArrayBuffer> {
+  const commands: string[] = [];
+
+  for (const line of content.lines || []) {
+    commands.push(`0.5 w ${line.x1} ${line.y1} m ${line.x2} ${line.y2} l S`);
+  }
+  for (const item of content.texts) {
+    commands.push(
+      `BT /${item.bold ? "F2" : "F1"} ${item.size} Tf ${item.x} ${item.y} Td ${toPdfString(item.text)} Tj ET`
+    );
+  }
+
+  const stream = commands.join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`,
+    `<< /Title ${toPdfString(options.title || "")} /Producer (Kana Box V2) >>`,
+  ];
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, "latin1"));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    body += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(body, "latin1"));
+}
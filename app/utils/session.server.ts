@@ -0,0 +1,122 @@
+import { createCookieSessionStorage, redirect } from "@remix-run/node";
+import { getAdminUserById, type AdminUser } from "~/models/adminUser.server";
+import { hasPermission, type Permission } from "~/models/permissions";
+
+const SESSION_SECRET = process.env.SESSION_SECRET;
+const SESSION_MAX_AGE_HOURS = Number(process.env.SESSION_MAX_AGE_HOURS) || 12;
+
+if (!SESSION_SECRET) {
+  throw new Error("SESSION_SECRET environment variable is required.");
+}
+
+const SESSION_MAX_AGE_SECONDS = SESSION_MAX_AGE_HOURS * 60 * 60;
+
+const sessionStorage = createCookieSessionStorage({
+  cookie: {
+    name: "__kanabox_admin",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    secrets: [SESSION_SECRET],
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  },
+});
+
+const USER_ID_KEY = "adminUserId";
+const EXPIRES_AT_KEY = "expiresAt";
+
+export function getSafeRedirectTo(
+  value: FormDataEntryValue | string | null,
+  fallback = "/826264"
+): string {
+  if (!value || typeof value !== "string") {
+    return fallback;
+  }
+  if (!value.startsWith("/") || value.startsWith("//")) {
+    return fallback;
+  }
+  return value;
+}
+
+function getSession(request: Request) {
+  return sessionStorage.getSession(request.headers.get("Cookie"));
+}
+
+function redirectToLogin(request: Request, headers?: HeadersInit) {
+  const url = new URL(request.url);
+  const redirectTo = `${url.pathname}${url.search}`;
+  const searchParams = new URLSearchParams({ redirectTo });
+  return redirect(`/login?${searchParams}`, { headers });
+}
+
+export async function createAdminSession(
+  user: AdminUser,
+  redirectTo: string
+): Promise<Response> {
+  const session = await sessionStorage.getSession();
+  session.set(USER_ID_KEY, user._id.toString());
+  session.set(EXPIRES_AT_KEY, Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+
+  return redirect(redirectTo, {
+    headers: {
+      "Set-Cookie": await sessionStorage.commitSession(session),
+    },
+  });
+}
+
+export async function getAdminFromSession(
+  request: Request
+): Promise<AdminUser | null> {
+  const session = await getSession(request);
+  const userId = session.get(USER_ID_KEY);
+  const expiresAt = session.get(EXPIRES_AT_KEY);
+
+  if (typeof userId !== "string" || typeof expiresAt !== "number") {
+    return null;
+  }
+
+  if (Date.now() > expiresAt) {
+    return null;
+  }
+
+  return getAdminUserById(userId);
+}
+
+export async function requireAdmin(request: Request): Promise<AdminUser> {
+  const user = await getAdminFromSession(request);
+  if (user) {
+    return user;
+  }
+
+  const session = await getSession(request);
+  throw redirectToLogin(request, {
+    "Set-Cookie": await sessionStorage.destroySession(session),
+  });
+}
+
+export function assertPermission(user: AdminUser, permission: Permission): void {
+  if (!hasPermission(user.role, permission)) {
+    throw new Response("Bạn không có quyền thực hiện thao tác này", {
+      status: 403,
+    });
+  }
+}
+
+export async function requirePermission(
+  request: Request,
+  permission: Permission
+): Promise<AdminUser> {
+  const user = await requireAdmin(request);
+  assertPermission(user, permission);
+  return user;
+}
+
+export async function logout(request: Request): Promise<Response> {
+  const session = await getSession(request);
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await sessionStorage.destroySession(session),
+    },
+  });
+}
@@ -0,0 +1,65 @@
+import {
+  getAmountPrecisionMessage,
+  hasValidMinorUnits,
+  type Currency,
+} from "~/utils/currency";
+import { isValidDateOnly } from "~/utils/date";
+
+export const DISPLAY_NAME_MAX_LENGTH = 60;
+
+export function validateDisplayName(displayName: string): string | undefined {
+  if (!displayName) {
+    return "Tên là bắt buộc";
+  }
+  if (displayName.length > DISPLAY_NAME_MAX_LENGTH) {
+    return `Tên tối đa ${DISPLAY_NAME_MAX_LENGTH} ký tự`;
+  }
+  return undefined;
+}
+
+export function validateAmount(
+  amountStr: string,
+  currency: Currency
+): string | undefined {
+  const amount = parseFloat(amountStr);
+  if (!amountStr || isNaN(amount) || amount <= 0) {
+    return "Số tiền phải là số dương";
+  }
+  if (!hasValidMinorUnits(amount, currency)) {
+    return getAmountPrecisionMessage(currency);
+  }
+  return undefined;
+}
+
+export function validateMonths(monthsStr: string): string | undefined {
+  const months = parseInt(monthsStr, 10);
+  if (!monthsStr || isNaN(months) || months < 1) {
+    return "Số tháng tối thiểu là 1";
+  }
+  return undefined;
+}
+
+export function validateDateOnly(
+  value: string,
+  options: { required?: boolean } = {}
+): string | undefined {
+  if (!value && options.required === false) {
+    return undefined;
+  }
+  if (!value || !isValidDateOnly(value)) {
+    return "Vui lòng nhập ngày hợp lệ (YYYY-MM-DD)";
+  }
+  return undefined;
+}
+
+export const EMAIL_MAX_LENGTH = 254;
+
+export function validateEmail(email: string): string | undefined {
+  if (!email) {
+    return undefined;
+  }
+  if (email.length > EMAIL_MAX_LENGTH || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return "Email không hợp lệ";
+  }
+  return undefined;
+}
@@ -0,0 +1,42 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { signWebhookPayload, verifyWebhookSignature } from "~/utils/webhookSignature.server";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ event: "payment.created", data: { id: "1" } });
+const NOW = 1_760_000_000;
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", SECRET).update(`${NOW}.${BODY}`).digest("hex");
+    expect(signWebhookPayload(SECRET, BODY, NOW)).toBe(`t=${NOW},v1=${expected}`);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a signature it produced", () => {
+    const header = signWebhookPayload(SECRET, BODY, NOW);
+    expect(verifyWebhookSignature(SECRET, BODY, header, NOW)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, BODY, header, NOW + 5 * 60)).toBe(true);
+  });
+
+  it("rejects a changed body or the wrong secret", () => {
+    const header = signWebhookPayload(SECRET, BODY, NOW);
+    expect(verifyWebhookSignature(SECRET, `${BODY} `, header, NOW)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", BODY, header, NOW)).toBe(false);
+  });
+
+  it("rejects timestamps outside the tolerance window", () => {
+    const header = signWebhookPayload(SECRET, BODY, NOW);
+    expect(verifyWebhookSignature(SECRET, BODY, header, NOW + 5 * 60 + 1)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, header, NOW - 5 * 60 - 1)).toBe(false);
+  });
+
+  it("rejects missing or malformed headers", () => {
+    expect(verifyWebhookSignature(SECRET, BODY, null, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, "", NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, `t=${NOW}`, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, `t=abc,v1=00`, NOW)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, BODY, `t=${NOW},v1=abcd`, NOW)).toBe(false);
+  });
+});
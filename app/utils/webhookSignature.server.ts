@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-KanaBox-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-KanaBox-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-KanaBox-Delivery";
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Header format: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>". Including the
+// timestamp in the signed string lets receivers reject replays of old deliveries.
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    (header || "").split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
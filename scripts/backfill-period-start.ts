@@ -0,0 +1,43 @@
+import type { AnyBulkWriteOperation } from "mongodb";
+import { getDb, closeDbConnection } from "~/utils/db.server";
+import type { Payment } from "~/models/payment.server";
+import { addMonthsDateOnly } from "~/utils/date";
+
+// The stored end date already reflects any stacking, so the period is derived from it and
+// the end date itself is left untouched.
+function getBackfilledPeriodStart(payment: Payment): string {
+    if (!payment.endDate || addMonthsDateOnly(payment.paidDate, payment.months) === payment.endDate) {
+        return payment.paidDate;
+    }
+    return addMonthsDateOnly(payment.endDate, -payment.months);
+}
+
+async function main() {
+    const db = await getDb();
+    const collection = db.collection<Payment>("payments");
+
+    console.log("Backfilling payment period start dates...");
+    const payments = await collection
+        .find({ periodStart: { $exists: false } })
+        .toArray();
+
+    const operations: AnyBulkWriteOperation<Payment>[] = payments.map((payment) => ({
+        updateOne: {
+            filter: { _id: payment._id },
+            update: { $set: { periodStart: getBackfilledPeriodStart(payment) } },
+        },
+    }));
+
+    if (operations.length > 0) {
+        await collection.bulkWrite(operations);
+    }
+    console.log(`  [UPDATED] ${operations.length} payment(s).`);
+    console.log("\nDone.");
+    await closeDbConnection();
+}
+
+main().catch(async (err) => {
+    console.error("Failed to backfill period start dates:", err);
+    await closeDbConnection().catch(() => undefined);
+    process.exit(1);
+});
@@ -0,0 +1,81 @@
+import { MongoClient } from "mongodb";
+import { randomBytes, scrypt } from "node:crypto";
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt);
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const MONGODB_DB_NAME = process.env.MONGODB_DB_NAME || "subscription";
+
+if (!MONGODB_URI) {
+    console.error("MONGODB_URI environment variable is required.");
+    process.exit(1);
+}
+
+const ROLES = ["owner", "cashier", "viewer"];
+
+const [usernameArg, password, roleArg] = process.argv.slice(2);
+
+if (!usernameArg || !password) {
+    console.error("Usage: npm run create:admin -- <username> <password> [owner|cashier|viewer]");
+    process.exit(1);
+}
+
+if (roleArg && !ROLES.includes(roleArg)) {
+    console.error(`Role must be one of: ${ROLES.join(", ")}.`);
+    process.exit(1);
+}
+
+if (password.length < 8) {
+    console.error("Password must be at least 8 characters.");
+    process.exit(1);
+}
+
+// Must match hashPassword() in app/models/adminUser.server.ts.
+async function hashPassword(plain) {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(plain, salt, 64);
+    return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+async function main() {
+    const username = usernameArg.trim().toLowerCase();
+
+    console.log(`Connecting to MongoDB...`);
+    const client = new MongoClient(MONGODB_URI);
+    await client.connect();
+    const db = client.db(MONGODB_DB_NAME);
+    console.log(`Connected to database: ${MONGODB_DB_NAME}`);
+
+    const collection = db.collection("admin_users");
+    const now = new Date();
+    const passwordHash = await hashPassword(password);
+
+    const existing = await collection.findOne({ username });
+    if (existing) {
+        const role = roleArg || existing.role || "owner";
+        await collection.updateOne(
+            { _id: existing._id },
+            { $set: { passwordHash, role, updatedAt: now } }
+        );
+        console.log(`  [UPDATE] Password reset for admin "${username}" (role: ${role}).`);
+    } else {
+        const role = roleArg || "owner";
+        await collection.insertOne({
+            username,
+            passwordHash,
+            role,
+            createdAt: now,
+            updatedAt: now,
+        });
+        console.log(`  [CREATE] Admin "${username}" created (role: ${role}).`);
+    }
+
+    console.log("\nDone.");
+    await client.close();
+}
+
+main().catch((err) => {
+    console.error("Failed to create admin:", err);
+    process.exit(1);
+});
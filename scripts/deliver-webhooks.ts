@@ -0,0 +1,42 @@
+import { closeDbConnection } from "~/utils/db.server";
+import { deliverDueWebhooks } from "~/models/webhook.server";
+
+const WATCH = process.argv.includes("--watch");
+const POLL_SECONDS = Number(process.env.WEBHOOK_POLL_SECONDS) || 15;
+
+async function deliverOnce() {
+    const summary = await deliverDueWebhooks();
+    if (summary.succeeded + summary.retrying + summary.failed > 0 || !WATCH) {
+        console.log(
+            `  [DELIVERED] ${summary.succeeded} succeeded, ${summary.retrying} will retry, ${summary.failed} failed.`
+        );
+    }
+}
+
+async function main() {
+    console.log("Delivering due webhooks...");
+    await deliverOnce();
+
+    if (WATCH) {
+        console.log(`Watching for new deliveries every ${POLL_SECONDS}s (Ctrl+C to stop)...`);
+        let stopping = false;
+        process.on("SIGINT", () => {
+            stopping = true;
+        });
+        while (!stopping) {
+            await new Promise((resolve) => setTimeout(resolve, POLL_SECONDS * 1000));
+            if (!stopping) {
+                await deliverOnce();
+            }
+        }
+    }
+
+    console.log("\nDone.");
+    await closeDbConnection();
+}
+
+main().catch(async (err) => {
+    console.error("Failed to deliver webhooks:", err);
+    await closeDbConnection().catch(() => undefined);
+    process.exit(1);
+});
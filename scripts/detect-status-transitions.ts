@@ -0,0 +1,20 @@
+import { closeDbConnection } from "~/utils/db.server";
+import { detectStatusTransitions } from "~/models/statusTransition.server";
+
+async function main() {
+    console.log("Evaluating customer statuses...");
+    const result = await detectStatusTransitions();
+    console.log(`  [EVALUATED] ${result.evaluated} customer(s), ${result.baselined} new baseline(s).`);
+    for (const transition of result.transitions) {
+        console.log(`  [CHANGED] ${transition.displayName}: ${transition.from} -> ${transition.to}`);
+    }
+    console.log(`  [TRANSITIONS] ${result.transitions.length} recorded.`);
+    console.log("\nDone.");
+    await closeDbConnection();
+}
+
+main().catch(async (err) => {
+    console.error("Failed to detect status transitions:", err);
+    await closeDbConnection().catch(() => undefined);
+    process.exit(1);
+});
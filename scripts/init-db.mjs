@@ -22,9 +22,142 @@ const DESIRED_INDEXES = {
             key: { customerId: 1, paidDate: -1 },
             unique: false,
         },
+        {
+            name: "ix_payments_receiptNumber_unique",
+            key: { receiptNumber: 1 },
+            unique: true,
+            partialFilterExpression: { receiptNumber: { $exists: true } },
+        },
+    ],
+    refunds: [
+        {
+            name: "ix_refunds_paymentId",
+            key: { paymentId: 1 },
+            unique: false,
+        },
+        {
+            name: "ix_refunds_customerId_refundDate_desc",
+            key: { customerId: 1, refundDate: -1 },
+            unique: false,
+        },
+        {
+            name: "ix_refunds_refundDate",
+            key: { refundDate: 1 },
+            unique: false,
+        },
+    ],
+    balance_entries: [
+        {
+            name: "ix_balance_entries_paymentId_unique",
+            key: { paymentId: 1 },
+            unique: true,
+            partialFilterExpression: { paymentId: { $exists: true } },
+        },
+        {
+            name: "ix_balance_entries_customerId_entryDate_desc",
+            key: { customerId: 1, entryDate: -1 },
+            unique: false,
+        },
+    ],
+    audit_events: [
+        {
+            name: "ix_audit_events_customerId_createdAt_desc",
+            key: { customerId: 1, createdAt: -1 },
+            unique: false,
+        },
+        {
+            name: "ix_audit_events_createdAt_desc",
+            key: { createdAt: -1 },
+            unique: false,
+        },
+    ],
+    admin_users: [
+        {
+            name: "ix_admin_users_username_unique",
+            key: { username: 1 },
+            unique: true,
+        },
+    ],
+    api_tokens: [
+        {
+            name: "ix_api_tokens_tokenHash_unique",
+            key: { tokenHash: 1 },
+            unique: true,
+        },
+    ],
+    customer_statuses: [
+        {
+            name: "ix_customer_statuses_customerId_unique",
+            key: { customerId: 1 },
+            unique: true,
+        },
+    ],
+    status_transitions: [
+        {
+            name: "ix_status_transitions_customerId_createdAt_desc",
+            key: { customerId: 1, createdAt: -1 },
+            unique: false,
+        },
+        {
+            name: "ix_status_transitions_createdAt_desc",
+            key: { createdAt: -1 },
+            unique: false,
+        },
+    ],
+    renewal_reminders: [
+        {
+            name: "ix_renewal_reminders_customerId_stage_endDate_unique",
+            key: { customerId: 1, stage: 1, endDate: 1 },
+            unique: true,
+        },
+        {
+            name: "ix_renewal_reminders_customerId_createdAt_desc",
+            key: { customerId: 1, createdAt: -1 },
+            unique: false,
+        },
+    ],
+    webhook_endpoints: [
+        {
+            name: "ix_webhook_endpoints_active_events",
+            key: { active: 1, events: 1 },
+            unique: false,
+        },
+    ],
+    webhook_deliveries: [
+        {
+            name: "ix_webhook_deliveries_status_nextAttemptAt",
+            key: { status: 1, nextAttemptAt: 1 },
+            unique: false,
+        },
+        {
+            name: "ix_webhook_deliveries_createdAt_desc",
+            key: { createdAt: -1 },
+            unique: false,
+        },
+    ],
+    plans: [
+        {
+            name: "ix_plans_active_name",
+            key: { active: -1, name: 1 },
+            unique: false,
+        },
+    ],
+    exchange_rates: [
+        {
+            name: "ix_exchange_rates_currency_effectiveDate_unique",
+            key: { currency: 1, effectiveDate: 1 },
+            unique: true,
+        },
     ],
 };
 
+const DEFAULT_PLAN = {
+    name: "Cơ bản",
+    prices: { VND: 50000, USD: 2 },
+    billingPeriodMonths: 1,
+    active: true,
+};
+
 async function ensureIndex(collection, desired) {
     const existing = await collection.indexes();
     const found = existing.find((idx) => idx.name === desired.name);
@@ -33,8 +166,11 @@ async function ensureIndex(collection, desired) {
         const keysMatch =
             JSON.stringify(found.key) === JSON.stringify(desired.key);
         const uniqueMatch = (found.unique || false) === desired.unique;
+        const partialMatch =
+            JSON.stringify(found.partialFilterExpression || null) ===
+            JSON.stringify(desired.partialFilterExpression || null);
 
-        if (keysMatch && uniqueMatch) {
+        if (keysMatch && uniqueMatch && partialMatch) {
             console.log(`  [OK] Index "${desired.name}" already exists and is correct.`);
             return;
         }
@@ -48,6 +184,9 @@ async function ensureIndex(collection, desired) {
     if (desired.unique) {
         options.unique = true;
     }
+    if (desired.partialFilterExpression) {
+        options.partialFilterExpression = desired.partialFilterExpression;
+    }
     await collection.createIndex(desired.key, options);
     console.log(`  [DONE] Index "${desired.name}" created.`);
 }
@@ -67,6 +206,20 @@ async function main() {
         }
     }
 
+    const backfill = await db
+        .collection("admin_users")
+        .updateMany({ role: { $exists: false } }, { $set: { role: "owner" } });
+    if (backfill.modifiedCount > 0) {
+        console.log(`\n[BACKFILL] Set role "owner" on ${backfill.modifiedCount} admin(s) without a role.`);
+    }
+
+    const plans = db.collection("plans");
+    if ((await plans.countDocuments()) === 0) {
+        const now = new Date();
+        await plans.insertOne({ ...DEFAULT_PLAN, createdAt: now, updatedAt: now });
+        console.log(`\n[SEED] Created default plan "${DEFAULT_PLAN.name}".`);
+    }
+
     console.log("\nDone.");
     await client.close();
 }
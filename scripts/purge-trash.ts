@@ -0,0 +1,16 @@
+import { closeDbConnection } from "~/utils/db.server";
+import { TRASH_RETENTION_DAYS, purgeExpiredTrash } from "~/models/trash.server";
+
+async function main() {
+    console.log(`Purging trash older than ${TRASH_RETENTION_DAYS} days...`);
+    const purged = await purgeExpiredTrash();
+    console.log(`  [PURGED] ${purged.customers} customer(s), ${purged.payments} payment(s).`);
+    console.log("\nDone.");
+    await closeDbConnection();
+}
+
+main().catch(async (err) => {
+    console.error("Failed to purge trash:", err);
+    await closeDbConnection().catch(() => undefined);
+    process.exit(1);
+});
@@ -0,0 +1,27 @@
+import { closeDbConnection } from "~/utils/db.server";
+import { sendRenewalReminders } from "~/models/renewalReminder.server";
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+async function main() {
+    console.log(DRY_RUN ? "Checking renewal reminders (dry run)..." : "Sending renewal reminders...");
+    const summary = await sendRenewalReminders({ dryRun: DRY_RUN });
+
+    for (const candidate of summary.pending) {
+        console.log(
+            `  [WOULD SEND] ${candidate.stage} reminder to ${candidate.customer.displayName} <${candidate.customer.email}> (ends ${candidate.endDate})`
+        );
+    }
+    if (!DRY_RUN) {
+        console.log(`  [SENT] ${summary.sent} reminder(s), ${summary.failed} failed.`);
+    }
+    console.log(`  [SKIPPED] ${summary.alreadySent} already sent.`);
+    console.log("\nDone.");
+    await closeDbConnection();
+}
+
+main().catch(async (err) => {
+    console.error("Failed to send renewal reminders:", err);
+    await closeDbConnection().catch(() => undefined);
+    process.exit(1);
+});
@@ -0,0 +1,52 @@
+import { createServer } from "node:http";
+import {
+    WEBHOOK_DELIVERY_HEADER,
+    WEBHOOK_EVENT_HEADER,
+    WEBHOOK_SIGNATURE_HEADER,
+    verifyWebhookSignature,
+} from "~/utils/webhookSignature.server";
+
+// Stand-in endpoint for trying webhooks locally: register http://localhost:<port>/ on the
+// admin webhooks page, then run `npm run webhooks:deliver`. Pass --fail to answer 500
+// and watch the delivery log schedule retries.
+const PORT = Number(process.env.PORT) || 8787;
+const SECRET = process.env.WEBHOOK_SECRET;
+const FAIL = process.argv.includes("--fail");
+
+const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+        const body = Buffer.concat(chunks).toString("utf8");
+        const event = req.headers[WEBHOOK_EVENT_HEADER.toLowerCase()];
+        const deliveryId = req.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()];
+        const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+
+        let verified = "not checked (set WEBHOOK_SECRET)";
+        if (SECRET) {
+            verified = verifyWebhookSignature(
+                SECRET,
+                body,
+                Array.isArray(signature) ? signature[0] : signature
+            )
+                ? "valid"
+                : "INVALID";
+        }
+
+        console.log(`\n[${new Date().toISOString()}] ${req.method} ${req.url}`);
+        console.log(`  event: ${event}  delivery: ${deliveryId}  signature: ${verified}`);
+        try {
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+        } catch {
+            console.log(body);
+        }
+
+        const status = SECRET && verified !== "valid" ? 401 : FAIL ? 500 : 200;
+        res.writeHead(status, { "Content-Type": "text/plain" });
+        res.end(status === 200 ? "ok" : "rejected");
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`Webhook receiver listening on http://localhost:${PORT}/${FAIL ? " (answering 500)" : ""}`);
+});
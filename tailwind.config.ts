@@ -14,6 +14,8 @@ export default {
           "grace-border": "#ea580c", // orange-600
           expired: "#fee2e2", // red-100
           "expired-border": "#dc2626", // red-600
+          paused: "#e0f2fe", // sky-100
+          "paused-border": "#0284c7", // sky-600
         },
       },
     },